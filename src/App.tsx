@@ -4,23 +4,39 @@ import { EnhancedWelcome } from './features/upload/components/EnhancedWelcome';
 import { ScriptFlow } from './features/upload/components/ScriptFlow';
 import { SlideViewer } from './features/slides/components/SlideViewer';
 import { ScriptEditor } from './features/script/components/ScriptEditor';
+import { FullScriptEditor } from './features/script/components/FullScriptEditor';
+import { DeckSearchPanel } from './features/search/components/DeckSearchPanel';
 import { PreparationOptions } from './features/setup/components/PreparationOptions';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './components/ui/tabs';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './components/ui/card';
 import { Badge } from './components/ui/badge';
 import { Button } from './components/ui/button';
 import { ErrorBoundary } from './components/ErrorBoundary';
-import { Check, Trash2 } from 'lucide-react';
+import { Check, Library, Download } from 'lucide-react';
 import { Toaster } from './components/ui/toast';
 import { SimplePracticeView } from './features/practice/components/SimplePracticeView';
+import { PresentationLibrary } from './features/library/components/PresentationLibrary';
+import { SessionHistory } from './features/sessions/components/SessionHistory';
+import { DeliveryView } from './features/delivery/components/DeliveryView';
+import { TeleprompterView } from './features/teleprompter/components/TeleprompterView';
+import { FlashcardStudyView } from './features/flashcards/components/FlashcardStudyView';
+import { QAView } from './features/qa/components/QAView';
+import { exportPresentationBundle } from './services/presentationBundle';
+import { HandoutExport } from './features/export/components/HandoutExport';
+import { TimeBudgetPlanner } from './features/budget/components/TimeBudgetPlanner';
+import { SectionManager } from './features/sections/components/SectionManager';
+import { PathManager } from './features/paths/components/PathManager';
+import { ScriptHistoryPanel } from './features/history/components/ScriptHistoryPanel';
+import { CoverageHistory } from './features/script-coverage/components/CoverageHistory';
+import { KeyBindingsSettings } from './features/keyboard/components/KeyBindingsSettings';
+import { KeyboardHelpOverlay } from './features/keyboard/components/KeyboardHelpOverlay';
 import './App.css';
 
 function App() {
-  const { currentPresentation, clearPresentation, uploadStatus, currentSlideIndex, loadImagesFromIndexedDB, getTempUploadedScript } = usePresentationStore();
-  const [currentMode, setCurrentMode] = useState<'setup' | 'practice'>('setup');
+  const { currentPresentation, closePresentation, uploadStatus, currentSlideIndex, loadImagesFromIndexedDB, getTempUploadedScript } = usePresentationStore();
+  const [currentMode, setCurrentMode] = useState<'setup' | 'practice' | 'teleprompter' | 'study' | 'qa' | 'delivery'>('setup');
   const [setupComplete, setSetupComplete] = useState(false);
   const [hasAIProcessing, setHasAIProcessing] = useState(false);
-  const [showClearConfirm, setShowClearConfirm] = useState(false);
   
   // Load images from IndexedDB when app starts with a persisted presentation  
   useEffect(() => {
@@ -33,6 +49,13 @@ function App() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [currentPresentation?.id]); // Only run when presentation changes, not when function changes
   
+  // Section rehearsal only lasts while in practice - other modes get the whole deck
+  useEffect(() => {
+    if (currentMode !== 'practice') {
+      usePresentationStore.getState().setPracticeSection(null);
+    }
+  }, [currentMode]);
+  
   // Check if setup is complete - BOTH scripts AND actual AI guides required
   useEffect(() => {
     if (currentPresentation) {
@@ -130,16 +153,31 @@ function App() {
               )}
             </div>
             {currentPresentation && (
-              <Button 
-                variant="destructive"
-                size="sm"
-                onClick={() => setShowClearConfirm(true)}
-                className="flex items-center gap-2"
-              >
-                <Trash2 className="w-4 h-4" />
-                <span className="hidden sm:inline">Start Fresh</span>
-                <span className="sm:hidden">Clear</span>
-              </Button>
+              <div className="flex items-center gap-2">
+                <Button 
+                  variant="outline"
+                  size="sm"
+                  onClick={() => exportPresentationBundle(currentPresentation)}
+                  className="flex items-center gap-2"
+                  title="Export slides, scripts and guides as a single file"
+                >
+                  <Download className="w-4 h-4" />
+                  <span className="hidden sm:inline">Export</span>
+                </Button>
+                <Button 
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    closePresentation();
+                    setCurrentMode('setup');
+                  }}
+                  className="flex items-center gap-2"
+                >
+                  <Library className="w-4 h-4" />
+                  <span className="hidden sm:inline">All Presentations</span>
+                  <span className="sm:hidden">Library</span>
+                </Button>
+              </div>
             )}
           </div>
         </div>
@@ -151,6 +189,7 @@ function App() {
             fallbackTitle="Welcome Screen Error" 
             fallbackMessage="There was a problem loading the welcome screen. Please try refreshing the page."
           >
+            <PresentationLibrary />
             <EnhancedWelcome 
               onScriptProvided={(script) => {
                 // Store script in Zustand store for Setup mode access
@@ -178,7 +217,7 @@ function App() {
             />
           </ErrorBoundary>
         ) : (
-          <Tabs value={currentMode} onValueChange={(value) => setCurrentMode(value as 'setup' | 'practice')} className="w-full">
+          <Tabs value={currentMode} onValueChange={(value) => setCurrentMode(value as 'setup' | 'practice' | 'teleprompter' | 'study' | 'qa' | 'delivery')} className="w-full">
             {/* Beautiful tab navigation */}
             <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-8">
               <div>
@@ -190,7 +229,7 @@ function App() {
                 </p>
               </div>
               
-              <TabsList className="grid w-full max-w-md grid-cols-2">
+              <TabsList className="grid w-full max-w-3xl grid-cols-6">
                 <TabsTrigger value="setup" className="data-[state=active]:bg-white relative">
                   <span className="mr-2">📁</span> Setup
                   {!setupComplete && currentPresentation && (
@@ -210,6 +249,34 @@ function App() {
                     </Badge>
                   )}
                 </TabsTrigger>
+                <TabsTrigger 
+                  value="teleprompter" 
+                  className="data-[state=active]:bg-white"
+                  disabled={!setupComplete}
+                >
+                  <span className="mr-2">📜</span> Prompter
+                </TabsTrigger>
+                <TabsTrigger 
+                  value="study" 
+                  className="data-[state=active]:bg-white"
+                  disabled={!setupComplete}
+                >
+                  <span className="mr-2">🧠</span> Study
+                </TabsTrigger>
+                <TabsTrigger 
+                  value="qa" 
+                  className="data-[state=active]:bg-white"
+                  disabled={!setupComplete}
+                >
+                  <span className="mr-2">❓</span> Q&amp;A
+                </TabsTrigger>
+                <TabsTrigger 
+                  value="delivery" 
+                  className="data-[state=active]:bg-white"
+                  disabled={!setupComplete}
+                >
+                  <span className="mr-2">📽️</span> Deliver
+                </TabsTrigger>
               </TabsList>
             </div>
 
@@ -267,7 +334,7 @@ function App() {
                         fallbackMessage="There was a problem displaying the slides. Please try again."
                         showHomeButton={false}
                       >
-                        <SlideViewer />
+                        <SlideViewer allowHiding />
                       </ErrorBoundary>
                     </CardContent>
                   </Card>
@@ -288,7 +355,6 @@ function App() {
                             slideId={currentPresentation.slides[currentSlideIndex]?.id}
                             initialScript={
                               currentPresentation.slides[currentSlideIndex]?.script || 
-                              currentPresentation.fullScript || 
                               getTempUploadedScript() || 
                               ''
                             }
@@ -298,6 +364,12 @@ function App() {
                     </CardContent>
                   </Card>
                 </div>
+                
+                {/* The whole script, kept in step with the slide scripts */}
+                <FullScriptEditor />
+                
+                {/* Find and replace across every slide */}
+                <DeckSearchPanel />
               </div>
               
               {/* Preparation Options - Choose how to prepare for practice */}
@@ -309,6 +381,35 @@ function App() {
                   }}
                 />
               </div>
+              
+              {/* Time budget - per-slide share of the talk length */}
+              <TimeBudgetPlanner />
+              
+              {/* Named slide ranges, rehearsed one at a time */}
+              <SectionManager 
+                onRehearse={() => {
+                  setSetupComplete(true);
+                  setCurrentMode('practice');
+                }}
+              />
+              
+              {/* Hidden slides and alternate versions of the talk */}
+              <PathManager />
+              
+              {/* Earlier script versions - per-slide revisions and deck snapshots */}
+              <ScriptHistoryPanel />
+              
+              {/* Printable handout - slides with scripts, notes and guides */}
+              <HandoutExport />
+              
+              {/* Rehearsal History - per-slide timing of past practice runs */}
+              <SessionHistory />
+              
+              {/* Rehearsal coverage - what each run left out */}
+              <CoverageHistory />
+              
+              {/* Keyboard and presentation-clicker mapping */}
+              <KeyBindingsSettings />
             </TabsContent>
             
             <TabsContent value="practice" className="p-0">
@@ -322,6 +423,54 @@ function App() {
                 />
               </ErrorBoundary>
             </TabsContent>
+            
+            <TabsContent value="teleprompter" className="p-0">
+              {/* Auto-scrolling script at speaking pace */}
+              <ErrorBoundary
+                fallbackTitle="Teleprompter Error"
+                fallbackMessage="There was a problem loading the teleprompter. You can try going back to setup."
+              >
+                <TeleprompterView 
+                  onBack={() => setCurrentMode('setup')}
+                />
+              </ErrorBoundary>
+            </TabsContent>
+            
+            <TabsContent value="study" className="p-0">
+              {/* Spaced-repetition flashcards from the presenter guides */}
+              <ErrorBoundary
+                fallbackTitle="Study Mode Error"
+                fallbackMessage="There was a problem loading the flashcards. You can try going back to setup."
+              >
+                <FlashcardStudyView 
+                  onBack={() => setCurrentMode('setup')}
+                />
+              </ErrorBoundary>
+            </TabsContent>
+            
+            <TabsContent value="qa" className="p-0">
+              {/* Question bank with prepared answers and a timed drill */}
+              <ErrorBoundary
+                fallbackTitle="Q&A Mode Error"
+                fallbackMessage="There was a problem loading the question bank. You can try going back to setup."
+              >
+                <QAView 
+                  onBack={() => setCurrentMode('setup')}
+                />
+              </ErrorBoundary>
+            </TabsContent>
+            
+            <TabsContent value="delivery" className="p-0">
+              {/* Presenter window - the audience window is opened from here */}
+              <ErrorBoundary
+                fallbackTitle="Delivery Mode Error"
+                fallbackMessage="There was a problem loading delivery mode. You can try going back to setup."
+              >
+                <DeliveryView 
+                  onBack={() => setCurrentMode('setup')}
+                />
+              </ErrorBoundary>
+            </TabsContent>
           </Tabs>
         )}
       </main>
@@ -338,58 +487,11 @@ function App() {
         </div>
       )}
 
-      {/* Confirmation Dialog */}
-      {showClearConfirm && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
-          {/* Backdrop */}
-          <div 
-            className="absolute inset-0 bg-black/60 backdrop-blur-sm"
-            onClick={() => setShowClearConfirm(false)}
-          />
-          
-          {/* Dialog */}
-          <Card className="relative max-w-md w-full bg-white shadow-2xl border-0">
-            <CardHeader className="space-y-3">
-              <CardTitle className="text-xl font-semibold flex items-center gap-2">
-                <span className="text-red-500 text-2xl">⚠️</span>
-                Clear All Data?
-              </CardTitle>
-              <CardDescription className="text-gray-600">
-                <p className="font-medium mb-2">This action cannot be undone.</p>
-                <p className="text-sm">You will permanently delete:</p>
-                <ul className="list-disc list-inside mt-2 space-y-1 text-sm text-gray-500">
-                  <li>All uploaded slides ({currentPresentation?.slides.length || 0} slides)</li>
-                  <li>All presentation scripts</li>
-                  <li>Any AI processing results</li>
-                </ul>
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="flex gap-3 justify-end pt-2">
-              <Button
-                variant="outline"
-                onClick={() => setShowClearConfirm(false)}
-                className="min-w-[100px]"
-              >
-                Cancel
-              </Button>
-              <Button
-                variant="destructive"
-                onClick={() => {
-                  clearPresentation();
-                  setShowClearConfirm(false);
-                  setCurrentMode('setup');
-                }}
-                className="min-w-[100px]"
-              >
-                Clear All
-              </Button>
-            </CardContent>
-          </Card>
-        </div>
-      )}
-      
       {/* Toast Notifications */}
       <Toaster />
+      
+      {/* Keyboard shortcuts for the current screen - opened with ? */}
+      <KeyboardHelpOverlay />
     </div>
   );
 }
@@ -2,13 +2,35 @@ import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { ContentGuide } from '../../features/practice/utils/script-processor';
 import { ScriptSplitter } from '../../features/script/utils/scriptSplitter';
-import { saveSlideImage, loadPresentationImages, deletePresentationImages } from '../../services/imageStorage';
-import type { Slide, Presentation } from '../types';
+import { composeFullScript, splitFullScript } from '../../features/script/utils/full-script-sync';
+import { buildSearchPattern, replaceInDeck, type DeckSearchOptions, type SearchMatch } from '../../features/search/utils/deck-search';
+import { remapTimeBudget } from '../../features/budget/utils/time-budget';
+import { analyzeDelivery } from '../../features/sessions/utils/delivery-analysis';
+import { mergeQuestions } from '../../features/qa/utils/qa-bank';
+import { getSectionRange, remapSections, type SlideRange } from '../../features/sections/utils/sections';
+import { createDeckSnapshot, createScriptRevision, DEFAULT_HISTORY_LIMIT_MB } from '../../features/history/utils/script-history';
+import { computePathTargets, getNavigableSlides, getSelectedPath, remapPaths, snapToSequence, stepInSequence } from '../../features/paths/utils/slide-paths';
+import { saveSlideImage, loadPresentationImages, deletePresentationImages, copyPresentationImages, deletePresentationRecordings } from '../../services/imageStorage';
+import {
+  savePresentationRecord,
+  loadPresentationRecord,
+  listPresentations,
+  deletePresentationRecord,
+  type PresentationSummary
+} from '../../services/presentationLibrary';
+import { saveSession, deletePresentationSessions, updateSessionRecording } from '../../services/practiceSessions';
+import { deletePresentationFlashcards } from '../../services/flashcardReviews';
+import { importPresentationBundle, type BundleImportResult } from '../../services/presentationBundle';
+import { saveScriptRevisions, loadSlideRevisions, saveDeckSnapshot, pruneScriptHistory, deletePresentationScriptHistory } from '../../services/scriptHistory';
+import type { Slide, Presentation, Session, ImportedSlideContent, SlideMastery, TalkTimeBudget, QAItem, KeyBindings, PresentationSection, PresentationPath, ScriptRevision, ScriptRevisionSource, DeckSnapshot } from '../types';
 
 interface PresentationState {
   // Presentation data
   currentPresentation: Presentation | null;
   
+  // Library of all stored presentations (IndexedDB)
+  library: PresentationSummary[];
+  
   // Upload state
   uploadStatus: 'idle' | 'uploading' | 'converting' | 'complete' | 'error';
   uploadProgress: number;
@@ -17,6 +39,24 @@ interface PresentationState {
   // Navigation state
   currentSlideIndex: number;
   
+  // Active rehearsal session (not persisted to localStorage - saved to IndexedDB)
+  activeSession: Session | null;
+  
+  // Section practice is limited to - navigation stays inside it (null = whole deck)
+  practiceSectionId: string | null;
+  
+  // Slide a jump to a backup slide was made from - next/previous return to it
+  detourFromIndex: number | null;
+  
+  // Presenter's own speaking rate (null = average rate)
+  presenterWordsPerMinute: number | null;
+  
+  // Keyboard and clicker mapping (null = defaults)
+  keyBindings: KeyBindings | null;
+  
+  // Script history kept per presentation, in megabytes
+  scriptHistoryLimitMb: number;
+  
   // Sync tracking
   lastEditLocation: 'setup' | 'practice' | null;
   
@@ -24,18 +64,56 @@ interface PresentationState {
   tempUploadedScript: string | null;
   
   // Actions
-  createPresentation: (title: string, slideImages: string[]) => Promise<void>;
-  updateSlideScript: (slideId: string, script: string, source?: 'setup' | 'practice') => void;
+  createPresentation: (title: string, slideImages: string[], slideContent?: ImportedSlideContent[]) => Promise<void>;
+  updateSlideScript: (slideId: string, script: string, source?: ScriptRevisionSource) => void;
   updateSlideGuide: (slideId: string, guide: ContentGuide) => void;
   updateSlideNotes: (slideId: string, notes: string) => void;
+  updateSlideMastery: (slideId: string, mastery: SlideMastery) => void;
+  setTimeBudget: (budget: TalkTimeBudget | undefined) => void;
+  setPresenterWordsPerMinute: (wordsPerMinute: number | null) => void;
+  setKeyBindings: (bindings: KeyBindings | null) => void;
+  setScriptHistoryLimit: (limitMb: number) => void;
+  restoreScriptRevision: (revision: ScriptRevision) => Promise<void>;
+  restoreDeckSnapshot: (snapshot: DeckSnapshot) => void;
+  takeDeckSnapshot: (reason: string) => void;
+  replaceInSlides: (
+    search: DeckSearchOptions,
+    replacement: string,
+    target?: Pick<SearchMatch, 'slideId' | 'key' | 'ordinal'>
+  ) => { replacedCount: number; snapshot: DeckSnapshot | null };
+  addQuestions: (questions: QAItem[], slideId?: string) => void;
+  updateQuestion: (questionId: string, changes: Partial<Pick<QAItem, 'question' | 'answer'>>) => void;
+  deleteQuestion: (questionId: string) => void;
+  addSection: (section: PresentationSection) => void;
+  updateSection: (sectionId: string, changes: Partial<Omit<PresentationSection, 'id'>>) => void;
+  deleteSection: (sectionId: string) => void;
+  setPracticeSection: (sectionId: string | null) => void;
+  setSlideHidden: (slideId: string, isHidden: boolean) => void;
+  addPath: (path: PresentationPath) => void;
+  updatePath: (pathId: string, changes: Partial<Omit<PresentationPath, 'id'>>) => void;
+  deletePath: (pathId: string) => void;
+  selectPath: (pathId: string | null) => void;
   parseAndApplyBulkScript: (fullScript: string) => void;
-  setCurrentSlide: (index: number) => void;
+  updateFullScript: (fullScript: string) => void;
+  setCurrentSlide: (index: number, options?: { allowOffPath?: boolean }) => void;
+  jumpToSlide: (index: number) => void;
   nextSlide: () => void;
   previousSlide: () => void;
+  startSession: (mode: Session['mode']) => Promise<void>;
+  endSession: () => Promise<void>;
+  recordHeardWords: (words: string[]) => void;
+  attachSessionRecording: (sessionId: string, recordingId: string) => Promise<void>;
   setUploadStatus: (status: 'idle' | 'uploading' | 'converting' | 'complete' | 'error') => void;
   setUploadProgress: (progress: number) => void;
   setUploadError: (error: string | null) => void;
   clearPresentation: () => Promise<void>;
+  closePresentation: () => Promise<void>;
+  loadLibrary: () => Promise<void>;
+  openPresentation: (presentationId: string) => Promise<void>;
+  renamePresentation: (presentationId: string, title: string) => Promise<void>;
+  duplicatePresentation: (presentationId: string) => Promise<string | null>;
+  deletePresentation: (presentationId: string) => Promise<void>;
+  importPresentation: (file: File) => Promise<BundleImportResult>;
   loadImagesFromIndexedDB: () => Promise<void>;
   setTempUploadedScript: (script: string | null) => void;
   getTempUploadedScript: () => string | null;
@@ -46,21 +124,27 @@ export const usePresentationStore = create<PresentationState>()(
     (set, get) => ({
       // Initial state
       currentPresentation: null,
+      library: [],
       uploadStatus: 'idle',
       uploadProgress: 0,
       uploadError: null,
       currentSlideIndex: 0,
+      activeSession: null,
+      practiceSectionId: null,
+      detourFromIndex: null,
+      presenterWordsPerMinute: null,
+      keyBindings: null,
+      scriptHistoryLimitMb: DEFAULT_HISTORY_LIMIT_MB,
       lastEditLocation: null,
       tempUploadedScript: null,
       
-      // Create new presentation from uploaded PDF
-      createPresentation: async (title, slideImages) => {
+      // Create new presentation from uploaded PDF/PPTX (optionally with extracted text)
+      createPresentation: async (title, slideImages, slideContent = []) => {
         // Preserve any temp uploaded script before cleanup
         const tempScript = get().tempUploadedScript;
         
-        // Automatically clear any existing presentation first
-        await get().clearPresentation();
-        console.log('🧹 Auto-cleared existing presentation for fresh start');
+        // Close (and keep) any open presentation - it stays in the library
+        await get().closePresentation();
         
         // Restore the temp script if it existed
         if (tempScript) {
@@ -75,9 +159,10 @@ export const usePresentationStore = create<PresentationState>()(
           id: `slide-${timestamp}-${index}`,
           number: index + 1,
           imageUrl,
-          script: '',
-          notes: '',
-          keyPoints: []
+          script: slideContent[index]?.script || '',
+          notes: slideContent[index]?.notes || '',
+          keyPoints: [],
+          ...(slideContent[index]?.textContent && { textContent: slideContent[index].textContent })
         }));
         
         // Save images to IndexedDB asynchronously
@@ -93,37 +178,49 @@ export const usePresentationStore = create<PresentationState>()(
           // Continue anyway - images will work in current session
         }
         
+        const presentation: Presentation = {
+          id: presentationId,
+          title,
+          slides,
+          fullScript: composeFullScript(slides) || undefined,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        };
+        
         set({
-          currentPresentation: {
-            id: presentationId,
-            title,
-            slides,
-            createdAt: new Date(),
-            updatedAt: new Date()
-          },
+          currentPresentation: presentation,
           currentSlideIndex: 0,  // Always start at first slide
           uploadStatus: 'complete'
         });
+        
+        await flushLibrarySave(presentation);
+        await get().loadLibrary();
       },
       
       // Update script for a specific slide with bidirectional sync tracking
+      // Changes are added to the slide's revision history
       updateSlideScript: (slideId, script, source = 'setup') => {
-        const { currentPresentation } = get();
+        const { currentPresentation, lastEditLocation } = get();
         if (!currentPresentation) return;
         
+        const previousScript = currentPresentation.slides.find(slide => slide.id === slideId)?.script || '';
         const updatedSlides = currentPresentation.slides.map(slide =>
           slide.id === slideId ? { ...slide, script } : slide
         );
         
         set({
-          currentPresentation: {
+          currentPresentation: withFullScript({
             ...currentPresentation,
             slides: updatedSlides,
             updatedAt: new Date()
-          },
-          lastEditLocation: source
+          }),
+          lastEditLocation: source === 'setup' || source === 'practice' ? source : lastEditLocation
         });
         
+        if (script !== previousScript) {
+          scheduleScriptRevision(currentPresentation.id, slideId, previousScript, script, source);
+        }
+        
         console.log(`📝 Script updated from ${source} for slide ${slideId}`);
       },
       
@@ -165,6 +262,341 @@ export const usePresentationStore = create<PresentationState>()(
         });
       },
       
+      // Record memorization drill progress
+      updateSlideMastery: (slideId, mastery) => {
+        const { currentPresentation } = get();
+        if (!currentPresentation) return;
+        
+        const updatedSlides = currentPresentation.slides.map(slide =>
+          slide.id === slideId ? { ...slide, mastery } : slide
+        );
+        
+        set({
+          currentPresentation: {
+            ...currentPresentation,
+            slides: updatedSlides,
+            updatedAt: new Date()
+          }
+        });
+      },
+      
+      // Talk length and pinned slide budgets
+      setTimeBudget: (budget) => {
+        const { currentPresentation } = get();
+        if (!currentPresentation) return;
+        
+        set({
+          currentPresentation: {
+            ...currentPresentation,
+            timeBudget: budget,
+            updatedAt: new Date()
+          }
+        });
+      },
+      
+      setPresenterWordsPerMinute: (wordsPerMinute) => set({ presenterWordsPerMinute: wordsPerMinute }),
+      
+      setKeyBindings: (bindings) => set({ keyBindings: bindings }),
+      
+      setScriptHistoryLimit: (limitMb) => {
+        set({ scriptHistoryLimitMb: limitMb });
+        
+        const { currentPresentation } = get();
+        if (currentPresentation) {
+          pruneScriptHistory(currentPresentation.id, limitMb * BYTES_PER_MB);
+        }
+      },
+      
+      // Put back an earlier version of one slide script
+      restoreScriptRevision: async (revision) => {
+        const { currentPresentation } = get();
+        const slide = currentPresentation?.slides.find(candidate => candidate.id === revision.slideId);
+        if (!currentPresentation || !slide || currentPresentation.id !== revision.presentationId) return;
+        
+        const previousScript = slide.script || '';
+        set({
+          currentPresentation: withFullScript({
+            ...currentPresentation,
+            slides: currentPresentation.slides.map(candidate =>
+              candidate.id === slide.id ? { ...candidate, script: revision.script } : candidate
+            ),
+            updatedAt: new Date()
+          })
+        });
+        
+        flushScriptRevisions(currentPresentation.id);
+        await recordScriptRevisions(currentPresentation.id, [{ slideId: slide.id, previousScript, script: revision.script }], 'restore');
+      },
+      
+      // Put back every slide script from a snapshot - the current scripts are snapshotted first
+      restoreDeckSnapshot: (snapshot) => {
+        const { currentPresentation } = get();
+        if (!currentPresentation || currentPresentation.id !== snapshot.presentationId) return;
+        
+        // Snapshots of find and replace also carry notes and guides
+        const includesNotesAndGuides = !!snapshot.notes;
+        recordDeckSnapshot(currentPresentation, 'Before restoring a snapshot', includesNotesAndGuides);
+        
+        const changes: ScriptChange[] = [];
+        const updatedSlides = currentPresentation.slides.map(slide => {
+          let restored = slide;
+          if (includesNotesAndGuides && snapshot.notes?.[slide.id] !== undefined) {
+            restored = { ...restored, notes: snapshot.notes[slide.id] };
+          }
+          if (includesNotesAndGuides && snapshot.guides && slide.id in snapshot.guides) {
+            restored = { ...restored, guide: snapshot.guides[slide.id] ?? undefined };
+          }
+          
+          const script = snapshot.scripts[slide.id];
+          if (script === undefined || script === (slide.script || '')) return restored;
+          changes.push({ slideId: slide.id, previousScript: slide.script || '', script });
+          return { ...restored, script };
+        });
+        
+        set({
+          currentPresentation: withFullScript({
+            ...currentPresentation,
+            slides: updatedSlides,
+            updatedAt: new Date()
+          })
+        });
+        
+        recordScriptRevisions(currentPresentation.id, changes, 'restore');
+        console.log(`⏪ Restored ${changes.length} slide scripts from snapshot ${snapshot.id}`);
+      },
+      
+      // Snapshot every slide script before a component rewrites them slide by slide
+      takeDeckSnapshot: (reason) => {
+        const { currentPresentation } = get();
+        if (!currentPresentation) return;
+        recordDeckSnapshot(currentPresentation, reason);
+      },
+      
+      // Find and replace across scripts, notes and guides - one snapshot per replace
+      replaceInSlides: (search, replacement, target) => {
+        const { currentPresentation } = get();
+        const { pattern } = buildSearchPattern(search);
+        if (!currentPresentation || !pattern) return { replacedCount: 0, snapshot: null };
+        
+        const result = replaceInDeck(currentPresentation.slides, pattern, replacement, search, target);
+        if (result.replacedCount === 0) return { replacedCount: 0, snapshot: null };
+        
+        const snapshot = recordDeckSnapshot(
+          currentPresentation,
+          `Before replacing "${search.query}" with "${replacement}"`,
+          true
+        );
+        
+        const changes: ScriptChange[] = result.slides.flatMap((slide, index) => {
+          const previousScript = currentPresentation.slides[index].script || '';
+          return slide.script !== previousScript ? [{ slideId: slide.id, previousScript, script: slide.script }] : [];
+        });
+        
+        set({
+          currentPresentation: withFullScript({
+            ...currentPresentation,
+            slides: result.slides,
+            updatedAt: new Date()
+          })
+        });
+        
+        recordScriptRevisions(currentPresentation.id, changes, 'replace');
+        console.log(`🔁 Replaced ${result.replacedCount} matches of "${search.query}"`);
+        return { replacedCount: result.replacedCount, snapshot };
+      },
+      
+      // Q&A bank - on a slide when slideId is given, deck-wide otherwise
+      addQuestions: (questions, slideId) => {
+        const { currentPresentation } = get();
+        if (!currentPresentation || questions.length === 0) return;
+        
+        if (slideId) {
+          set({
+            currentPresentation: {
+              ...currentPresentation,
+              slides: currentPresentation.slides.map(slide =>
+                slide.id === slideId ? { ...slide, questions: mergeQuestions(slide.questions, questions) } : slide
+              ),
+              updatedAt: new Date()
+            }
+          });
+        } else {
+          set({
+            currentPresentation: {
+              ...currentPresentation,
+              questions: mergeQuestions(currentPresentation.questions, questions),
+              updatedAt: new Date()
+            }
+          });
+        }
+      },
+      
+      updateQuestion: (questionId, changes) => {
+        const { currentPresentation } = get();
+        if (!currentPresentation) return;
+        
+        const update = (questions?: QAItem[]) =>
+          questions?.map(item => item.id === questionId ? { ...item, ...changes } : item);
+        
+        set({
+          currentPresentation: {
+            ...currentPresentation,
+            questions: update(currentPresentation.questions),
+            slides: currentPresentation.slides.map(slide =>
+              slide.questions?.some(item => item.id === questionId)
+                ? { ...slide, questions: update(slide.questions) }
+                : slide
+            ),
+            updatedAt: new Date()
+          }
+        });
+      },
+      
+      deleteQuestion: (questionId) => {
+        const { currentPresentation } = get();
+        if (!currentPresentation) return;
+        
+        const remove = (questions?: QAItem[]) => questions?.filter(item => item.id !== questionId);
+        
+        set({
+          currentPresentation: {
+            ...currentPresentation,
+            questions: remove(currentPresentation.questions),
+            slides: currentPresentation.slides.map(slide =>
+              slide.questions?.some(item => item.id === questionId)
+                ? { ...slide, questions: remove(slide.questions) }
+                : slide
+            ),
+            updatedAt: new Date()
+          }
+        });
+      },
+      
+      // Named slide ranges
+      addSection: (section) => {
+        const { currentPresentation } = get();
+        if (!currentPresentation) return;
+        
+        set({
+          currentPresentation: {
+            ...currentPresentation,
+            sections: [...(currentPresentation.sections || []), section],
+            updatedAt: new Date()
+          }
+        });
+      },
+      
+      updateSection: (sectionId, changes) => {
+        const { currentPresentation } = get();
+        if (!currentPresentation) return;
+        
+        set({
+          currentPresentation: {
+            ...currentPresentation,
+            sections: currentPresentation.sections?.map(section =>
+              section.id === sectionId ? { ...section, ...changes } : section
+            ),
+            updatedAt: new Date()
+          }
+        });
+      },
+      
+      deleteSection: (sectionId) => {
+        const { currentPresentation, practiceSectionId } = get();
+        if (!currentPresentation) return;
+        
+        set({
+          currentPresentation: {
+            ...currentPresentation,
+            sections: currentPresentation.sections?.filter(section => section.id !== sectionId),
+            updatedAt: new Date()
+          },
+          practiceSectionId: practiceSectionId === sectionId ? null : practiceSectionId
+        });
+      },
+      
+      // Limit navigation to a section, starting on its first slide
+      setPracticeSection: (sectionId) => {
+        set({ practiceSectionId: sectionId });
+        
+        const navigable = getNavigation(get());
+        if (sectionId && navigable) {
+          get().setCurrentSlide(navigable[0]);
+        }
+      },
+      
+      // Hidden slides are backups - skipped unless a path includes them
+      setSlideHidden: (slideId, isHidden) => {
+        const { currentPresentation } = get();
+        if (!currentPresentation) return;
+        
+        set({
+          currentPresentation: {
+            ...currentPresentation,
+            slides: currentPresentation.slides.map(slide =>
+              slide.id === slideId ? { ...slide, isHidden } : slide
+            ),
+            updatedAt: new Date()
+          }
+        });
+      },
+      
+      // Alternate versions of the talk
+      addPath: (path) => {
+        const { currentPresentation } = get();
+        if (!currentPresentation) return;
+        
+        set({
+          currentPresentation: {
+            ...currentPresentation,
+            paths: [...(currentPresentation.paths || []), path],
+            updatedAt: new Date()
+          }
+        });
+      },
+      
+      updatePath: (pathId, changes) => {
+        const { currentPresentation } = get();
+        if (!currentPresentation) return;
+        
+        set({
+          currentPresentation: {
+            ...currentPresentation,
+            paths: currentPresentation.paths?.map(path =>
+              path.id === pathId ? { ...path, ...changes } : path
+            ),
+            updatedAt: new Date()
+          }
+        });
+      },
+      
+      deletePath: (pathId) => {
+        const { currentPresentation } = get();
+        if (!currentPresentation) return;
+        
+        set({
+          currentPresentation: {
+            ...currentPresentation,
+            paths: currentPresentation.paths?.filter(path => path.id !== pathId),
+            selectedPathId: currentPresentation.selectedPathId === pathId ? undefined : currentPresentation.selectedPathId,
+            updatedAt: new Date()
+          }
+        });
+      },
+      
+      selectPath: (pathId) => {
+        const { currentPresentation } = get();
+        if (!currentPresentation) return;
+        
+        set({
+          currentPresentation: {
+            ...currentPresentation,
+            selectedPathId: pathId ?? undefined,
+            updatedAt: new Date()
+          }
+        });
+      },
+      
       // Parse full script and apply to all slides
       parseAndApplyBulkScript: (fullScript) => {
         const { currentPresentation } = get();
@@ -174,12 +606,15 @@ export const usePresentationStore = create<PresentationState>()(
         }
         
         console.log('📝 Splitting script across', currentPresentation.slides.length, 'slides');
+        recordDeckSnapshot(currentPresentation, 'Before splitting the full script');
         
-        // Use ScriptSplitter to evenly distribute the script
-        const splitScripts = ScriptSplitter.splitScriptEvenly(
-          fullScript, 
-          currentPresentation.slides.length
-        );
+        // Explicit [[slide N]] markers win; then slide wording; then split by structure
+        const splitScripts = splitFullScript(fullScript, currentPresentation.slides.length)?.scripts
+          ?? ScriptSplitter.splitScriptEvenly(
+              fullScript, 
+              currentPresentation.slides.length,
+              currentPresentation.slides.map(slide => slide.textContent)
+            );
         
         // Update each slide with its allocated portion
         const updatedSlides = currentPresentation.slides.map((slide, index) => ({
@@ -187,39 +622,249 @@ export const usePresentationStore = create<PresentationState>()(
           script: splitScripts[index] || ''
         }));
         
+        // The full script now follows the slides, marked up by slide
         set({
-          currentPresentation: {
+          currentPresentation: withFullScript({
             ...currentPresentation,
             slides: updatedSlides,
-            fullScript, // Keep the original for reallocation
             updatedAt: new Date()
-          }
+          })
         });
         
+        recordScriptRevisions(
+          currentPresentation.id,
+          currentPresentation.slides.map((slide, index) => ({
+            slideId: slide.id,
+            previousScript: slide.script || '',
+            script: updatedSlides[index].script
+          })),
+          'bulk-split'
+        );
+        
         console.log('✅ Script split complete:', splitScripts.map(s => s.split(' ').length + ' words'));
       },
       
-      // Navigation actions
-      setCurrentSlide: (index) => {
+      // Edit the whole script at once - each [[slide N]] section replaces that slide's script
+      updateFullScript: (fullScript) => {
         const { currentPresentation } = get();
         if (!currentPresentation) return;
         
-        const maxIndex = currentPresentation.slides.length - 1;
-        const safeIndex = Math.max(0, Math.min(index, maxIndex));
+        // Without markers the text is a new script to split
+        const split = splitFullScript(fullScript, currentPresentation.slides.length);
+        if (!split) {
+          get().parseAndApplyBulkScript(fullScript);
+          return;
+        }
+        
+        const changes: ScriptChange[] = [];
+        const updatedSlides = currentPresentation.slides.map((slide, index) => {
+          const script = split.scripts[index] ?? '';
+          if (script.trim() === (slide.script || '').trim()) return slide;
+          changes.push({ slideId: slide.id, previousScript: slide.script || '', script });
+          return { ...slide, script };
+        });
+        if (changes.length === 0) return;
+        
+        recordDeckSnapshot(currentPresentation, 'Before editing the full script');
+        
+        set({
+          currentPresentation: withFullScript({
+            ...currentPresentation,
+            slides: updatedSlides,
+            updatedAt: new Date()
+          }),
+          lastEditLocation: 'setup'
+        });
+        
+        recordScriptRevisions(currentPresentation.id, changes, 'setup');
+        console.log(`📝 Full script applied to ${changes.length} slides`);
+      },
+      
+      // Navigation actions
+      // Rehearsals and delivery stay on the path (and section) unless allowOffPath
+      setCurrentSlide: (index, { allowOffPath = false } = {}) => {
+        const { currentPresentation, currentSlideIndex, activeSession } = get();
+        if (!currentPresentation) return;
+        
+        const navigable = allowOffPath ? null : getNavigation(get());
+        const safeIndex = navigable
+          ? snapToSequence(navigable, index)
+          : Math.max(0, Math.min(index, currentPresentation.slides.length - 1));
         set({ currentSlideIndex: safeIndex });
+        if (!allowOffPath) {
+          set({ detourFromIndex: null });
+        }
+        
+        // Log the slide change on the running session
+        if (activeSession && safeIndex !== currentSlideIndex) {
+          const updatedSession: Session = {
+            ...activeSession,
+            slideVisits: [
+              ...activeSession.slideVisits,
+              {
+                slideId: currentPresentation.slides[safeIndex].id,
+                slideIndex: safeIndex,
+                enteredAt: new Date()
+              }
+            ]
+          };
+          set({ activeSession: updatedSession });
+          saveSession(updatedSession).catch(() => {
+            // Already logged - the session stays in memory and is saved again on end
+          });
+        }
+      },
+      
+      // Show a slide off the path (a backup) - next/previous then return
+      jumpToSlide: (index) => {
+        const { currentSlideIndex, detourFromIndex, setCurrentSlide } = get();
+        const navigable = getNavigation(get());
+        
+        if (!navigable || navigable.includes(index)) {
+          setCurrentSlide(index);
+          return;
+        }
+        
+        set({ detourFromIndex: detourFromIndex ?? currentSlideIndex });
+        setCurrentSlide(index, { allowOffPath: true });
       },
       
       nextSlide: () => {
-        const { currentSlideIndex, currentPresentation, setCurrentSlide } = get();
-        if (currentPresentation && currentSlideIndex < currentPresentation.slides.length - 1) {
-          setCurrentSlide(currentSlideIndex + 1);
+        const { currentSlideIndex, currentPresentation, detourFromIndex, setCurrentSlide } = get();
+        if (!currentPresentation) return;
+        
+        if (detourFromIndex !== null) {
+          setCurrentSlide(detourFromIndex);
+          return;
+        }
+        
+        const navigable = getNavigation(get());
+        const nextIndex = navigable ? stepInSequence(navigable, currentSlideIndex, 1) : currentSlideIndex + 1;
+        if (nextIndex !== undefined && nextIndex < currentPresentation.slides.length) {
+          setCurrentSlide(nextIndex);
         }
       },
       
       previousSlide: () => {
-        const { currentSlideIndex, setCurrentSlide } = get();
-        if (currentSlideIndex > 0) {
-          setCurrentSlide(currentSlideIndex - 1);
+        const { currentSlideIndex, detourFromIndex, setCurrentSlide } = get();
+        
+        if (detourFromIndex !== null) {
+          setCurrentSlide(detourFromIndex);
+          return;
+        }
+        
+        const navigable = getNavigation(get());
+        const previousIndex = navigable ? stepInSequence(navigable, currentSlideIndex, -1) : currentSlideIndex - 1;
+        if (previousIndex !== undefined && previousIndex >= 0) {
+          setCurrentSlide(previousIndex);
+        }
+      },
+      
+      // Rehearsal session tracking
+      startSession: async (mode) => {
+        if (get().activeSession) {
+          await get().endSession();
+        }
+        
+        const { currentPresentation, currentSlideIndex, presenterWordsPerMinute, practiceSectionId } = get();
+        if (!currentPresentation) return;
+        
+        // Runs follow the selected path - targets only cover its slides,
+        // and only the section's on section runs
+        const section = currentPresentation.sections?.find(candidate => candidate.id === practiceSectionId);
+        const range = getPracticeRange(get());
+        const path = getSelectedPath(currentPresentation);
+        const slideTargets = computePathTargets(currentPresentation, presenterWordsPerMinute ?? undefined);
+        if (range) {
+          currentPresentation.slides.forEach((slide, index) => {
+            if (index < range.startIndex || index > range.endIndex) delete slideTargets[slide.id];
+          });
+        }
+        
+        // Start on the path
+        const navigable = getNavigableSlides(currentPresentation, { followPath: true, sectionId: practiceSectionId });
+        const startIndex = navigable ? snapToSequence(navigable, currentSlideIndex) : currentSlideIndex;
+        set({ currentSlideIndex: startIndex, detourFromIndex: null });
+        
+        const startedAt = new Date();
+        const session: Session = {
+          id: `session-${startedAt.getTime()}`,
+          presentationId: currentPresentation.id,
+          mode,
+          startedAt,
+          slideVisits: [{
+            slideId: currentPresentation.slides[startIndex]?.id ?? '',
+            slideIndex: startIndex,
+            enteredAt: startedAt
+          }],
+          slideTargets,
+          section: section && range ? { id: section.id, name: section.name, ...range } : undefined,
+          path: path ? { id: path.id, name: path.name, slideIds: path.slideIds } : undefined
+        };
+        
+        // Saved with its first slide change or when it ends with any activity
+        set({ activeSession: session });
+        console.log(`🎬 Started ${mode} session ${session.id}`);
+      },
+      
+      endSession: async () => {
+        const { activeSession, currentPresentation } = get();
+        if (!activeSession) return;
+        
+        const endedAt = new Date();
+        const finishedSession: Session = { ...activeSession, endedAt };
+        const delivery = currentPresentation && analyzeDelivery(finishedSession, currentPresentation.slides, endedAt);
+        if (delivery) {
+          finishedSession.delivery = delivery;
+        }
+        set({ activeSession: null });
+        
+        if (!hasSessionActivity(finishedSession)) {
+          unsavedEmptySession = finishedSession;
+          console.log(`🗑️ Dropped session ${finishedSession.id} - nothing happened in it`);
+          return;
+        }
+        
+        try {
+          await saveSession(finishedSession);
+          console.log(`🏁 Ended session ${finishedSession.id} with ${finishedSession.slideVisits.length} slide visits`);
+        } catch (error) {
+          console.error('❌ Failed to save finished session:', error);
+        }
+      },
+      
+      // Keep recognised speech on the running session - saved with the next slide change or on end
+      recordHeardWords: (words) => {
+        const { activeSession, currentPresentation, currentSlideIndex } = get();
+        if (!activeSession || !currentPresentation || words.length === 0) return;
+        
+        const slide = currentPresentation.slides[currentSlideIndex];
+        const offsetMs = Date.now() - new Date(activeSession.startedAt).getTime();
+        set({
+          activeSession: {
+            ...activeSession,
+            transcript: [
+              ...(activeSession.transcript || []),
+              ...words.map(text => ({ text, offsetMs, slideId: slide?.id ?? '', slideIndex: currentSlideIndex }))
+            ]
+          }
+        });
+      },
+      
+      // Link saved audio to its session - the session may have ended while the audio was saving
+      attachSessionRecording: async (sessionId, recordingId) => {
+        const { activeSession } = get();
+        
+        if (activeSession?.id === sessionId) {
+          const updatedSession: Session = { ...activeSession, recordingUrl: recordingId };
+          set({ activeSession: updatedSession });
+          await saveSession(updatedSession);
+        } else if (unsavedEmptySession?.id === sessionId) {
+          // Its recording is what makes the dropped session worth keeping
+          await saveSession({ ...unsavedEmptySession, recordingUrl: recordingId });
+          unsavedEmptySession = null;
+        } else {
+          await updateSessionRecording(sessionId, recordingId);
         }
       },
       
@@ -228,20 +873,28 @@ export const usePresentationStore = create<PresentationState>()(
       setUploadProgress: (progress) => set({ uploadProgress: progress }),
       setUploadError: (error) => set({ uploadError: error }),
       
-      // Clear everything
+      // Permanently delete the open presentation and reset state
       clearPresentation: async () => {
         const { currentPresentation } = get();
         
         console.log('🧹 Starting fresh presentation cleanup...');
         
-        // Delete images from IndexedDB when clearing presentation
         if (currentPresentation?.id) {
-          try {
-            await deletePresentationImages(currentPresentation.id);
-            console.log(`🗑️ Deleted images for presentation: ${currentPresentation.id}`);
-          } catch (error) {
-            console.error('❌ Failed to delete presentation images:', error);
-          }
+          await get().deletePresentation(currentPresentation.id);
+        }
+        
+        await get().closePresentation();
+        console.log('✅ Fresh presentation cleanup complete');
+      },
+      
+      // Unload the open presentation, keeping it in the library
+      closePresentation: async () => {
+        const { currentPresentation } = get();
+        
+        await get().endSession();
+        
+        if (currentPresentation) {
+          await flushLibrarySave(currentPresentation);
         }
         
         // Clear any temporary uploaded script as well
@@ -254,11 +907,171 @@ export const usePresentationStore = create<PresentationState>()(
           uploadProgress: 0,
           uploadError: null,
           currentSlideIndex: 0,
+          practiceSectionId: null,
+          detourFromIndex: null,
           lastEditLocation: undefined,
           tempUploadedScript: null
         });
         
-        console.log('✅ Fresh presentation cleanup complete');
+        await get().loadLibrary();
+      },
+      
+      // Refresh the library list from IndexedDB
+      loadLibrary: async () => {
+        const { currentPresentation } = get();
+        let library = await listPresentations();
+        
+        // Migrate a presentation persisted before the library existed
+        if (currentPresentation && !library.some(entry => entry.id === currentPresentation.id)) {
+          await flushLibrarySave(currentPresentation);
+          library = await listPresentations();
+        }
+        
+        set({ library });
+      },
+      
+      // Open a stored presentation, restoring its images
+      openPresentation: async (presentationId) => {
+        const { currentPresentation } = get();
+        if (currentPresentation?.id === presentationId) return;
+        
+        await get().endSession();
+        
+        if (currentPresentation) {
+          await flushLibrarySave(currentPresentation);
+        }
+        
+        const record = await loadPresentationRecord(presentationId);
+        if (!record) {
+          console.error(`❌ Presentation not found in library: ${presentationId}`);
+          await get().loadLibrary();
+          return;
+        }
+        
+        const imageMap = await loadPresentationImages(presentationId);
+        
+        set({
+          currentPresentation: withFullScript({
+            ...record,
+            slides: record.slides.map(slide => ({
+              ...slide,
+              imageUrl: imageMap[slide.id] || ''
+            }))
+          }),
+          currentSlideIndex: 0,
+          detourFromIndex: null,
+          uploadStatus: 'complete',
+          uploadError: null,
+          lastEditLocation: null,
+          tempUploadedScript: null
+        });
+        
+        console.log(`📂 Opened presentation: ${record.title}`);
+        await get().loadLibrary();
+      },
+      
+      // Rename a presentation, whether open or not
+      renamePresentation: async (presentationId, title) => {
+        const trimmedTitle = title.trim();
+        if (!trimmedTitle) return;
+        
+        const { currentPresentation } = get();
+        
+        if (currentPresentation?.id === presentationId) {
+          const renamed = { ...currentPresentation, title: trimmedTitle, updatedAt: new Date() };
+          set({ currentPresentation: renamed });
+          await flushLibrarySave(renamed);
+        } else {
+          const record = await loadPresentationRecord(presentationId);
+          if (!record) return;
+          await savePresentationRecord({ ...record, title: trimmedTitle, updatedAt: new Date() });
+        }
+        
+        await get().loadLibrary();
+      },
+      
+      // Copy a presentation (scripts, guides and images) under a new ID
+      duplicatePresentation: async (presentationId) => {
+        const { currentPresentation } = get();
+        
+        if (currentPresentation?.id === presentationId) {
+          await flushLibrarySave(currentPresentation);
+        }
+        
+        const record = await loadPresentationRecord(presentationId);
+        if (!record) return null;
+        
+        const timestamp = Date.now();
+        const newPresentationId = `pres-${timestamp}`;
+        const slideIdMap: Record<string, string> = {};
+        
+        const slides = record.slides.map((slide, index) => {
+          const newSlideId = `slide-${timestamp}-${index}`;
+          slideIdMap[slide.id] = newSlideId;
+          return { ...slide, id: newSlideId };
+        });
+        
+        try {
+          await copyPresentationImages(presentationId, newPresentationId, slideIdMap);
+        } catch (error) {
+          console.error('❌ Failed to copy images for duplicate:', error);
+          // Continue anyway - the copy keeps its scripts and guides
+        }
+        
+        await savePresentationRecord({
+          ...record,
+          id: newPresentationId,
+          title: `${record.title} (copy)`,
+          slides,
+          timeBudget: remapTimeBudget(record.timeBudget, slideIdMap),
+          sections: remapSections(record.sections, slideIdMap),
+          paths: remapPaths(record.paths, slideIdMap),
+          createdAt: new Date(),
+          updatedAt: new Date()
+        });
+        
+        console.log(`📋 Duplicated presentation ${presentationId} → ${newPresentationId}`);
+        await get().loadLibrary();
+        return newPresentationId;
+      },
+      
+      // Import a bundle file into the library and open it
+      importPresentation: async (file) => {
+        const result = await importPresentationBundle(file);
+        await get().openPresentation(result.presentation.id);
+        return result;
+      },
+      
+      // Permanently delete a presentation and its images
+      deletePresentation: async (presentationId) => {
+        cancelLibrarySave(presentationId);
+        cancelScriptRevisions(presentationId);
+        
+        try {
+          await deletePresentationImages(presentationId);
+          await deletePresentationRecordings(presentationId);
+          await deletePresentationSessions(presentationId);
+          await deletePresentationFlashcards(presentationId);
+          await deletePresentationScriptHistory(presentationId);
+          await deletePresentationRecord(presentationId);
+        } catch (error) {
+          console.error('❌ Failed to delete presentation:', error);
+        }
+        
+        if (get().currentPresentation?.id === presentationId) {
+          set({
+            currentPresentation: null,
+            uploadStatus: 'idle',
+            uploadProgress: 0,
+            uploadError: null,
+            currentSlideIndex: 0,
+            practiceSectionId: null,
+            detourFromIndex: null,
+            lastEditLocation: null
+          });
+        }
+        
+        await get().loadLibrary();
       },
       
       // Load images from IndexedDB for current presentation
@@ -304,8 +1117,251 @@ export const usePresentationStore = create<PresentationState>()(
             imageUrl: '' // Exclude images from localStorage - they're in IndexedDB
           }))
         } : null,
-        currentSlideIndex: state.currentSlideIndex
+        currentSlideIndex: state.currentSlideIndex,
+        presenterWordsPerMinute: state.presenterWordsPerMinute,
+        keyBindings: state.keyBindings,
+        scriptHistoryLimitMb: state.scriptHistoryLimitMb
       })
     }
   )
 );
+
+
+// ========================================
+// Practice sections
+// ========================================
+
+/**
+ * Slide range navigation is limited to while a section is practised
+ * @returns null for the whole deck (or when the section's slides are gone)
+ */
+function getPracticeRange(state: Pick<PresentationState, 'currentPresentation' | 'practiceSectionId'>): SlideRange | null {
+  const { currentPresentation, practiceSectionId } = state;
+  const section = practiceSectionId ? currentPresentation?.sections?.find(candidate => candidate.id === practiceSectionId) : undefined;
+  return currentPresentation && section ? getSectionRange(currentPresentation.slides, section) : null;
+}
+
+/**
+ * Slides next/previous can land on - the selected path while a session
+ * runs, limited to the practised section
+ * @returns null when every slide is reachable in deck order (setup)
+ */
+function getNavigation(state: Pick<PresentationState, 'currentPresentation' | 'practiceSectionId' | 'activeSession'>): number[] | null {
+  const { currentPresentation, practiceSectionId, activeSession } = state;
+  if (!currentPresentation || currentPresentation.slides.length === 0) return null;
+  return getNavigableSlides(currentPresentation, { followPath: !!activeSession, sectionId: practiceSectionId });
+}
+
+/**
+ * Presentation with its full script rebuilt from the slide scripts
+ */
+function withFullScript(presentation: Presentation): Presentation {
+  return { ...presentation, fullScript: composeFullScript(presentation.slides) || undefined };
+}
+
+// ========================================
+// Script history
+// ========================================
+
+const BYTES_PER_MB = 1024 * 1024;
+const REVISION_DELAY = 3000;  // Edits closer together than this make one revision
+
+interface ScriptChange {
+  slideId: string;
+  previousScript: string;
+  script: string;
+}
+
+interface PendingRevision extends ScriptChange {
+  presentationId: string;
+  source: ScriptRevisionSource;
+  changedAt: Date;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const pendingRevisions = new Map<string, PendingRevision>();
+
+/**
+ * Queue a slide script change for its revision log
+ * Keystroke-by-keystroke saves are collected into one revision per pause
+ */
+function scheduleScriptRevision(
+  presentationId: string,
+  slideId: string,
+  previousScript: string,
+  script: string,
+  source: ScriptRevisionSource
+) {
+  const key = `${presentationId}/${slideId}`;
+  const pending = pendingRevisions.get(key);
+  if (pending) {
+    clearTimeout(pending.timer);
+    pendingRevisions.delete(key);
+    if (pending.source !== source) writePendingRevision(pending);
+  }
+  
+  const revision: PendingRevision = {
+    presentationId,
+    slideId,
+    previousScript: pending && pending.source === source ? pending.previousScript : previousScript,
+    script,
+    source,
+    changedAt: new Date(),
+    timer: setTimeout(() => {
+      pendingRevisions.delete(key);
+      writePendingRevision(revision);
+    }, REVISION_DELAY)
+  };
+  pendingRevisions.set(key, revision);
+}
+
+function writePendingRevision(pending: PendingRevision) {
+  recordScriptRevisions(pending.presentationId, [pending], pending.source, pending.changedAt);
+}
+
+/**
+ * Write queued revisions of a presentation now
+ */
+function flushScriptRevisions(presentationId: string) {
+  pendingRevisions.forEach((pending, key) => {
+    if (pending.presentationId !== presentationId) return;
+    clearTimeout(pending.timer);
+    pendingRevisions.delete(key);
+    writePendingRevision(pending);
+  });
+}
+
+/**
+ * Drop queued revisions (e.g. when the presentation is being deleted)
+ */
+function cancelScriptRevisions(presentationId: string) {
+  pendingRevisions.forEach((pending, key) => {
+    if (pending.presentationId !== presentationId) return;
+    clearTimeout(pending.timer);
+    pendingRevisions.delete(key);
+  });
+}
+
+/**
+ * Append script changes to their slides' revision logs
+ * A slide's first revision is preceded by the script it replaced, so the
+ * original is never lost; changes matching the latest revision are skipped
+ */
+async function recordScriptRevisions(
+  presentationId: string,
+  changes: ScriptChange[],
+  source: ScriptRevisionSource,
+  createdAt: Date = new Date()
+) {
+  try {
+    const revisions: ScriptRevision[] = [];
+    
+    for (const change of changes) {
+      if (change.script === change.previousScript) continue;
+      
+      const [latest] = await loadSlideRevisions(presentationId, change.slideId);
+      if (latest?.script === change.script) continue;
+      
+      if (!latest && change.previousScript.trim()) {
+        revisions.push(createScriptRevision(
+          presentationId,
+          change.slideId,
+          change.previousScript,
+          'original',
+          new Date(createdAt.getTime() - 1)
+        ));
+      }
+      revisions.push(createScriptRevision(presentationId, change.slideId, change.script, source, createdAt));
+    }
+    
+    if (revisions.length === 0) return;
+    await saveScriptRevisions(revisions);
+    await pruneScriptHistory(presentationId, usePresentationStore.getState().scriptHistoryLimitMb * BYTES_PER_MB);
+  } catch (error) {
+    console.error('❌ Failed to record script history:', error);
+  }
+}
+
+/**
+ * Snapshot every slide script before a bulk operation
+ * Queued revisions are written first so the history stays in order
+ * @returns The snapshot, saved in the background
+ */
+function recordDeckSnapshot(presentation: Presentation, reason: string, includeNotesAndGuides = false): DeckSnapshot {
+  flushScriptRevisions(presentation.id);
+  
+  const snapshot = createDeckSnapshot(presentation, reason, includeNotesAndGuides);
+  saveDeckSnapshot(snapshot)
+    .then(() => pruneScriptHistory(presentation.id, usePresentationStore.getState().scriptHistoryLimitMb * BYTES_PER_MB))
+    .catch(() => {
+      // Already logged - the bulk operation goes ahead without a snapshot
+    });
+  return snapshot;
+}
+
+// ========================================
+// Rehearsal sessions
+// ========================================
+
+// Last session dropped on end - its recording may still be saving
+let unsavedEmptySession: Session | null = null;
+
+/**
+ * Whether anything happened in a session - a slide change, heard words or a recording
+ * Sessions without any are not saved, so opening a view leaves no rehearsal behind
+ */
+function hasSessionActivity(session: Session): boolean {
+  return session.slideVisits.length > 1 || (session.transcript?.length ?? 0) > 0 || !!session.recordingUrl;
+}
+
+// ========================================
+// Library persistence
+// ========================================
+
+const LIBRARY_SAVE_DELAY = 1000;
+let pendingLibrarySave: { presentation: Presentation; timer: ReturnType<typeof setTimeout> } | null = null;
+
+/**
+ * Drop a scheduled library save (e.g. when the presentation is being deleted)
+ */
+function cancelLibrarySave(presentationId: string) {
+  if (pendingLibrarySave?.presentation.id === presentationId) {
+    clearTimeout(pendingLibrarySave.timer);
+    pendingLibrarySave = null;
+  }
+}
+
+/**
+ * Save a presentation to the library right away, replacing any scheduled save
+ */
+async function flushLibrarySave(presentation: Presentation) {
+  cancelLibrarySave(presentation.id);
+  
+  try {
+    await savePresentationRecord(presentation);
+  } catch (error) {
+    console.error('❌ Failed to save presentation to library:', error);
+  }
+}
+
+// Keep the library copy of the open presentation in sync with every edit
+usePresentationStore.subscribe((state, prevState) => {
+  const { currentPresentation } = state;
+  if (!currentPresentation || currentPresentation === prevState.currentPresentation) return;
+  
+  // A different presentation still waiting to be saved is written immediately
+  if (pendingLibrarySave && pendingLibrarySave.presentation.id !== currentPresentation.id) {
+    flushLibrarySave(pendingLibrarySave.presentation);
+  }
+  
+  cancelLibrarySave(currentPresentation.id);
+  pendingLibrarySave = {
+    presentation: currentPresentation,
+    timer: setTimeout(() => {
+      pendingLibrarySave = null;
+      savePresentationRecord(currentPresentation).catch(error => {
+        console.error('❌ Background library save failed:', error);
+      });
+    }, LIBRARY_SAVE_DELAY)
+  };
+});
@@ -5,10 +5,34 @@ export interface Presentation {
   title: string;
   slides: Slide[];
   fullScript?: string;
+  timeBudget?: TalkTimeBudget;
+  questions?: QAItem[];            // Deck-wide Q&A bank - slide questions live on the slides
+  sections?: PresentationSection[];
+  paths?: PresentationPath[];      // Alternate versions of the talk (e.g. 10 and 30 minutes)
+  selectedPathId?: string;         // Path practice, delivery and export follow - visible slides when unset
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface PresentationSection {
+  id: string;
+  name: string;
+  startSlideId: string;   // First slide of the range
+  endSlideId: string;     // Last slide of the range, inclusive
+}
+
+export interface PresentationPath {
+  id: string;
+  name: string;
+  slideIds: string[];      // Slides in the order they are presented
+  totalSeconds?: number;   // Talk length for this version - the deck's budget when unset
+}
+
+export interface TalkTimeBudget {
+  totalSeconds: number;                   // Planned length of the whole talk
+  pinnedSeconds: Record<string, number>;  // Fixed budgets by slide ID - the rest is rebalanced
+}
+
 export interface Slide {
   id: string;
   number: number;
@@ -18,6 +42,46 @@ export interface Slide {
   notes: string;
   keyPoints: string[];
   guide?: ContentGuide;
+  textContent?: SlideTextContent;  // Text printed on the slide itself (for offline matching)
+  mastery?: SlideMastery;          // Memorization drill progress
+  questions?: QAItem[];            // Audience questions about this slide, with prepared answers
+  isHidden?: boolean;              // Backup slide - skipped unless a path includes it
+}
+
+export interface QAItem {
+  id: string;
+  question: string;
+  answer: string;                  // Prepared answer ('' until written)
+  source: "ai" | "concept" | "manual";  // AI coaching, key concept template, or added by hand
+  createdAt: Date;
+}
+
+export interface SlideMastery {
+  level: number;        // Drill stage reached - more of the script is hidden at each level
+  passes: number;       // Self-graded drill passes
+  lastDrilledAt: Date;
+}
+
+export interface SlideTextContent {
+  title: string | null;  // Title placeholder or most prominent text
+  headings: string[];    // Title-like runs (titles, subtitles, large text)
+  text: string;          // All visible text, one paragraph per line
+}
+
+/**
+ * Per-slide content extracted by an importer (PPTX notes, PDF text layer)
+ * Passed to createPresentation alongside the slide images
+ */
+export interface ImportedSlideContent {
+  script?: string;
+  notes?: string;
+  textContent?: SlideTextContent;
+}
+
+export interface SlideVisit {
+  slideId: string;
+  slideIndex: number;
+  enteredAt: Date;
 }
 
 export interface Session {
@@ -26,5 +90,156 @@ export interface Session {
   mode: "practice" | "delivery";
   startedAt: Date;
   endedAt?: Date;
-  recordingUrl?: string;
+  recordingUrl?: string;      // ID of the SessionRecording holding the audio in IndexedDB
+  slideVisits: SlideVisit[];  // One entry per slide change, in order
+  slideTargets?: Record<string, number>; // Target seconds per slide ID when the session started
+  transcript?: TranscriptWord[];  // Words recognised during the session, in order
+  delivery?: DeliveryAnalysis;    // Filler and pacing analysis of the transcript, added when the session ends
+  section?: SessionSection;       // Slide range the run was limited to - whole deck when absent
+  path?: SessionPath;             // Path the run followed - visible slides in deck order when absent
+}
+
+export interface SessionPath {
+  id: string;
+  name: string;
+  slideIds: string[];  // Path order when the session started
+}
+
+export interface SessionSection {
+  id: string;
+  name: string;
+  startIndex: number;  // Slide indexes when the session started, inclusive
+  endIndex: number;
+}
+
+export interface TranscriptWord {
+  text: string;
+  offsetMs: number;           // Time into the session the word was heard
+  slideId: string;            // Slide shown when it was heard
+  slideIndex: number;
+}
+
+export interface SlidePacing {
+  slideId: string;
+  slideIndex: number;
+  wordCount: number;
+  fillerCount: number;
+  wordsPerMinute: number;     // Over the time spent on the slide
+}
+
+export interface TranscriptSilence {
+  offsetMs: number;           // Time into the session the silence started
+  durationMs: number;
+  slideIndex: number;
+}
+
+export interface DeliveryAnalysis {
+  wordCount: number;
+  wordsPerMinute: number;     // Over the speaking part of the session
+  fillerCount: number;
+  fillersPerMinute: number;
+  fillerCounts: Record<string, number>;  // By filler ("um", "you know", ...)
+  silences: TranscriptSilence[];
+  repeatedPhrases: { phrase: string; count: number }[];  // Back-to-back repeats ("the the", "we need to we need to")
+  slides: SlidePacing[];      // Slides something was said on, in order
+}
+
+export interface SlideMarker {
+  slideId: string;
+  slideIndex: number;
+  offsetMs: number;           // Time into the recording the slide was shown
+}
+
+export interface SessionRecording {
+  id: string;
+  sessionId: string;
+  presentationId: string;
+  audio: Blob;
+  mimeType: string;
+  startedAt: Date;
+  durationMs: number;
+  slideMarkers: SlideMarker[]; // Slide shown at the start, then every change, in order
+}
+
+export interface SlideCoverageScore {
+  slideId: string;
+  slideIndex: number;
+  score: number;               // 0-100, script coverage and guide points combined
+  scriptCoverage: number;      // Share of the script's content words that were said (0-1)
+  phraseOverlap: number;       // Share of the script's word pairs said in the same order (0-1)
+  isDrifting: boolean;         // Spoke at length but in different words from the script
+  missedKeyMessages: string[];
+  missedKeyConcepts: string[];
+  keyMessageCount: number;
+  keyConceptCount: number;
+}
+
+export interface CoverageReport {
+  id: string;
+  presentationId: string;
+  sessionId?: string;          // Rehearsal the transcript was captured in
+  source: "recognizer" | "pasted";
+  createdAt: Date;
+  overallScore: number;        // Average of the slide scores (0-100)
+  slides: SlideCoverageScore[]; // Slides with a script, in order
+}
+
+export interface FlashcardReview {
+  id: string;             // Card id - cards are generated from slide guides
+  presentationId: string;
+  easeFactor: number;     // SM-2 ease, 1.3 and up
+  intervalDays: number;
+  repetitions: number;    // Successful reviews in a row
+  lapses: number;
+  dueAt: Date;
+  lastReviewedAt: Date;
+}
+
+/**
+ * Commands that keyboard and presentation-clicker keys can be mapped to
+ */
+export type KeyAction =
+  | "nextSlide"
+  | "previousSlide"
+  | "firstSlide"
+  | "lastSlide"
+  | "blackout"
+  | "playPause"
+  | "scrollBack"
+  | "scrollForward"
+  | "exit"
+  | "showHelp";
+
+export type KeyBindings = Record<KeyAction, string[]>;  // Action → KeyboardEvent.key values
+
+/**
+ * What changed a slide script - recorded with each revision
+ */
+export type ScriptRevisionSource =
+  | "original"    // Script before its first recorded change
+  | "setup"       // Edited in setup
+  | "practice"    // Edited while rehearsing
+  | "ai"          // Written by AI processing
+  | "bulk-split"  // Full script split across the slides
+  | "replace"     // Deck-wide find and replace
+  | "restore";    // Earlier version restored
+
+export interface ScriptRevision {
+  id: string;
+  presentationId: string;
+  slideId: string;
+  script: string;         // Script as saved
+  source: ScriptRevisionSource;
+  createdAt: Date;
+}
+
+export interface DeckSnapshot {
+  id: string;
+  presentationId: string;
+  reason: string;                   // Operation the snapshot was taken before
+  scripts: Record<string, string>;  // Slide ID → script
+  notes?: Record<string, string>;   // Slide ID → notes, when the operation also edits notes
+  guides?: Record<string, ContentGuide | null>;  // Slide ID → guide, likewise
+  fullScript?: string;
+  createdAt: Date;
 }
@@ -6,6 +6,8 @@ import { Button } from '../../../components/ui/button';
 import { Input } from '../../../components/ui/input';
 import { Brain, CheckCircle, Loader2, Key, Server } from 'lucide-react';
 import { OpenAIService, ScriptMatch } from '../../../services/openai-service';
+import { alignScriptToSlides } from '../../script/services/script-aligner';
+import { getFullScriptSpokenText, splitFullScript } from '../../script/utils/full-script-sync';
 import { useToast } from '../../../hooks/use-toast';
 import { createDebugger } from '../../../shared/utils/debug';
 
@@ -16,7 +18,7 @@ interface SimpleOpenAIProcessorProps {
 const debug = createDebugger('SimpleOpenAIProcessor');
 
 export const SimpleOpenAIProcessor = ({ onNavigateToPractice }: SimpleOpenAIProcessorProps) => {
-  const { currentPresentation, updateSlideScript, tempUploadedScript } = usePresentationStore();
+  const { currentPresentation, updateSlideScript, takeDeckSnapshot, tempUploadedScript } = usePresentationStore();
   const { toast } = useToast();
   const [connectionStatus, setConnectionStatus] = useState<'unknown' | 'testing' | 'connected' | 'failed'>('unknown');
   const [processing, setProcessing] = useState(false);
@@ -36,6 +38,9 @@ export const SimpleOpenAIProcessor = ({ onNavigateToPractice }: SimpleOpenAIProc
   const slides = currentPresentation?.slides || [];
   const hasScript = Boolean(currentPresentation?.fullScript || tempUploadedScript);
   const activeScript = currentPresentation?.fullScript || tempUploadedScript;
+  // Marked sections are placed as marked; only the spoken words go to the AI and the aligner
+  const markedScripts = activeScript ? splitFullScript(activeScript, slides.length)?.scripts ?? null : null;
+  const spokenScript = activeScript ? getFullScriptSpokenText(activeScript) : '';
 
   // Initialize OpenAI service (server-side proxy)
   const ai = new OpenAIService({
@@ -344,6 +349,17 @@ export const SimpleOpenAIProcessor = ({ onNavigateToPractice }: SimpleOpenAIProc
             keyAlignment: []
           }))
         };
+      } else if (markedScripts) {
+        scriptMatches = {
+          success: true,
+          matches: markedScripts.map((scriptSection, index) => ({
+            slideNumber: index + 1,
+            scriptSection,
+            confidence: 100,
+            reasoning: 'Placed by its [[slide N]] marker',
+            keyAlignment: []
+          }))
+        };
       } else if (selectedMode === 'client' && clientApiKey) {
         // Client-side AI matching
         try {
@@ -360,7 +376,7 @@ Slides:
 ${slideSummaries.map(s => `Slide ${s.slideNumber}: ${s.summary}`).join('\n')}
 
 Script:
-${activeScript}
+${spokenScript}
 
 Return JSON format:
 [
@@ -382,15 +398,24 @@ Return JSON format:
           scriptMatches = { success: true, matches };
         } catch (error) {
           console.error('Client-side matching failed:', error);
-          // Fallback to simple distribution
-          const { parseAndApplyBulkScript } = usePresentationStore.getState();
-          parseAndApplyBulkScript(activeScript || '');
-          scriptMatches = { success: true, matches: [] };
+          // Fallback to offline alignment on slide text, then simple distribution
+          const offline = alignScriptToSlides(spokenScript, slides);
+          if (offline.success) {
+            scriptMatches = { success: true, matches: offline.matches };
+          } else {
+            const { parseAndApplyBulkScript } = usePresentationStore.getState();
+            parseAndApplyBulkScript(spokenScript);
+            scriptMatches = { success: true, matches: [] };
+          }
         }
       } else {
-        const result = await ai.matchScriptToSlidesFromSummaries(slideSummaries, activeScript || '');
+        const result = await ai.matchScriptToSlidesFromSummaries(slideSummaries, spokenScript);
+        const offline = result.success ? null : alignScriptToSlides(spokenScript, slides);
         if (result.success) {
           scriptMatches = { success: true, matches: result.matches };
+        } else if (offline?.success) {
+          console.warn('⚠️ AI script matching failed, using offline alignment:', result.error);
+          scriptMatches = { success: true, matches: offline.matches };
         } else {
           scriptMatches = { success: false, matches: [], error: result.error };
         }
@@ -406,12 +431,13 @@ Return JSON format:
         // Track which slides got matched
         const matchedSlideNumbers = new Set<number>();
         
-        // Apply the matched scripts to slides
+        // Apply the matched scripts to slides - one snapshot covers the whole rewrite
+        takeDeckSnapshot('Before AI script matching');
         scriptMatches.matches.forEach((match: ScriptMatch) => {
           const slide = slides[match.slideNumber - 1];
           if (slide) {
             console.log(`📝 Updating slide ${match.slideNumber} (${slide.id}) with script:`, match.scriptSection.substring(0, 100) + '...');
-            updateSlideScript(slide.id, match.scriptSection);
+            updateSlideScript(slide.id, match.scriptSection, 'ai');
             matchedSlideNumbers.add(match.slideNumber);
           } else {
             console.error(`❌ Could not find slide ${match.slideNumber} in slides array`);
@@ -449,7 +475,7 @@ Key Points: ${slideAnalysis.keyPoints.join(', ')}
 Visual Elements: ${slideAnalysis.visualElements.join(', ')}
 
 Full Script:
-${activeScript}
+${spokenScript}
 
 Please provide either:
 1. The most relevant section from the script (even if not perfect)
@@ -475,7 +501,7 @@ Return just the text content for the presenter to say.`
                 const content = result.choices[0]?.message?.content || '';
                 if (content) {
                   debug.log(`✅ Found content for slide ${slideNumber}`);
-                  updateSlideScript(unmatchedSlide.id, content);
+                  updateSlideScript(unmatchedSlide.id, content, 'ai');
                 }
               } catch (error) {
                 debug.error(`Failed to find content for slide ${slideNumber}`, error);
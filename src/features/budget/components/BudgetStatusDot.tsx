@@ -0,0 +1,26 @@
+import { formatDuration } from '../../sessions/utils/session-timing';
+import type { SlideBudget } from '../utils/time-budget';
+
+interface BudgetStatusDotProps {
+  slideBudget?: SlideBudget;
+  className?: string;
+}
+
+/**
+ * Marker for slides whose script runs over or under their time budget
+ * Renders nothing for slides that are on track
+ */
+export function BudgetStatusDot({ slideBudget, className = '' }: BudgetStatusDotProps) {
+  if (!slideBudget || slideBudget.status === 'on-track') {
+    return null;
+  }
+
+  const isOver = slideBudget.status === 'over';
+
+  return (
+    <span
+      className={`absolute w-3 h-3 rounded-full border-2 border-white ${isOver ? 'bg-red-500' : 'bg-amber-400'} ${className}`}
+      title={`${isOver ? 'Over' : 'Under'} budget: script ${formatDuration(slideBudget.estimatedSeconds)}, budget ${formatDuration(slideBudget.budgetSeconds)}`}
+    />
+  );
+}
@@ -0,0 +1,228 @@
+import { useEffect, useState } from 'react';
+import { usePresentationStore } from '../../../core/store/presentation';
+import { loadPresentationSessions } from '../../../services/practiceSessions';
+import { measureWordsPerMinute, formatDuration, type MeasuredSpeakingRate } from '../../sessions/utils/session-timing';
+import { AVERAGE_WORDS_PER_MINUTE } from '../../practice/utils/script-processor';
+import { useBudgetPlan } from '../hooks/useBudgetPlan';
+import type { BudgetStatus } from '../utils/time-budget';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../../components/ui/card';
+import { Button } from '../../../components/ui/button';
+import { Input } from '../../../components/ui/input';
+import { Label } from '../../../components/ui/label';
+import { Badge } from '../../../components/ui/badge';
+import { Alert, AlertDescription } from '../../../components/ui/alert';
+import { AlertTriangle, Pin, PinOff, Timer } from 'lucide-react';
+
+const BUDGET_STATUS_STYLES: Record<BudgetStatus, { label: string; className: string }> = {
+  over: { label: 'Over', className: 'bg-red-100 text-red-700 border-red-200' },
+  under: { label: 'Under', className: 'bg-amber-100 text-amber-700 border-amber-200' },
+  'on-track': { label: 'On track', className: 'bg-green-100 text-green-700 border-green-200' }
+};
+
+/**
+ * Talk time budget planner
+ * Shares a planned talk length out over the slides by script length,
+ * with pinned slides kept at a fixed time, and flags slides whose script
+ * won't fit their share at the presenter's speaking rate
+ */
+export function TimeBudgetPlanner() {
+  const {
+    currentPresentation,
+    activeSession,
+    presenterWordsPerMinute,
+    setTimeBudget,
+    setPresenterWordsPerMinute
+  } = usePresentationStore();
+  const plan = useBudgetPlan();
+  const [measuredRate, setMeasuredRate] = useState<MeasuredSpeakingRate | null>(null);
+
+  const presentationId = currentPresentation?.id;
+  const slides = currentPresentation?.slides;
+
+  // Measure the speaking rate from recent rehearsals (reloaded when a session ends)
+  useEffect(() => {
+    if (!presentationId || !slides) return;
+    let isCancelled = false;
+
+    loadPresentationSessions(presentationId).then(sessions => {
+      if (!isCancelled) setMeasuredRate(measureWordsPerMinute(sessions, slides));
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [presentationId, slides, activeSession?.id]);
+
+  if (!currentPresentation) {
+    return null;
+  }
+
+  const budget = currentPresentation.timeBudget;
+  const totalMinutes = budget ? budget.totalSeconds / 60 : 0;
+  const wordsPerMinute = presenterWordsPerMinute ?? AVERAGE_WORDS_PER_MINUTE;
+
+  const handleTotalChange = (value: string) => {
+    const minutes = parseFloat(value);
+    setTimeBudget({
+      totalSeconds: Number.isFinite(minutes) && minutes > 0 ? Math.round(minutes * 60) : 0,
+      pinnedSeconds: budget?.pinnedSeconds ?? {}
+    });
+  };
+
+  const handleRateChange = (value: string) => {
+    const rate = parseInt(value, 10);
+    setPresenterWordsPerMinute(Number.isFinite(rate) && rate > 0 ? rate : null);
+  };
+
+  const setPinned = (slideId: string, seconds: number | null) => {
+    if (!budget) return;
+    const pinnedSeconds = { ...budget.pinnedSeconds };
+    if (seconds === null) {
+      delete pinnedSeconds[slideId];
+    } else {
+      pinnedSeconds[slideId] = Math.max(0, seconds);
+    }
+    setTimeBudget({ ...budget, pinnedSeconds });
+  };
+
+  const overCount = plan?.slides.filter(slide => slide.status === 'over').length ?? 0;
+  const underCount = plan?.slides.filter(slide => slide.status === 'under').length ?? 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Timer className="w-5 h-5 text-gray-600" />
+          Time Budget
+        </CardTitle>
+        <CardDescription>Plan how long each slide gets and spot slides whose script won't fit</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="budget-total">Talk length (minutes)</Label>
+            <div className="flex gap-2">
+              <Input
+                id="budget-total"
+                type="number"
+                min={0}
+                step={0.5}
+                value={totalMinutes || ''}
+                placeholder="e.g. 20"
+                onChange={(e) => handleTotalChange(e.target.value)}
+              />
+              {budget && (
+                <Button variant="outline" onClick={() => setTimeBudget(undefined)}>
+                  Clear
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="budget-wpm">Speaking rate (words per minute)</Label>
+            <Input
+              id="budget-wpm"
+              type="number"
+              min={60}
+              max={300}
+              value={presenterWordsPerMinute ?? ''}
+              placeholder={`Average (${AVERAGE_WORDS_PER_MINUTE})`}
+              onChange={(e) => handleRateChange(e.target.value)}
+            />
+            {measuredRate && measuredRate.wordsPerMinute !== presenterWordsPerMinute && (
+              <Button
+                variant="link"
+                size="sm"
+                className="h-auto p-0"
+                onClick={() => setPresenterWordsPerMinute(measuredRate.wordsPerMinute)}
+              >
+                Use my measured rate: {measuredRate.wordsPerMinute} wpm
+                ({measuredRate.sessionCount} {measuredRate.sessionCount === 1 ? 'session' : 'sessions'})
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {!plan ? (
+          <p className="text-sm text-muted-foreground">
+            Set a talk length to share it out over your slides.
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant="outline">
+                Script: {formatDuration(plan.estimatedSeconds)} of {formatDuration(plan.totalSeconds)} at {wordsPerMinute} wpm
+              </Badge>
+              {overCount > 0 && <Badge className={BUDGET_STATUS_STYLES.over.className}>{overCount} over</Badge>}
+              {underCount > 0 && <Badge className={BUDGET_STATUS_STYLES.under.className}>{underCount} under</Badge>}
+            </div>
+
+            {plan.isOverPinned && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  Pinned slides alone take {formatDuration(plan.pinnedSeconds)} - longer than the whole talk. The other slides get no time.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="max-h-96 overflow-y-auto border rounded-md">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-gray-500 sticky top-0">
+                  <tr>
+                    <th className="text-left font-medium px-3 py-2">Slide</th>
+                    <th className="text-right font-medium px-3 py-2">Words</th>
+                    <th className="text-right font-medium px-3 py-2">Script</th>
+                    <th className="text-right font-medium px-3 py-2">Budget</th>
+                    <th className="text-left font-medium px-3 py-2">Status</th>
+                    <th className="px-3 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {plan.slides.map(slide => (
+                    <tr key={slide.slideId} className="border-t">
+                      <td className="px-3 py-2">{slide.slideIndex + 1}</td>
+                      <td className="px-3 py-2 text-right text-gray-600">{slide.wordCount}</td>
+                      <td className="px-3 py-2 text-right text-gray-600">{formatDuration(slide.estimatedSeconds)}</td>
+                      <td className="px-3 py-2 text-right">
+                        {slide.isPinned ? (
+                          <Input
+                            type="number"
+                            min={0}
+                            aria-label={`Pinned seconds for slide ${slide.slideIndex + 1}`}
+                            className="h-8 w-20 ml-auto text-right"
+                            value={slide.budgetSeconds}
+                            onChange={(e) => setPinned(slide.slideId, parseInt(e.target.value, 10) || 0)}
+                          />
+                        ) : (
+                          formatDuration(slide.budgetSeconds)
+                        )}
+                      </td>
+                      <td className="px-3 py-2">
+                        <Badge variant="outline" className={BUDGET_STATUS_STYLES[slide.status].className}>
+                          {BUDGET_STATUS_STYLES[slide.status].label}
+                        </Badge>
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          title={slide.isPinned ? 'Unpin - share time by script length' : 'Pin this budget'}
+                          onClick={() => setPinned(slide.slideId, slide.isPinned ? null : slide.budgetSeconds)}
+                        >
+                          {slide.isPinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
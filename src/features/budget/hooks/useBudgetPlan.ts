@@ -0,0 +1,21 @@
+import { useMemo } from 'react';
+import { usePresentationStore } from '../../../core/store/presentation';
+import { AVERAGE_WORDS_PER_MINUTE } from '../../practice/utils/script-processor';
+import { computeBudgetPlan, type BudgetPlan } from '../utils/time-budget';
+
+/**
+ * Time budget plan for the current presentation
+ * Uses the presenter's speaking rate when set, the average otherwise
+ * @returns null when no talk length has been set
+ */
+export const useBudgetPlan = (): BudgetPlan | null => {
+  const { currentPresentation, presenterWordsPerMinute } = usePresentationStore();
+  const slides = currentPresentation?.slides;
+  const budget = currentPresentation?.timeBudget;
+  const wordsPerMinute = presenterWordsPerMinute ?? AVERAGE_WORDS_PER_MINUTE;
+
+  return useMemo(() => {
+    if (!slides || !budget || budget.totalSeconds <= 0) return null;
+    return computeBudgetPlan(slides, budget, wordsPerMinute);
+  }, [slides, budget, wordsPerMinute]);
+};
@@ -0,0 +1,132 @@
+import type { Slide, TalkTimeBudget } from '../../../core/types';
+import { countWords, estimateSpeakingSeconds, AVERAGE_WORDS_PER_MINUTE } from '../../practice/utils/script-processor';
+
+/**
+ * Talk time budget
+ *
+ * The planned talk length is shared out over the slides:
+ * - pinned slides get exactly their pinned time
+ * - the remaining time is split over the other slides by script length,
+ *   so a slide with twice the words gets twice the time
+ * A slide's script estimate (at the presenter's speaking rate) is then
+ * compared with its budget to flag slides that run over or under.
+ */
+
+export type BudgetStatus = 'over' | 'under' | 'on-track';
+
+export interface SlideBudget {
+  slideId: string;
+  slideIndex: number;
+  wordCount: number;
+  estimatedSeconds: number;  // Script length at the speaking rate
+  budgetSeconds: number;
+  isPinned: boolean;
+  status: BudgetStatus;
+}
+
+export interface BudgetPlan {
+  slides: SlideBudget[];
+  totalSeconds: number;
+  estimatedSeconds: number;  // Whole script at the speaking rate
+  pinnedSeconds: number;
+  isOverPinned: boolean;     // Pinned slides alone exceed the talk length
+}
+
+const BUDGET_TOLERANCE = 0.15;  // Within 15% of the budget counts as on track
+const MIN_SLIDE_WORDS = 15;     // Slides without much script still get a few seconds
+
+/**
+ * Compare an estimate with a budget
+ */
+export function getBudgetStatus(estimatedSeconds: number, budgetSeconds: number): BudgetStatus {
+  if (estimatedSeconds > budgetSeconds * (1 + BUDGET_TOLERANCE)) return 'over';
+  if (estimatedSeconds < budgetSeconds * (1 - BUDGET_TOLERANCE)) return 'under';
+  return 'on-track';
+}
+
+/**
+ * Share the talk length out over the slides
+ * @param slides - Slides in order
+ * @param budget - Talk length and pinned slides
+ * @param wordsPerMinute - Presenter's speaking rate
+ */
+export function computeBudgetPlan(
+  slides: Pick<Slide, 'id' | 'script'>[],
+  budget: TalkTimeBudget,
+  wordsPerMinute: number = AVERAGE_WORDS_PER_MINUTE
+): BudgetPlan {
+  const wordCounts = slides.map(slide => countWords(slide.script || ''));
+  const pinned = slides.map(slide => budget.pinnedSeconds[slide.id]);
+
+  const pinnedSeconds = pinned.reduce<number>((sum, seconds) => sum + (seconds ?? 0), 0);
+  const remainingSeconds = Math.max(0, budget.totalSeconds - pinnedSeconds);
+
+  const weights = wordCounts.map((words, index) => pinned[index] === undefined ? Math.max(words, MIN_SLIDE_WORDS) : 0);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  const slideBudgets = slides.map((slide, index) => {
+    const isPinned = pinned[index] !== undefined;
+    const budgetSeconds = isPinned
+      ? pinned[index]
+      : totalWeight > 0 ? Math.round(remainingSeconds * weights[index] / totalWeight) : 0;
+    const estimatedSeconds = estimateSpeakingSeconds(wordCounts[index], wordsPerMinute);
+
+    return {
+      slideId: slide.id,
+      slideIndex: index,
+      wordCount: wordCounts[index],
+      estimatedSeconds,
+      budgetSeconds,
+      isPinned,
+      status: getBudgetStatus(estimatedSeconds, budgetSeconds)
+    };
+  });
+
+  return {
+    slides: slideBudgets,
+    totalSeconds: budget.totalSeconds,
+    estimatedSeconds: slideBudgets.reduce((sum, slide) => sum + slide.estimatedSeconds, 0),
+    pinnedSeconds,
+    isOverPinned: pinnedSeconds > budget.totalSeconds
+  };
+}
+
+/**
+ * Carry pinned budgets over to new slide IDs (duplicate, bundle import)
+ */
+export function remapTimeBudget(
+  budget: TalkTimeBudget | undefined,
+  slideIdMap: Record<string, string>
+): TalkTimeBudget | undefined {
+  if (!budget) return undefined;
+
+  const pinnedSeconds: Record<string, number> = {};
+  Object.entries(budget.pinnedSeconds).forEach(([slideId, seconds]) => {
+    if (slideIdMap[slideId]) pinnedSeconds[slideIdMap[slideId]] = seconds;
+  });
+  return { ...budget, pinnedSeconds };
+}
+
+/**
+ * Target seconds per slide ID for a rehearsal
+ * The slide's budget when a talk length is set, its script estimate otherwise
+ */
+export function computeSlideTargets(
+  slides: Pick<Slide, 'id' | 'script'>[],
+  budget: TalkTimeBudget | undefined,
+  wordsPerMinute: number = AVERAGE_WORDS_PER_MINUTE
+): Record<string, number> {
+  const targets: Record<string, number> = {};
+
+  if (budget && budget.totalSeconds > 0) {
+    computeBudgetPlan(slides, budget, wordsPerMinute).slides.forEach(slide => {
+      targets[slide.slideId] = slide.budgetSeconds;
+    });
+  } else {
+    slides.forEach(slide => {
+      targets[slide.id] = estimateSpeakingSeconds(countWords(slide.script || ''), wordsPerMinute);
+    });
+  }
+
+  return targets;
+}
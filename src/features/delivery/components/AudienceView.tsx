@@ -0,0 +1,96 @@
+import { useEffect, useRef, useState } from 'react';
+import { loadSlideImage } from '../../../services/imageStorage';
+import { openDeliveryChannel, type DeliveryMessage } from '../utils/delivery-channel';
+import { useKeyBindings } from '../../keyboard/hooks/useKeyBindings';
+
+/**
+ * Audience window for Delivery mode
+ * Shows only the current slide, full-screen, following the presenter window
+ */
+export function AudienceView() {
+  const [slideId, setSlideId] = useState<string | null>(null);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [isWaiting, setIsWaiting] = useState(true);
+  const [isBlackedOut, setIsBlackedOut] = useState(false);
+  const channelRef = useRef<BroadcastChannel | null>(null);
+
+  // Listen to the presenter
+  useEffect(() => {
+    const channel = openDeliveryChannel();
+    if (!channel) return;
+    channelRef.current = channel;
+
+    channel.onmessage = (event: MessageEvent<DeliveryMessage>) => {
+      const message = event.data;
+      if (message.type === 'slide') {
+        setSlideId(message.slideId);
+        setIsBlackedOut(message.isBlackedOut);
+        setIsWaiting(false);
+      } else if (message.type === 'end') {
+        window.close();
+      }
+    };
+
+    // Ask the presenter window for the current slide
+    channel.postMessage({ type: 'hello' } satisfies DeliveryMessage);
+
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, []);
+
+  // Clicker presses in this window are forwarded to the presenter
+  const send = (message: DeliveryMessage) => channelRef.current?.postMessage(message);
+  useKeyBindings({
+    nextSlide: () => send({ type: 'navigate', direction: 'next' }),
+    previousSlide: () => send({ type: 'navigate', direction: 'previous' }),
+    firstSlide: () => send({ type: 'navigate', direction: 'first' }),
+    lastSlide: () => send({ type: 'navigate', direction: 'last' }),
+    blackout: () => send({ type: 'toggleBlackout' })
+  }, { onJumpToSlide: slideIndex => send({ type: 'jump', slideIndex }) });
+
+  // Images are read from IndexedDB so messages stay small
+  useEffect(() => {
+    if (!slideId) return;
+    let isCancelled = false;
+
+    loadSlideImage(slideId).then(url => {
+      if (!isCancelled) setImageUrl(url);
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [slideId]);
+
+  const enterFullscreen = () => {
+    if (!document.fullscreenElement) {
+      document.documentElement.requestFullscreen().catch(error => {
+        console.warn('⚠️ Fullscreen request was denied:', error);
+      });
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black flex items-center justify-center cursor-none"
+      onDoubleClick={enterFullscreen}
+    >
+      {isBlackedOut ? null : imageUrl ? (
+        <img
+          src={imageUrl}
+          alt="Current slide"
+          className="max-w-full max-h-full object-contain"
+        />
+      ) : (
+        <div className="text-center text-gray-400 cursor-default">
+          <p className="text-lg">
+            {isWaiting ? 'Waiting for the presenter window…' : 'Slide image unavailable'}
+          </p>
+          <p className="text-sm mt-2">Double-click anywhere to go full screen</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,323 @@
+import { useEffect, useRef, useState } from 'react';
+import { usePresentationStore } from '../../../core/store/presentation';
+import { generateContentGuide } from '../../practice/utils/script-processor';
+import { parseSlideScript } from '../../practice/utils/script-markup';
+import { ScriptMarkupView } from '../../practice/components/ScriptMarkupView';
+import { useKeyBindings } from '../../keyboard/hooks/useKeyBindings';
+import { useSlideSequence } from '../../paths/hooks/useSlideSequence';
+import { getSlideSequence, stepInSequence } from '../../paths/utils/slide-paths';
+import { openAudienceWindow, openDeliveryChannel, type DeliveryMessage } from '../utils/delivery-channel';
+import { Card } from '../../../components/ui/card';
+import { Button } from '../../../components/ui/button';
+import { Badge } from '../../../components/ui/badge';
+import { ChevronLeft, ChevronRight, MonitorUp, MonitorOff, AlertCircle, CornerUpLeft } from 'lucide-react';
+
+interface DeliveryViewProps {
+  onBack: () => void;
+}
+
+/**
+ * Presenter window for Delivery mode
+ * Keeps script, content guide and next-slide preview here while the
+ * audience window (opened separately) shows only the slide. The talk
+ * follows the selected path; slides off it are backups to jump to.
+ */
+export function DeliveryView({ onBack }: DeliveryViewProps) {
+  const {
+    currentPresentation,
+    currentSlideIndex,
+    nextSlide,
+    previousSlide,
+    setCurrentSlide,
+    jumpToSlide,
+    startSession,
+    endSession
+  } = usePresentationStore();
+
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const [audienceBlocked, setAudienceBlocked] = useState(false);
+  const [isBlackedOut, setIsBlackedOut] = useState(false);
+  const isBlackedOutRef = useRef(false);
+
+  const { sequence, position, isDetour, detourFromIndex, canGoPrevious, canGoNext } = useSlideSequence();
+  const slides = currentPresentation?.slides || [];
+  const currentSlide = slides[currentSlideIndex];
+  const nextIndex = detourFromIndex ?? stepInSequence(sequence, currentSlideIndex, 1);
+  const nextSlidePreview = nextIndex === undefined ? undefined : slides[nextIndex];
+  const previousIndex = stepInSequence(sequence, currentSlideIndex, -1);
+  const backupIndexes = slides.map((_, index) => index).filter(index => !sequence.includes(index));
+
+  // Record a delivery session for as long as this view is open - kept only if the talk moves past
+  // the first slide, words are heard or audio is recorded
+  useEffect(() => {
+    startSession('delivery');
+    return () => {
+      endSession();
+    };
+  }, [startSession, endSession]);
+
+  // Open the channel; answer audience hellos and clicker presses
+  useEffect(() => {
+    const channel = openDeliveryChannel();
+    if (!channel) return;
+    channelRef.current = channel;
+
+    channel.onmessage = (event: MessageEvent<DeliveryMessage>) => {
+      const message = event.data;
+      if (message.type === 'hello') {
+        broadcastCurrentSlide(channel, isBlackedOutRef.current);
+      } else if (message.type === 'navigate') {
+        navigateFromAudience(message.direction);
+      } else if (message.type === 'jump') {
+        usePresentationStore.getState().jumpToSlide(message.slideIndex);
+      } else if (message.type === 'toggleBlackout') {
+        setIsBlackedOut(blackedOut => !blackedOut);
+      }
+    };
+
+    return () => {
+      channel.postMessage({ type: 'end' } satisfies DeliveryMessage);
+      channel.close();
+      channelRef.current = null;
+    };
+  }, []);
+
+  // The store's currentSlideIndex drives the audience window
+  useEffect(() => {
+    isBlackedOutRef.current = isBlackedOut;
+    broadcastCurrentSlide(channelRef.current, isBlackedOut);
+  }, [currentSlideIndex, currentSlide?.id, isBlackedOut]);
+
+  // Keyboard and clicker navigation - no exit key, so a stray Escape
+  // from a clicker cannot end the talk
+  useKeyBindings({
+    nextSlide,
+    previousSlide,
+    firstSlide: () => setCurrentSlide(sequence[0]),
+    lastSlide: () => setCurrentSlide(sequence[sequence.length - 1]),
+    blackout: () => setIsBlackedOut(blackedOut => !blackedOut)
+  }, { onJumpToSlide: jumpToSlide });
+
+  if (!currentPresentation || !currentSlide) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <p className="text-muted-foreground">No presentation loaded</p>
+      </div>
+    );
+  }
+
+  const guide = currentSlide.guide || generateContentGuide(
+    currentSlide.script,
+    previousIndex === undefined ? undefined : slides[previousIndex].script,
+    nextSlidePreview?.script
+  );
+
+  const handleOpenAudience = () => {
+    const audienceWindow = openAudienceWindow();
+    setAudienceBlocked(!audienceWindow);
+  };
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background">
+      {/* Header */}
+      <div className="flex-shrink-0 border-b bg-background px-4 py-3 flex items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="sm" onClick={onBack} className="min-h-[44px]">
+            <ChevronLeft className="w-4 h-4 mr-1" />
+            <span className="hidden sm:inline">End Delivery</span>
+            <span className="sm:hidden">End</span>
+          </Button>
+          <h1 className="text-lg font-semibold">Delivery Mode</h1>
+        </div>
+
+        <Badge variant="secondary" className="px-3 py-1 text-sm" title={`Slide ${currentSlideIndex + 1} of the deck`}>
+          {position === -1 ? `Backup slide ${currentSlideIndex + 1}` : `Slide ${position + 1} of ${sequence.length}`}
+        </Badge>
+
+        <div className="flex items-center gap-2">
+          {detourFromIndex !== null && (
+            <Button variant="outline" onClick={() => setCurrentSlide(detourFromIndex)} className="min-h-[44px]">
+              <CornerUpLeft className="w-4 h-4 mr-2" />
+              Return to slide {detourFromIndex + 1}
+            </Button>
+          )}
+          <Button
+            variant={isBlackedOut ? 'default' : 'outline'}
+            onClick={() => setIsBlackedOut(blackedOut => !blackedOut)}
+            className="min-h-[44px]"
+            title="Black out the audience screen"
+          >
+            <MonitorOff className="w-4 h-4 mr-2" />
+            {isBlackedOut ? 'Show Slide' : 'Blackout'}
+          </Button>
+          <Button onClick={handleOpenAudience} className="min-h-[44px]">
+            <MonitorUp className="w-4 h-4 mr-2" />
+            Open Audience Window
+          </Button>
+        </div>
+      </div>
+
+      {audienceBlocked && (
+        <div className="mx-4 mt-3 p-3 rounded-md bg-amber-50 border border-amber-200 text-sm text-amber-800">
+          The audience window was blocked. Allow pop-ups for this site and try again.
+        </div>
+      )}
+
+      {/* Main Content */}
+      <div className="flex-1 grid lg:grid-cols-3 gap-4 p-4">
+        {/* Current slide */}
+        <div className="lg:col-span-2 bg-black rounded-lg flex items-center justify-center min-h-[300px]">
+          {isBlackedOut ? (
+            <p className="text-gray-500">Audience screen is blacked out</p>
+          ) : currentSlide.imageUrl ? (
+            <img
+              src={currentSlide.imageUrl}
+              alt={`Slide ${currentSlideIndex + 1}`}
+              className="max-w-full max-h-[60vh] object-contain"
+            />
+          ) : (
+            <p className="text-gray-400">Slide {currentSlideIndex + 1}</p>
+          )}
+        </div>
+
+        {/* Next slide + guide */}
+        <div className="flex flex-col gap-4">
+          <Card className="p-3">
+            <p className="text-xs font-medium text-muted-foreground mb-2 uppercase tracking-wide">
+              {isDetour ? 'Back to' : 'Next slide'}
+            </p>
+            {nextSlidePreview && nextIndex !== undefined ? (
+              nextSlidePreview.imageUrl ? (
+                <img
+                  src={nextSlidePreview.imageUrl}
+                  alt={`Slide ${nextIndex + 1}`}
+                  className="w-full max-h-40 object-contain bg-gray-50 rounded"
+                />
+              ) : (
+                <p className="text-sm text-gray-500">Slide {nextIndex + 1}</p>
+              )
+            ) : (
+              <p className="text-sm text-gray-500">End of presentation</p>
+            )}
+          </Card>
+
+          {/* Slides left out of the talk, ready for questions */}
+          {backupIndexes.length > 0 && (
+            <Card className="p-3">
+              <p className="text-xs font-medium text-muted-foreground mb-2 uppercase tracking-wide">Backup slides</p>
+              <div className="flex flex-wrap gap-2">
+                {backupIndexes.map(index => (
+                  <Button
+                    key={slides[index].id}
+                    size="sm"
+                    variant={index === currentSlideIndex ? 'default' : 'outline'}
+                    onClick={() => jumpToSlide(index)}
+                    title="Show this slide - next or previous returns to the talk"
+                  >
+                    {index + 1}
+                  </Button>
+                ))}
+              </div>
+            </Card>
+          )}
+
+          <Card className="p-3 flex-1 overflow-y-auto">
+            <p className="text-xs font-medium text-muted-foreground mb-2 uppercase tracking-wide">Key messages</p>
+            {guide.keyMessages.length > 0 ? (
+              <div className="space-y-2 text-sm">
+                {guide.keyMessages.map((message, index) => (
+                  <div key={index} className="flex items-start gap-2">
+                    <span className="w-1.5 h-1.5 bg-blue-500 rounded-full flex-shrink-0 mt-1.5"></span>
+                    <span
+                      className="flex-1 leading-relaxed"
+                      dangerouslySetInnerHTML={{
+                        __html: message.replace(/\*\*(.*?)\*\*/g, '<strong class="font-semibold text-blue-700">$1</strong>')
+                      }}
+                    />
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="flex items-center gap-2 text-sm text-gray-500">
+                <AlertCircle className="w-4 h-4" />
+                No guide for this slide
+              </div>
+            )}
+            {guide.transitionTo && (
+              <div className="mt-3 p-2 rounded-md bg-blue-50 border-l-2 border-blue-300">
+                <p className="text-xs font-medium text-muted-foreground mb-1 uppercase tracking-wide">To next:</p>
+                <p className="text-blue-600 italic text-sm">{guide.transitionTo}</p>
+              </div>
+            )}
+          </Card>
+        </div>
+
+        {/* Script */}
+        <Card className="lg:col-span-3 p-4 max-h-72 overflow-y-auto">
+          <p className="text-xs font-medium text-muted-foreground mb-2 uppercase tracking-wide">
+            Slide {currentSlideIndex + 1} script
+          </p>
+          {currentSlide.script ? (
+            <ScriptMarkupView document={parseSlideScript(currentSlide.script)} className="text-lg text-gray-800" />
+          ) : (
+            <p className="text-muted-foreground">No script for this slide</p>
+          )}
+        </Card>
+      </div>
+
+      {/* Navigation Controls */}
+      <div className="flex-shrink-0 flex items-center gap-4 p-4 border-t bg-white justify-between">
+        <Button
+          variant="outline"
+          onClick={previousSlide}
+          disabled={!canGoPrevious}
+          className="min-h-[48px] px-4"
+        >
+          <ChevronLeft className="w-5 h-5 mr-1" />
+          Previous
+        </Button>
+        <Button
+          onClick={nextSlide}
+          disabled={!canGoNext}
+          className="min-h-[48px] px-4"
+        >
+          Next
+          <ChevronRight className="w-5 h-5 ml-1" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Clicker presses forwarded from the audience window
+ */
+function navigateFromAudience(direction: 'next' | 'previous' | 'first' | 'last') {
+  const { currentPresentation, nextSlide, previousSlide, setCurrentSlide } = usePresentationStore.getState();
+  if (direction === 'next') {
+    nextSlide();
+  } else if (direction === 'previous') {
+    previousSlide();
+  } else if (currentPresentation && currentPresentation.slides.length > 0) {
+    const sequence = getSlideSequence(currentPresentation);
+    setCurrentSlide(direction === 'first' ? sequence[0] : sequence[sequence.length - 1]);
+  }
+}
+
+/**
+ * Send the store's current slide to the audience window
+ */
+function broadcastCurrentSlide(channel: BroadcastChannel | null, isBlackedOut: boolean) {
+  const { currentPresentation, currentSlideIndex } = usePresentationStore.getState();
+  const slide = currentPresentation?.slides[currentSlideIndex];
+  if (!channel || !currentPresentation || !slide) return;
+
+  channel.postMessage({
+    type: 'slide',
+    presentationId: currentPresentation.id,
+    slideId: slide.id,
+    slideIndex: currentSlideIndex,
+    totalSlides: currentPresentation.slides.length,
+    isBlackedOut
+  } satisfies DeliveryMessage);
+}
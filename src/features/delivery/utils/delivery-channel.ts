@@ -0,0 +1,56 @@
+/**
+ * Delivery channel - keeps the presenter and audience windows in sync
+ * Both windows share an origin, so a BroadcastChannel is enough (no server)
+ */
+
+export const DELIVERY_CHANNEL_NAME = 'presentation-studio-delivery';
+
+/** Query string value that makes the app render the audience view */
+export const AUDIENCE_VIEW_PARAM = 'audience';
+
+export type DeliveryMessage =
+  // Presenter → audience: show this slide
+  | {
+      type: 'slide';
+      presentationId: string;
+      slideId: string;
+      slideIndex: number;
+      totalSlides: number;
+      isBlackedOut: boolean;
+    }
+  // Presenter → audience: delivery finished, close the window
+  | { type: 'end' }
+  // Audience → presenter: window opened, send the current slide
+  | { type: 'hello' }
+  // Audience → presenter: clicker/keyboard pressed in the audience window
+  | { type: 'navigate'; direction: 'next' | 'previous' | 'first' | 'last' }
+  | { type: 'jump'; slideIndex: number }
+  | { type: 'toggleBlackout' };
+
+/**
+ * Open the delivery BroadcastChannel
+ * Returns null where BroadcastChannel is unsupported
+ */
+export function openDeliveryChannel(): BroadcastChannel | null {
+  if (typeof BroadcastChannel === 'undefined') {
+    console.warn('⚠️ BroadcastChannel is not supported - audience window cannot sync');
+    return null;
+  }
+  return new BroadcastChannel(DELIVERY_CHANNEL_NAME);
+}
+
+/**
+ * Check whether this window was opened as the audience window
+ */
+export function isAudienceWindow(): boolean {
+  return new URLSearchParams(window.location.search).get('view') === AUDIENCE_VIEW_PARAM;
+}
+
+/**
+ * Open (or focus) the audience window
+ * @returns The window handle, or null when blocked by the browser
+ */
+export function openAudienceWindow(): Window | null {
+  const url = `${window.location.origin}${window.location.pathname}?view=${AUDIENCE_VIEW_PARAM}`;
+  return window.open(url, 'presentation-studio-audience', 'popup,width=1280,height=720');
+}
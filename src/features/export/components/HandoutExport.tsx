@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { usePresentationStore } from '../../../core/store/presentation';
+import { downloadHandoutPdf, HANDOUT_LAYOUTS, type HandoutLayout } from '../utils/handout-pdf';
+import { getSelectedPath, getSequenceSlides } from '../../paths/utils/slide-paths';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../../components/ui/card';
+import { Button } from '../../../components/ui/button';
+import { Switch } from '../../../components/ui/switch';
+import { Label } from '../../../components/ui/label';
+import { useToast } from '../../../hooks/use-toast';
+import { Printer } from 'lucide-react';
+
+/**
+ * Printable handout export
+ * Lets the presenter pick a layout and download a PDF of slides, scripts and guides,
+ * in the order of the selected path
+ */
+export function HandoutExport() {
+  const { currentPresentation } = usePresentationStore();
+  const { toast } = useToast();
+
+  const [layout, setLayout] = useState<HandoutLayout>('notes-page');
+  const [includeGuide, setIncludeGuide] = useState(true);
+  const [includeNotes, setIncludeNotes] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+
+  if (!currentPresentation) {
+    return null;
+  }
+
+  const handoutSlides = getSequenceSlides(currentPresentation);
+  const selectedPath = getSelectedPath(currentPresentation);
+  const leftOutCount = currentPresentation.slides.length - handoutSlides.length;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await downloadHandoutPdf(currentPresentation, { layout, includeGuide, includeNotes }, handoutSlides);
+    } catch (error) {
+      console.error('❌ Handout export failed:', error);
+      toast({
+        title: '❌ Export failed',
+        description: error instanceof Error ? error.message : 'The handout could not be created.'
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Printer className="w-5 h-5 text-gray-600" />
+          Print Handout
+        </CardTitle>
+        <CardDescription>Download a PDF of your slides, scripts and presenter guides</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid sm:grid-cols-3 gap-3">
+          {HANDOUT_LAYOUTS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setLayout(option.value)}
+              className={`text-left rounded-lg border-2 p-3 transition-colors ${
+                layout === option.value ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-blue-300'
+              }`}
+            >
+              <p className="font-medium text-sm">{option.label}</p>
+              <p className="text-xs text-gray-500 mt-1">{option.description}</p>
+            </button>
+          ))}
+        </div>
+
+        {layout !== 'three-per-page' && (
+          <div className="flex flex-wrap gap-6">
+            <div className="flex items-center gap-2">
+              <Switch id="handout-guide" checked={includeGuide} onCheckedChange={setIncludeGuide} />
+              <Label htmlFor="handout-guide">Include presenter guide</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="handout-notes" checked={includeNotes} onCheckedChange={setIncludeNotes} />
+              <Label htmlFor="handout-notes">Include notes</Label>
+            </div>
+          </div>
+        )}
+
+        {(selectedPath || leftOutCount > 0) && (
+          <p className="text-sm text-gray-600">
+            {selectedPath ? `Follows the "${selectedPath.name}" path` : 'Follows the visible slides'}
+            {' '}- {handoutSlides.length} of {currentPresentation.slides.length} slides
+          </p>
+        )}
+
+        <Button onClick={handleExport} disabled={isExporting}>
+          <Printer className="w-4 h-4 mr-2" />
+          {isExporting ? 'Creating PDF...' : 'Download PDF'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,256 @@
+/**
+ * Printable speaker handout generation
+ * Builds a PDF on the client with jsPDF and downloads it with file-saver
+ */
+
+import { jsPDF } from 'jspdf';
+import { saveAs } from 'file-saver';
+import type { Presentation, Slide } from '../../../core/types';
+import { loadPresentationImages } from '../../../services/imageStorage';
+import { getSpokenText, parseSlideScript } from '../../practice/utils/script-markup';
+import { stripMarkdown } from '../../practice/utils/script-processor';
+
+export type HandoutLayout = 'notes-page' | 'three-per-page' | 'script-only';
+
+export const HANDOUT_LAYOUTS: { value: HandoutLayout; label: string; description: string }[] = [
+  { value: 'notes-page', label: 'Notes page', description: 'One slide per page with script, notes and guide below' },
+  { value: 'three-per-page', label: '3 slides per page', description: 'Three slides per page with lines for handwritten notes' },
+  { value: 'script-only', label: 'Script only', description: 'Continuous script with guide, no slide images' }
+];
+
+export interface HandoutOptions {
+  layout: HandoutLayout;
+  includeGuide?: boolean;
+  includeNotes?: boolean;
+}
+
+// A4 portrait in points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const LINE_HEIGHT = 14;
+
+/**
+ * Writes flowing text and adds pages when the cursor runs off the bottom
+ */
+class PdfWriter {
+  doc: jsPDF;
+  y = MARGIN;
+
+  constructor(doc: jsPDF) {
+    this.doc = doc;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y + height > PAGE_HEIGHT - MARGIN) {
+      this.doc.addPage();
+      this.y = MARGIN;
+    }
+  }
+
+  heading(text: string, size = 14) {
+    this.ensureSpace(size + 8);
+    this.doc.setFont('helvetica', 'bold');
+    this.doc.setFontSize(size);
+    this.doc.text(text, MARGIN, this.y + size);
+    this.y += size + 8;
+  }
+
+  label(text: string) {
+    this.ensureSpace(LINE_HEIGHT + 4);
+    this.doc.setFont('helvetica', 'bold');
+    this.doc.setFontSize(9);
+    this.doc.setTextColor(110);
+    this.doc.text(text.toUpperCase(), MARGIN, this.y + 9);
+    this.doc.setTextColor(0);
+    this.y += LINE_HEIGHT;
+  }
+
+  paragraph(text: string, { italic = false, indent = 0 } = {}) {
+    this.doc.setFont('helvetica', italic ? 'italic' : 'normal');
+    this.doc.setFontSize(11);
+    const lines: string[] = this.doc.splitTextToSize(text, CONTENT_WIDTH - indent);
+    lines.forEach(line => {
+      this.ensureSpace(LINE_HEIGHT);
+      this.doc.text(line, MARGIN + indent, this.y + 11);
+      this.y += LINE_HEIGHT;
+    });
+    this.y += 4;
+  }
+
+  bullets(items: string[]) {
+    items.forEach(item => this.paragraph(`•  ${stripMarkdown(item)}`, { indent: 8 }));
+  }
+}
+
+/**
+ * Draw an image scaled to fit the box, keeping its aspect ratio
+ * @returns Height actually used
+ */
+function drawImageFit(doc: jsPDF, imageUrl: string, x: number, y: number, maxWidth: number, maxHeight: number): number {
+  try {
+    const { width, height } = doc.getImageProperties(imageUrl);
+    const scale = Math.min(maxWidth / width, maxHeight / height);
+    const drawWidth = width * scale;
+    const drawHeight = height * scale;
+    doc.addImage(imageUrl, x + (maxWidth - drawWidth) / 2, y, drawWidth, drawHeight);
+    doc.setDrawColor(200);
+    doc.rect(x + (maxWidth - drawWidth) / 2, y, drawWidth, drawHeight);
+    return drawHeight;
+  } catch (error) {
+    console.warn('⚠️ Could not add slide image to handout:', error);
+    return drawPlaceholder(doc, x, y, maxWidth, maxHeight * 0.6);
+  }
+}
+
+function drawPlaceholder(doc: jsPDF, x: number, y: number, width: number, height: number): number {
+  doc.setDrawColor(200);
+  doc.rect(x, y, width, height);
+  doc.setFontSize(10);
+  doc.setTextColor(150);
+  doc.text('Slide image unavailable', x + width / 2, y + height / 2, { align: 'center' });
+  doc.setTextColor(0);
+  return height;
+}
+
+function writeSlideDetails(writer: PdfWriter, slide: Slide, options: HandoutOptions) {
+  // Only the spoken words - no emphasis marks, directives or private comments
+  writer.label('Script');
+  writer.paragraph(getSpokenText(parseSlideScript(slide.script || '')).trim() || '(No script)');
+
+  if (options.includeNotes !== false && slide.notes?.trim()) {
+    writer.label('Notes');
+    writer.paragraph(slide.notes.trim());
+  }
+
+  const guide = slide.guide;
+  if (options.includeGuide !== false && guide) {
+    if (guide.transitionFrom) {
+      writer.label('From previous');
+      writer.paragraph(guide.transitionFrom, { italic: true });
+    }
+    if (guide.keyMessages?.length) {
+      writer.label('Key messages');
+      writer.bullets(guide.keyMessages);
+    }
+    if (guide.keyConcepts?.length) {
+      writer.label('Key concepts');
+      writer.paragraph(guide.keyConcepts.join(' • '));
+    }
+    if (guide.transitionTo) {
+      writer.label('To next');
+      writer.paragraph(guide.transitionTo, { italic: true });
+    }
+  }
+}
+
+function renderNotesPages(doc: jsPDF, slides: Slide[], images: Record<string, string>, options: HandoutOptions) {
+  const writer = new PdfWriter(doc);
+
+  slides.forEach((slide, index) => {
+    if (index > 0) doc.addPage();
+    writer.y = MARGIN;
+
+    writer.heading(`Slide ${slide.number}`);
+
+    const imageUrl = images[slide.id];
+    const imageHeight = imageUrl
+      ? drawImageFit(doc, imageUrl, MARGIN, writer.y, CONTENT_WIDTH, 300)
+      : drawPlaceholder(doc, MARGIN, writer.y, CONTENT_WIDTH, 200);
+    writer.y += imageHeight + 16;
+
+    writeSlideDetails(writer, slide, options);
+  });
+}
+
+function renderThreePerPage(doc: jsPDF, slides: Slide[], images: Record<string, string>) {
+  const rowHeight = (PAGE_HEIGHT - MARGIN * 2) / 3;
+  const imageWidth = CONTENT_WIDTH * 0.48;
+  const linesX = MARGIN + imageWidth + 20;
+
+  slides.forEach((slide, index) => {
+    const row = index % 3;
+    if (index > 0 && row === 0) doc.addPage();
+
+    const top = MARGIN + row * rowHeight;
+    const imageUrl = images[slide.id];
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(10);
+    doc.text(`Slide ${slide.number}`, MARGIN, top + 10);
+
+    if (imageUrl) {
+      drawImageFit(doc, imageUrl, MARGIN, top + 16, imageWidth, rowHeight - 36);
+    } else {
+      drawPlaceholder(doc, MARGIN, top + 16, imageWidth, (rowHeight - 36) * 0.75);
+    }
+
+    // Ruled lines for handwritten notes
+    doc.setDrawColor(190);
+    for (let lineY = top + 32; lineY < top + rowHeight - 16; lineY += 22) {
+      doc.line(linesX, lineY, PAGE_WIDTH - MARGIN, lineY);
+    }
+  });
+}
+
+function renderScriptOnly(doc: jsPDF, presentation: Presentation, slides: Slide[], options: HandoutOptions) {
+  const writer = new PdfWriter(doc);
+  writer.heading(presentation.title, 18);
+
+  slides.forEach(slide => {
+    writer.y += 8;
+    writer.heading(`Slide ${slide.number}`, 13);
+    writeSlideDetails(writer, slide, options);
+  });
+}
+
+/**
+ * Build the handout PDF
+ * @param presentation - Presentation to export
+ * @param slides - Slides to include, in order (defaults to all slides)
+ */
+export async function createHandoutPdf(
+  presentation: Presentation,
+  options: HandoutOptions,
+  slides: Slide[] = presentation.slides
+): Promise<Blob> {
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'pt', format: 'a4' });
+  doc.setProperties({ title: presentation.title });
+
+  // Images are usually in memory; fall back to IndexedDB after a reload
+  const storedImages = options.layout === 'script-only' ? {} : await loadPresentationImages(presentation.id);
+  const images: Record<string, string> = {};
+  slides.forEach(slide => {
+    const imageUrl = slide.imageUrl || storedImages[slide.id];
+    if (imageUrl) images[slide.id] = imageUrl;
+  });
+
+  switch (options.layout) {
+    case 'notes-page':
+      renderNotesPages(doc, slides, images, options);
+      break;
+    case 'three-per-page':
+      renderThreePerPage(doc, slides, images);
+      break;
+    case 'script-only':
+      renderScriptOnly(doc, presentation, slides, options);
+      break;
+  }
+
+  return doc.output('blob');
+}
+
+/**
+ * Build the handout PDF and download it
+ */
+export async function downloadHandoutPdf(
+  presentation: Presentation,
+  options: HandoutOptions,
+  slides?: Slide[]
+): Promise<void> {
+  const blob = await createHandoutPdf(presentation, options, slides);
+  const safeTitle = presentation.title.replace(/[^\w\s-]+/g, '').trim() || 'presentation';
+  saveAs(blob, `${safeTitle} - ${options.layout}.pdf`);
+  console.log(`🖨️ Exported ${options.layout} handout for ${safeTitle}`);
+}
@@ -0,0 +1,259 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { usePresentationStore } from '../../../core/store/presentation';
+import { loadFlashcardReviews, saveFlashcardReview } from '../../../services/flashcardReviews';
+import { generateFlashcards, type Flashcard } from '../utils/flashcards';
+import { reviewCard, isDue, type ReviewQuality } from '../utils/sm2';
+import { useKeyBindings } from '../../keyboard/hooks/useKeyBindings';
+import type { FlashcardReview } from '../../../core/types';
+import { Card, CardContent } from '../../../components/ui/card';
+import { Button } from '../../../components/ui/button';
+import { Badge } from '../../../components/ui/badge';
+import { ChevronLeft, GraduationCap, RotateCcw } from 'lucide-react';
+
+interface FlashcardStudyViewProps {
+  onBack: () => void;
+}
+
+const NEW_CARDS_PER_SESSION = 20;
+
+const GRADES: { quality: ReviewQuality; label: string; key: string; className: string }[] = [
+  { quality: 1, label: 'Again', key: '1', className: 'border-red-200 text-red-700 hover:bg-red-50' },
+  { quality: 3, label: 'Hard', key: '2', className: 'border-amber-200 text-amber-700 hover:bg-amber-50' },
+  { quality: 4, label: 'Good', key: '3', className: 'border-green-200 text-green-700 hover:bg-green-50' },
+  { quality: 5, label: 'Easy', key: '4', className: 'border-blue-200 text-blue-700 hover:bg-blue-50' }
+];
+
+/**
+ * Flashcard study screen
+ * Reviews cards generated from the presenter guides on an SM-2 schedule,
+ * so the deck can be recalled without notes
+ */
+export function FlashcardStudyView({ onBack }: FlashcardStudyViewProps) {
+  const { currentPresentation } = usePresentationStore();
+  const [reviews, setReviews] = useState<Record<string, FlashcardReview>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [queue, setQueue] = useState<string[]>([]);
+  const [isAnswerShown, setIsAnswerShown] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  const presentationId = currentPresentation?.id;
+  const slides = currentPresentation?.slides;
+  const cards = useMemo(() => generateFlashcards(slides || []), [slides]);
+  const cardsById = useMemo(() => new Map(cards.map(card => [card.id, card])), [cards]);
+
+  /**
+   * Due cards, most overdue first, then a batch of new ones
+   */
+  const buildQueue = useCallback((loadedReviews: Record<string, FlashcardReview>) => {
+    const now = new Date();
+    const dueCards = cards
+      .filter(card => loadedReviews[card.id] && isDue(loadedReviews[card.id], now))
+      .sort((a, b) => new Date(loadedReviews[a.id].dueAt).getTime() - new Date(loadedReviews[b.id].dueAt).getTime());
+    const newCards = cards
+      .filter(card => !loadedReviews[card.id])
+      .slice(0, NEW_CARDS_PER_SESSION);
+
+    return [...dueCards, ...newCards].map(card => card.id);
+  }, [cards]);
+
+  useEffect(() => {
+    if (!presentationId) return;
+    let isCancelled = false;
+    setIsLoading(true);
+
+    loadFlashcardReviews(presentationId).then(loaded => {
+      if (isCancelled) return;
+      setReviews(loaded);
+      setQueue(buildQueue(loaded));
+      setIsLoading(false);
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [presentationId, buildQueue]);
+
+  const currentCard = queue.length > 0 ? cardsById.get(queue[0]) : undefined;
+
+  const grade = useCallback(async (quality: ReviewQuality) => {
+    if (!currentCard || !presentationId) return;
+
+    const updated = reviewCard(reviews[currentCard.id], quality, currentCard.id, presentationId);
+    setReviews(current => ({ ...current, [currentCard.id]: updated }));
+    // Forgotten cards come back at the end of this session
+    setQueue(current => quality < 3 ? [...current.slice(1), current[0]] : current.slice(1));
+    setIsAnswerShown(false);
+    setReviewedCount(count => count + 1);
+
+    try {
+      await saveFlashcardReview(updated);
+    } catch {
+      // Already logged - the schedule is kept for this session
+    }
+  }, [currentCard, presentationId, reviews]);
+
+  // Keyboard: space shows the answer, 1-4 grade it
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) {
+        return;
+      }
+
+      if (!currentCard) return;
+
+      if (!isAnswerShown && (event.key === ' ' || event.key === 'Enter')) {
+        event.preventDefault();
+        setIsAnswerShown(true);
+        return;
+      }
+
+      const option = GRADES.find(g => g.key === event.key);
+      if (isAnswerShown && option) {
+        event.preventDefault();
+        grade(option.quality);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [currentCard, isAnswerShown, grade]);
+
+  useKeyBindings({ exit: onBack });
+
+  if (!currentPresentation) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <p className="text-muted-foreground">No presentation loaded</p>
+      </div>
+    );
+  }
+
+  const now = new Date();
+  const learnedCount = cards.filter(card => reviews[card.id]).length;
+  const dueLaterReviews = cards
+    .map(card => reviews[card.id])
+    .filter((review): review is FlashcardReview => !!review && !isDue(review, now));
+  const nextDue = dueLaterReviews.length > 0
+    ? new Date(Math.min(...dueLaterReviews.map(review => new Date(review.dueAt).getTime())))
+    : null;
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4">
+        <Button variant="ghost" size="sm" onClick={onBack} className="min-h-[44px]">
+          <ChevronLeft className="w-4 h-4 mr-1" />
+          Back to Setup
+        </Button>
+        <div className="flex items-center gap-2 text-sm">
+          <Badge variant="secondary">{queue.length} to study</Badge>
+          <Badge variant="outline">{learnedCount} of {cards.length} learned</Badge>
+          {reviewedCount > 0 && <Badge variant="outline">{reviewedCount} reviewed</Badge>}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64 gap-2">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+          <p className="text-muted-foreground">Loading cards...</p>
+        </div>
+      ) : cards.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center space-y-2">
+            <GraduationCap className="w-10 h-10 text-gray-400 mx-auto" />
+            <p className="font-medium">No flashcards yet</p>
+            <p className="text-sm text-muted-foreground">Add scripts to your slides - cards are built from each slide's key messages and concepts.</p>
+          </CardContent>
+        </Card>
+      ) : !currentCard ? (
+        <Card>
+          <CardContent className="p-8 text-center space-y-3">
+            <GraduationCap className="w-10 h-10 text-green-500 mx-auto" />
+            <p className="font-medium">All caught up</p>
+            <p className="text-sm text-muted-foreground">
+              {nextDue
+                ? `Next review ${nextDue.toLocaleDateString()} at ${nextDue.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+                : 'Come back later for more reviews'}
+            </p>
+            <Button variant="outline" size="sm" onClick={() => setQueue(cards.map(card => card.id))}>
+              <RotateCcw className="w-4 h-4 mr-1" />
+              Review all cards anyway
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card className="overflow-hidden">
+          <CardContent className="p-6 space-y-6">
+            <FlashcardFront card={currentCard} imageUrl={currentPresentation.slides[currentCard.slideIndex]?.imageUrl} />
+
+            {isAnswerShown ? (
+              <>
+                <FlashcardAnswer card={currentCard} imageUrl={currentPresentation.slides[currentCard.slideIndex]?.imageUrl} />
+                <div className="grid grid-cols-4 gap-2 pt-4 border-t">
+                  {GRADES.map(option => (
+                    <Button
+                      key={option.quality}
+                      variant="outline"
+                      onClick={() => grade(option.quality)}
+                      className={option.className}
+                    >
+                      {option.label}
+                      <span className="ml-2 text-xs opacity-60">{option.key}</span>
+                    </Button>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <Button className="w-full min-h-[48px]" onClick={() => setIsAnswerShown(true)}>
+                Show answer
+                <span className="ml-2 text-xs opacity-70">Space</span>
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+function FlashcardFront({ card, imageUrl }: { card: Flashcard; imageUrl?: string }) {
+  return (
+    <div className="space-y-4 text-center">
+      {card.kind === 'slide-messages' ? (
+        imageUrl ? (
+          <img src={imageUrl} alt="Slide" className="max-h-[45vh] mx-auto rounded border object-contain" />
+        ) : (
+          <div className="h-48 rounded border bg-gray-100 flex items-center justify-center text-gray-500">
+            Slide {card.slideIndex + 1}
+          </div>
+        )
+      ) : (
+        <p className="text-3xl font-semibold text-gray-800 py-8">{card.concept}</p>
+      )}
+      <p className="text-sm text-muted-foreground">{card.prompt}</p>
+    </div>
+  );
+}
+
+function FlashcardAnswer({ card, imageUrl }: { card: Flashcard; imageUrl?: string }) {
+  return (
+    <div className="rounded-lg bg-blue-50/60 border border-blue-100 p-4 space-y-3">
+      {card.kind === 'concept-slide' && (
+        <div className="flex items-center gap-3">
+          {imageUrl && <img src={imageUrl} alt="Slide" className="w-24 rounded border object-contain" />}
+          <Badge variant="secondary">Slide {card.slideIndex + 1}</Badge>
+        </div>
+      )}
+      <ul className="space-y-2">
+        {card.keyMessages.map((message, index) => (
+          <li key={index} className="flex items-start gap-2 text-sm leading-relaxed">
+            <span className="w-1.5 h-1.5 bg-blue-500 rounded-full flex-shrink-0 mt-2"></span>
+            <span>{message}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import type { Slide } from '../../../core/types';
+import { getSlideGuide, stripMarkdown } from '../../practice/utils/script-processor';
+import { tokenize } from '../../script/utils/slide-text-matching';
+
+/**
+ * Flashcards generated from the presenter guides
+ * - slide -> key messages: see the slide, recall what it is there to say
+ * - concept -> slide: see a key concept, recall where it comes up and what you say
+ *
+ * Card ids are derived from slide ids and concept text so review schedules
+ * survive regenerating the cards.
+ */
+
+export type FlashcardKind = 'slide-messages' | 'concept-slide';
+
+export interface Flashcard {
+  id: string;
+  kind: FlashcardKind;
+  slideId: string;
+  slideIndex: number;
+  prompt: string;        // Question shown on the front
+  concept?: string;      // Front text for concept cards
+  keyMessages: string[]; // Answer
+}
+
+/**
+ * Build the deck's flashcards
+ * @param slides - Slides in order
+ */
+export function generateFlashcards(slides: Slide[]): Flashcard[] {
+  const cards: Flashcard[] = [];
+  const seenConcepts = new Set<string>();
+
+  slides.forEach((slide, slideIndex) => {
+    const guide = getSlideGuide(slides, slideIndex);
+    if (!guide) return;
+
+    const keyMessages = guide.keyMessages.map(stripMarkdown).filter(Boolean);
+    if (keyMessages.length === 0) return;
+
+    cards.push({
+      id: `${slide.id}:messages`,
+      kind: 'slide-messages',
+      slideId: slide.id,
+      slideIndex,
+      prompt: 'What are the key messages of this slide?',
+      keyMessages
+    });
+
+    guide.keyConcepts.map(stripMarkdown).forEach(concept => {
+      const key = concept.toLowerCase();
+      // A concept repeated on later slides is asked about where it first appears;
+      // bare function words ("We", "This") make no useful card
+      if (tokenize(concept).length === 0 || seenConcepts.has(key)) return;
+      seenConcepts.add(key);
+
+      cards.push({
+        id: `${slide.id}:concept:${key}`,
+        kind: 'concept-slide',
+        slideId: slide.id,
+        slideIndex,
+        prompt: 'Which slide is this on, and what do you say about it?',
+        concept,
+        keyMessages
+      });
+    });
+  });
+
+  return cards;
+}
@@ -0,0 +1,67 @@
+import type { FlashcardReview } from '../../../core/types';
+
+/**
+ * SM-2 spaced repetition
+ * Quality 0-5: below 3 is a lapse and the card starts over; otherwise the
+ * interval grows 1 day -> 6 days -> previous interval x ease factor
+ */
+
+export const DEFAULT_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+/**
+ * Schedule a card after a review
+ * @param previous - Schedule before this review (undefined for a new card)
+ * @param quality - How well the answer was recalled (0-5)
+ * @param cardId - Card being reviewed
+ * @param presentationId - Presentation the card belongs to
+ */
+export function reviewCard(
+  previous: FlashcardReview | undefined,
+  quality: ReviewQuality,
+  cardId: string,
+  presentationId: string,
+  now: Date = new Date()
+): FlashcardReview {
+  const easeFactor = previous?.easeFactor ?? DEFAULT_EASE_FACTOR;
+  const repetitions = previous?.repetitions ?? 0;
+  const intervalDays = previous?.intervalDays ?? 0;
+
+  const isLapse = quality < 3;
+  const nextRepetitions = isLapse ? 0 : repetitions + 1;
+
+  let nextInterval: number;
+  if (isLapse || nextRepetitions === 1) {
+    nextInterval = 1;
+  } else if (nextRepetitions === 2) {
+    nextInterval = 6;
+  } else {
+    nextInterval = Math.round(intervalDays * easeFactor);
+  }
+
+  const nextEase = Math.max(
+    MIN_EASE_FACTOR,
+    easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  return {
+    id: cardId,
+    presentationId,
+    easeFactor: Math.round(nextEase * 100) / 100,
+    intervalDays: nextInterval,
+    repetitions: nextRepetitions,
+    lapses: (previous?.lapses ?? 0) + (isLapse && previous ? 1 : 0),
+    dueAt: new Date(now.getTime() + nextInterval * DAY_MS),
+    lastReviewedAt: now
+  };
+}
+
+/**
+ * Whether a card should be studied now
+ */
+export function isDue(review: FlashcardReview | undefined, now: Date = new Date()): boolean {
+  return !review || new Date(review.dueAt).getTime() <= now.getTime();
+}
@@ -0,0 +1,61 @@
+import { useMemo } from 'react';
+import { countDiffWords, diffWords, type WordDiffPart } from '../utils/word-diff';
+
+interface ScriptDiffViewProps {
+  before: string;
+  after: string;
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+/**
+ * Side-by-side word diff of two scripts
+ * Removed words are struck through on the left, added words highlighted on the right
+ */
+export function ScriptDiffView({ before, after, beforeLabel, afterLabel }: ScriptDiffViewProps) {
+  const parts = useMemo(() => diffWords(before, after), [before, after]);
+  const stats = countDiffWords(parts);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-500">
+        {stats.added === 0 && stats.removed === 0
+          ? 'No word changes'
+          : `${stats.removed} words removed, ${stats.added} added`}
+      </p>
+      <div className="grid md:grid-cols-2 gap-3">
+        <DiffColumn label={beforeLabel} parts={parts} hiddenType="added" />
+        <DiffColumn label={afterLabel} parts={parts} hiddenType="removed" />
+      </div>
+    </div>
+  );
+}
+
+function DiffColumn({ label, parts, hiddenType }: {
+  label: string;
+  parts: WordDiffPart[];
+  hiddenType: 'added' | 'removed';  // Belongs to the other side
+}) {
+  const visibleParts = parts.filter(part => part.type !== hiddenType);
+
+  return (
+    <div className="rounded-md border bg-white">
+      <p className="px-3 py-1.5 border-b text-xs font-medium uppercase tracking-wide text-muted-foreground">{label}</p>
+      <div className="p-3 max-h-80 overflow-y-auto text-sm leading-relaxed whitespace-pre-wrap">
+        {visibleParts.length === 0 ? (
+          <span className="italic text-gray-400">Empty</span>
+        ) : visibleParts.map((part, index) => (
+          <span
+            key={index}
+            className={
+              part.type === 'removed' ? 'bg-red-100 text-red-800 line-through' :
+              part.type === 'added' ? 'bg-green-100 text-green-800' : undefined
+            }
+          >
+            {part.text}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useEffect, useState } from 'react';
+import { usePresentationStore } from '../../../core/store/presentation';
+import { loadSlideRevisions } from '../../../services/scriptHistory';
+import { SCRIPT_SOURCE_LABELS } from '../utils/script-history';
+import { countWords } from '../../practice/utils/script-processor';
+import { ScriptDiffView } from './ScriptDiffView';
+import type { ScriptRevision } from '../../../core/types';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../../../components/ui/dialog';
+import { Button } from '../../../components/ui/button';
+import { Badge } from '../../../components/ui/badge';
+import { useToast } from '../../../hooks/use-toast';
+import { RotateCcw } from 'lucide-react';
+
+interface ScriptHistoryDialogProps {
+  slideId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Revision log of one slide script
+ * Pick a version to compare it with the current script (or the version
+ * before it) and restore it in one click
+ */
+export function ScriptHistoryDialog({ slideId, open, onOpenChange }: ScriptHistoryDialogProps) {
+  const { currentPresentation, restoreScriptRevision } = usePresentationStore();
+  const { toast } = useToast();
+  const [revisions, setRevisions] = useState<ScriptRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareWith, setCompareWith] = useState<'current' | 'previous'>('current');
+  const [reloadCount, setReloadCount] = useState(0);
+
+  const presentationId = currentPresentation?.id;
+  const slideIndex = currentPresentation?.slides.findIndex(slide => slide.id === slideId) ?? -1;
+  const currentScript = currentPresentation?.slides[slideIndex]?.script || '';
+
+  // Reload when opened and after a restore
+  useEffect(() => {
+    if (!open || !presentationId) return;
+    let isCancelled = false;
+
+    loadSlideRevisions(presentationId, slideId).then(loaded => {
+      if (!isCancelled) setRevisions(loaded);
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [open, presentationId, slideId, reloadCount]);
+
+  const selectedIndex = Math.max(0, revisions.findIndex(revision => revision.id === selectedId));
+  const selected = revisions[selectedIndex];
+  const previous = revisions[selectedIndex + 1];
+
+  const handleRestore = async (revision: ScriptRevision) => {
+    await restoreScriptRevision(revision);
+    setSelectedId(null);
+    setReloadCount(count => count + 1);
+    toast({
+      title: '⏪ Script restored',
+      description: `Slide ${slideIndex + 1} is back to the version from ${new Date(revision.createdAt).toLocaleString()}.`
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Slide {slideIndex + 1} Script History</DialogTitle>
+          <DialogDescription>Every saved version of this slide's script, newest first</DialogDescription>
+        </DialogHeader>
+
+        {revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">
+            No earlier versions yet - changes are recorded from the next edit on
+          </p>
+        ) : (
+          <div className="grid md:grid-cols-4 gap-4">
+            {/* Revision list */}
+            <div className="space-y-1 max-h-[60vh] overflow-y-auto">
+              {revisions.map(revision => (
+                <button
+                  key={revision.id}
+                  onClick={() => setSelectedId(revision.id)}
+                  className={`w-full text-left rounded-md border p-2 transition-colors ${
+                    revision.id === selected?.id ? 'border-blue-400 bg-blue-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <p className="text-xs font-medium">{new Date(revision.createdAt).toLocaleString()}</p>
+                  <div className="flex items-center gap-2 mt-1">
+                    <Badge variant="secondary" className="text-xs">{SCRIPT_SOURCE_LABELS[revision.source]}</Badge>
+                    <span className="text-xs text-gray-500">{countWords(revision.script)} words</span>
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            {/* Diff */}
+            {selected && (
+              <div className="md:col-span-3 space-y-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm text-gray-600">Compare with</span>
+                  <Button
+                    size="sm"
+                    variant={compareWith === 'current' ? 'default' : 'outline'}
+                    onClick={() => setCompareWith('current')}
+                  >
+                    Current script
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant={compareWith === 'previous' ? 'default' : 'outline'}
+                    onClick={() => setCompareWith('previous')}
+                    disabled={!previous}
+                  >
+                    Version before
+                  </Button>
+                  <Button
+                    size="sm"
+                    className="ml-auto"
+                    onClick={() => handleRestore(selected)}
+                    disabled={selected.script === currentScript}
+                  >
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    Restore this version
+                  </Button>
+                </div>
+
+                {compareWith === 'previous' && previous ? (
+                  <ScriptDiffView
+                    before={previous.script}
+                    after={selected.script}
+                    beforeLabel="Version before"
+                    afterLabel="Selected version"
+                  />
+                ) : (
+                  <ScriptDiffView
+                    before={selected.script}
+                    after={currentScript}
+                    beforeLabel="Selected version"
+                    afterLabel="Current script"
+                  />
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,181 @@
+import { useEffect, useState } from 'react';
+import { usePresentationStore } from '../../../core/store/presentation';
+import { loadDeckSnapshots } from '../../../services/scriptHistory';
+import { formatGuideText } from '../utils/script-history';
+import { ScriptDiffView } from './ScriptDiffView';
+import type { DeckSnapshot } from '../../../core/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../../components/ui/card';
+import { Button } from '../../../components/ui/button';
+import { Input } from '../../../components/ui/input';
+import { Label } from '../../../components/ui/label';
+import { Badge } from '../../../components/ui/badge';
+import { useToast } from '../../../hooks/use-toast';
+import { ChevronDown, ChevronRight, History, RotateCcw } from 'lucide-react';
+
+/**
+ * Script history
+ * Whole-deck snapshots taken before bulk operations, with the slides each
+ * one would change, and the history size limit. Each slide's own revisions
+ * open from its script editor.
+ */
+export function ScriptHistoryPanel() {
+  const {
+    currentPresentation,
+    scriptHistoryLimitMb,
+    setScriptHistoryLimit,
+    restoreDeckSnapshot
+  } = usePresentationStore();
+  const { toast } = useToast();
+  const [snapshots, setSnapshots] = useState<DeckSnapshot[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const presentationId = currentPresentation?.id;
+  const fullScript = currentPresentation?.fullScript;
+
+  // Snapshots are taken alongside script changes - reload after them
+  useEffect(() => {
+    if (!presentationId) return;
+    let isCancelled = false;
+
+    loadDeckSnapshots(presentationId).then(loaded => {
+      if (!isCancelled) setSnapshots(loaded);
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [presentationId, fullScript]);
+
+  if (!currentPresentation || currentPresentation.slides.length === 0) {
+    return null;
+  }
+
+  const slides = currentPresentation.slides;
+
+  // Scripts, plus notes and guides for snapshots that keep them
+  const changedSlides = (snapshot: DeckSnapshot) => slides.flatMap((slide, index) => {
+    const texts = [
+      { label: 'Script', before: snapshot.scripts[slide.id], after: slide.script || '' },
+      { label: 'Notes', before: snapshot.notes?.[slide.id], after: slide.notes || '' },
+      {
+        label: 'Guide',
+        before: snapshot.guides && slide.id in snapshot.guides ? formatGuideText(snapshot.guides[slide.id]) : undefined,
+        after: formatGuideText(slide.guide)
+      }
+    ];
+    const changed = texts.flatMap(({ label, before, after }) =>
+      before !== undefined && before !== after ? [{ label, before, after }] : []
+    );
+    return changed.length > 0 ? [{ slide, index, changed }] : [];
+  });
+
+  const handleRestore = async (snapshot: DeckSnapshot) => {
+    restoreDeckSnapshot(snapshot);
+    setExpandedId(null);
+    toast({
+      title: '⏪ Scripts restored',
+      description: `Slides are back to ${new Date(snapshot.createdAt).toLocaleString()}. What they replaced was saved as a snapshot.`
+    });
+    setSnapshots(await loadDeckSnapshots(snapshot.presentationId));
+  };
+
+  const handleLimitChange = (value: string) => {
+    const limitMb = parseFloat(value);
+    if (Number.isFinite(limitMb) && limitMb > 0) setScriptHistoryLimit(limitMb);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="w-5 h-5 text-gray-600" />
+          Script History
+        </CardTitle>
+        <CardDescription>Earlier versions of your scripts - compare and restore them</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="history-limit">History size limit (MB)</Label>
+            <Input
+              id="history-limit"
+              type="number"
+              min={0.5}
+              step={0.5}
+              defaultValue={scriptHistoryLimitMb}
+              onBlur={(e) => handleLimitChange(e.target.value)}
+              className="w-28"
+            />
+          </div>
+          <p className="text-xs text-gray-500 max-w-sm">
+            The oldest versions are removed beyond this size. The latest version of each slide is always kept.
+            Open a slide's own versions from History in its script editor.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Deck snapshots</p>
+          {snapshots.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              A snapshot of every slide script is taken before the full script is split, find and replace, or other bulk changes
+            </p>
+          ) : (
+            <div className="divide-y">
+              {snapshots.map(snapshot => {
+                const changes = changedSlides(snapshot);
+                const isExpanded = expandedId === snapshot.id;
+
+                return (
+                  <div key={snapshot.id} className="py-2 space-y-2">
+                    <div className="flex flex-wrap items-center gap-3">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setExpandedId(isExpanded ? null : snapshot.id)}
+                        disabled={changes.length === 0}
+                        title="Show the differences"
+                      >
+                        {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                      </Button>
+                      <div>
+                        <p className="text-sm font-medium">{snapshot.reason}</p>
+                        <p className="text-xs text-gray-500">{new Date(snapshot.createdAt).toLocaleString()}</p>
+                      </div>
+                      <Badge variant={changes.length > 0 ? 'secondary' : 'outline'} className="text-xs">
+                        {changes.length > 0 ? `${changes.length} slides differ` : 'Same as now'}
+                      </Badge>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="ml-auto"
+                        onClick={() => handleRestore(snapshot)}
+                        disabled={changes.length === 0}
+                      >
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        Restore
+                      </Button>
+                    </div>
+
+                    {isExpanded && changes.map(({ slide, index, changed }) => changed.map(text => (
+                      <div key={`${slide.id}-${text.label}`} className="ml-10 space-y-1">
+                        <p className="text-xs font-medium text-gray-600">
+                          Slide {index + 1}{text.label !== 'Script' && ` - ${text.label}`}
+                        </p>
+                        <ScriptDiffView
+                          before={text.before}
+                          after={text.after}
+                          beforeLabel="Snapshot"
+                          afterLabel={`Current ${text.label.toLowerCase()}`}
+                        />
+                      </div>
+                    )))}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,131 @@
+import type { DeckSnapshot, Presentation, ScriptRevision, ScriptRevisionSource } from '../../../core/types';
+import type { ContentGuide } from '../../practice/utils/script-processor';
+
+/**
+ * Script history
+ * Every saved change to a slide script is appended to that slide's revision
+ * log, and bulk operations first snapshot the scripts of the whole deck.
+ * History is kept in IndexedDB and pruned, oldest first, to a size limit.
+ */
+
+export const DEFAULT_HISTORY_LIMIT_MB = 5;
+
+export const SCRIPT_SOURCE_LABELS: Record<ScriptRevisionSource, string> = {
+  original: 'Original',
+  setup: 'Setup edit',
+  practice: 'Practice edit',
+  ai: 'AI',
+  'bulk-split': 'Script split',
+  replace: 'Find and replace',
+  restore: 'Restored'
+};
+
+let nextHistoryNumber = 0;
+
+function createHistoryId(prefix: string): string {
+  nextHistoryNumber += 1;
+  return `${prefix}-${Date.now()}-${nextHistoryNumber}`;
+}
+
+/**
+ * New revision of one slide's script
+ */
+export function createScriptRevision(
+  presentationId: string,
+  slideId: string,
+  script: string,
+  source: ScriptRevisionSource,
+  createdAt: Date = new Date()
+): ScriptRevision {
+  return { id: createHistoryId('revision'), presentationId, slideId, script, source, createdAt };
+}
+
+/**
+ * Snapshot of every slide script, taken before a bulk operation
+ * @param reason - Operation about to run, shown in the history
+ * @param includeNotesAndGuides - Also keep notes and guides, for operations that edit them
+ */
+export function createDeckSnapshot(
+  presentation: Pick<Presentation, 'id' | 'slides' | 'fullScript'>,
+  reason: string,
+  includeNotesAndGuides = false
+): DeckSnapshot {
+  const scripts: Record<string, string> = {};
+  const notes: Record<string, string> = {};
+  const guides: Record<string, ContentGuide | null> = {};
+  presentation.slides.forEach(slide => {
+    scripts[slide.id] = slide.script || '';
+    notes[slide.id] = slide.notes || '';
+    guides[slide.id] = slide.guide ?? null;
+  });
+
+  return {
+    id: createHistoryId('snapshot'),
+    presentationId: presentation.id,
+    reason,
+    scripts,
+    ...(includeNotesAndGuides && { notes, guides }),
+    fullScript: presentation.fullScript,
+    createdAt: new Date()
+  };
+}
+
+/**
+ * A guide as plain text, one line per part, for comparing snapshots
+ */
+export function formatGuideText(guide: ContentGuide | null | undefined): string {
+  if (!guide) return '';
+  return [guide.transitionFrom, ...guide.keyMessages, ...guide.keyConcepts, guide.transitionTo]
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Approximate storage taken by a history entry (UTF-16 characters)
+ */
+export function estimateHistoryBytes(entry: ScriptRevision | DeckSnapshot): number {
+  const text = 'script' in entry
+    ? entry.script
+    : Object.values(entry.scripts).join('') +
+      Object.values(entry.notes ?? {}).join('') +
+      (entry.guides ? JSON.stringify(entry.guides) : '') +
+      (entry.fullScript ?? '');
+  return text.length * 2;
+}
+
+/**
+ * Oldest entries to delete so a presentation's history fits the limit
+ * The newest revision of each slide and the newest snapshot are always kept
+ */
+export function selectHistoryToPrune(
+  revisions: ScriptRevision[],
+  snapshots: DeckSnapshot[],
+  limitBytes: number
+): { revisionIds: string[]; snapshotIds: string[] } {
+  const byAge = (a: { createdAt: Date }, b: { createdAt: Date }) =>
+    new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+
+  const newestBySlide = new Map<string, string>();
+  [...revisions].sort(byAge).forEach(revision => newestBySlide.set(revision.slideId, revision.id));
+  const newestSnapshotId = [...snapshots].sort(byAge).pop()?.id;
+
+  let totalBytes = [...revisions, ...snapshots].reduce((sum, entry) => sum + estimateHistoryBytes(entry), 0);
+  const revisionIds: string[] = [];
+  const snapshotIds: string[] = [];
+
+  const candidates = [...revisions, ...snapshots].sort(byAge);
+  for (const entry of candidates) {
+    if (totalBytes <= limitBytes) break;
+
+    if ('script' in entry) {
+      if (newestBySlide.get(entry.slideId) === entry.id) continue;
+      revisionIds.push(entry.id);
+    } else {
+      if (entry.id === newestSnapshotId) continue;
+      snapshotIds.push(entry.id);
+    }
+    totalBytes -= estimateHistoryBytes(entry);
+  }
+
+  return { revisionIds, snapshotIds };
+}
@@ -0,0 +1,108 @@
+/**
+ * Word diff
+ * Compares two scripts word by word (longest common subsequence), ignoring
+ * changes in whitespace only
+ */
+
+export type WordDiffType = 'same' | 'added' | 'removed';
+
+export interface WordDiffPart {
+  type: WordDiffType;
+  text: string;   // Words with their trailing whitespace
+}
+
+export interface WordDiffStats {
+  added: number;
+  removed: number;
+}
+
+// Above this many comparisons the changed middle is shown as one replacement
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Split text into words, each keeping the whitespace that follows it
+ */
+function tokenize(text: string): string[] {
+  return text.match(/\s*\S+\s*/g) ?? [];
+}
+
+/**
+ * Word-level differences from `before` to `after`
+ * Consecutive words of the same kind are merged into one part
+ */
+export function diffWords(before: string, after: string): WordDiffPart[] {
+  const oldWords = tokenize(before);
+  const newWords = tokenize(after);
+  const same = (a: string, b: string) => a.trim() === b.trim();
+
+  // Unchanged start and end need no comparison table
+  let prefix = 0;
+  while (prefix < oldWords.length && prefix < newWords.length && same(oldWords[prefix], newWords[prefix])) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldWords.length - prefix &&
+    suffix < newWords.length - prefix &&
+    same(oldWords[oldWords.length - 1 - suffix], newWords[newWords.length - 1 - suffix])
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldWords.slice(prefix, oldWords.length - suffix);
+  const newMiddle = newWords.slice(prefix, newWords.length - suffix);
+  const parts: WordDiffPart[] = [];
+  const push = (type: WordDiffType, text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+
+  newWords.slice(0, prefix).forEach(word => push('same', word));
+
+  if (oldMiddle.length * newMiddle.length > MAX_DIFF_CELLS) {
+    oldMiddle.forEach(word => push('removed', word));
+    newMiddle.forEach(word => push('added', word));
+  } else {
+    // lengths[i][j] = common words in oldMiddle[i..] and newMiddle[j..]
+    const columns = newMiddle.length + 1;
+    const lengths = new Uint32Array((oldMiddle.length + 1) * columns);
+    for (let i = oldMiddle.length - 1; i >= 0; i--) {
+      for (let j = newMiddle.length - 1; j >= 0; j--) {
+        lengths[i * columns + j] = same(oldMiddle[i], newMiddle[j])
+          ? lengths[(i + 1) * columns + j + 1] + 1
+          : Math.max(lengths[(i + 1) * columns + j], lengths[i * columns + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < oldMiddle.length || j < newMiddle.length) {
+      if (i < oldMiddle.length && j < newMiddle.length && same(oldMiddle[i], newMiddle[j])) {
+        push('same', newMiddle[j]);
+        i++;
+        j++;
+      } else if (i < oldMiddle.length && (j === newMiddle.length || lengths[(i + 1) * columns + j] >= lengths[i * columns + j + 1])) {
+        push('removed', oldMiddle[i]);
+        i++;
+      } else {
+        push('added', newMiddle[j]);
+        j++;
+      }
+    }
+  }
+
+  newWords.slice(newWords.length - suffix).forEach(word => push('same', word));
+  return parts;
+}
+
+/**
+ * Words added and removed in a diff
+ */
+export function countDiffWords(parts: WordDiffPart[]): WordDiffStats {
+  const count = (type: WordDiffType) => parts
+    .filter(part => part.type === type)
+    .reduce((sum, part) => sum + tokenize(part.text).length, 0);
+
+  return { added: count('added'), removed: count('removed') };
+}
@@ -0,0 +1,10 @@
+/**
+ * A key as printed on the keyboard
+ */
+export function KeyBadge({ keyName }: { keyName: string }) {
+  return (
+    <kbd className="rounded border border-gray-300 bg-gray-50 px-1.5 py-0.5 font-mono text-xs text-gray-700 shadow-sm">
+      {keyName}
+    </kbd>
+  );
+}
@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import { usePresentationStore } from '../../../core/store/presentation';
+import {
+  KEY_ACTIONS,
+  KEY_ACTION_LABELS,
+  addKeyBinding,
+  formatKey,
+  isReservedKey,
+  MODIFIER_KEYS,
+  normalizeKey,
+  removeKeyBinding,
+  resolveKeyBindings
+} from '../utils/key-bindings';
+import type { KeyAction } from '../../../core/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../../components/ui/card';
+import { Button } from '../../../components/ui/button';
+import { Keyboard, Plus, RotateCcw, X } from 'lucide-react';
+import { KeyBadge } from './KeyBadge';
+
+/**
+ * Keyboard and clicker settings
+ * Each action lists its keys; "Add key" records the next key pressed, so a
+ * clicker's buttons can be mapped by pressing them
+ */
+export function KeyBindingsSettings() {
+  const { keyBindings, setKeyBindings } = usePresentationStore();
+  const [recordingAction, setRecordingAction] = useState<KeyAction | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const bindings = resolveKeyBindings(keyBindings);
+
+  // Record the next key press - captured before the keybinding service sees it
+  useEffect(() => {
+    if (!recordingAction) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // Wait for the key itself, e.g. the ? after Shift
+      if (MODIFIER_KEYS.includes(event.key)) return;
+      event.preventDefault();
+      event.stopPropagation();
+
+      if (isReservedKey(event.key)) {
+        setNotice(`${formatKey(event.key)} is reserved - numbers and Enter jump to a slide`);
+        return;
+      }
+
+      const current = resolveKeyBindings(usePresentationStore.getState().keyBindings);
+      const previousAction = KEY_ACTIONS.find(action => action !== recordingAction && current[action].includes(normalizeKey(event.key)));
+      setKeyBindings(addKeyBinding(current, recordingAction, event.key));
+      setNotice(previousAction ? `${formatKey(event.key)} was moved from "${KEY_ACTION_LABELS[previousAction]}"` : null);
+      setRecordingAction(null);
+    };
+
+    document.addEventListener('keydown', handleKeyDown, true);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown, true);
+    };
+  }, [recordingAction, setKeyBindings]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Keyboard className="w-5 h-5 text-gray-600" />
+          Keyboard &amp; Clicker
+        </CardTitle>
+        <CardDescription>
+          Keys used in practice, the teleprompter and delivery. Press ? on any screen to see them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="divide-y text-sm">
+          {KEY_ACTIONS.map(action => (
+            <div key={action} className="flex items-center justify-between gap-4 py-2">
+              <span>{KEY_ACTION_LABELS[action]}</span>
+              <div className="flex flex-wrap items-center justify-end gap-1">
+                {bindings[action].map(key => (
+                  <span key={key} className="inline-flex items-center">
+                    <KeyBadge keyName={formatKey(key)} />
+                    <button
+                      type="button"
+                      onClick={() => setKeyBindings(removeKeyBinding(bindings, action, key))}
+                      className="ml-0.5 text-gray-400 hover:text-red-600"
+                      title={`Remove ${formatKey(key)}`}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+                <Button
+                  variant={recordingAction === action ? 'default' : 'ghost'}
+                  size="sm"
+                  onClick={() => {
+                    setNotice(null);
+                    setRecordingAction(recordingAction === action ? null : action);
+                  }}
+                  className="h-7 text-xs"
+                >
+                  {recordingAction === action ? 'Press a key…' : <><Plus className="w-3 h-3 mr-1" />Add key</>}
+                </Button>
+              </div>
+            </div>
+          ))}
+          <div className="flex items-center justify-between gap-4 py-2 text-muted-foreground">
+            <span>Jump to slide</span>
+            <span className="flex gap-1">
+              <KeyBadge keyName="Number" />
+              <KeyBadge keyName="Enter" />
+            </span>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-xs text-muted-foreground">{notice}</p>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setKeyBindings(null);
+              setNotice(null);
+            }}
+            disabled={keyBindings === null}
+          >
+            <RotateCcw className="w-4 h-4 mr-1" />
+            Reset to defaults
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
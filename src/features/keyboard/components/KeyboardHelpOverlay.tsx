@@ -0,0 +1,57 @@
+import { useState } from 'react';
+import { usePresentationStore } from '../../../core/store/presentation';
+import { useKeyBindings } from '../hooks/useKeyBindings';
+import { getActiveKeyActions } from '../services/keybinding-service';
+import { KEY_ACTIONS, KEY_ACTION_LABELS, formatKey, resolveKeyBindings } from '../utils/key-bindings';
+import type { KeyAction } from '../../../core/types';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../../../components/ui/dialog';
+import { KeyBadge } from './KeyBadge';
+
+/**
+ * Keyboard shortcut overlay
+ * Opened with the help key from any screen; lists the bindings the
+ * current screen responds to
+ */
+export function KeyboardHelpOverlay() {
+  const { keyBindings } = usePresentationStore();
+  const [active, setActive] = useState<{ actions: KeyAction[]; canJumpToSlide: boolean } | null>(null);
+
+  useKeyBindings({
+    showHelp: () => setActive(getActiveKeyActions())
+  });
+
+  const bindings = resolveKeyBindings(keyBindings);
+  const actions = KEY_ACTIONS.filter(action => active?.actions.includes(action));
+
+  return (
+    <Dialog open={active !== null} onOpenChange={(open) => !open && setActive(null)}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Keyboard Shortcuts</DialogTitle>
+          <DialogDescription>Keys and clicker buttons for this screen. Change them in Setup under Keyboard &amp; Clicker.</DialogDescription>
+        </DialogHeader>
+        <div className="divide-y text-sm">
+          {actions.map(action => (
+            <div key={action} className="flex items-center justify-between gap-4 py-2">
+              <span>{KEY_ACTION_LABELS[action]}</span>
+              <span className="flex flex-wrap justify-end gap-1">
+                {bindings[action].length > 0
+                  ? bindings[action].map(key => <KeyBadge key={key} keyName={formatKey(key)} />)
+                  : <span className="text-xs text-gray-400">Not mapped</span>}
+              </span>
+            </div>
+          ))}
+          {active?.canJumpToSlide && (
+            <div className="flex items-center justify-between gap-4 py-2">
+              <span>Jump to slide</span>
+              <span className="flex gap-1">
+                <KeyBadge keyName="Number" />
+                <KeyBadge keyName="Enter" />
+              </span>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,25 @@
+import { useEffect, useRef } from 'react';
+import { registerKeyScope, type KeyScope } from '../services/keybinding-service';
+
+/**
+ * Handle mapped keyboard and clicker keys while the component is mounted
+ * Handlers can change every render - the latest ones are always used
+ * @param handlers - Actions this screen supports
+ * @param options.enabled - Off to stop listening without unmounting
+ * @param options.onJumpToSlide - Slide number typed then Enter
+ */
+export const useKeyBindings = (
+  handlers: KeyScope['handlers'],
+  { enabled = true, onJumpToSlide }: { enabled?: boolean; onJumpToSlide?: KeyScope['onJumpToSlide'] } = {}
+) => {
+  const scopeRef = useRef<KeyScope>({ handlers, onJumpToSlide });
+
+  useEffect(() => {
+    scopeRef.current = { handlers, onJumpToSlide };
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+    return registerKeyScope(() => scopeRef.current);
+  }, [enabled]);
+};
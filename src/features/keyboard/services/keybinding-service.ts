@@ -0,0 +1,110 @@
+import type { KeyAction } from '../../../core/types';
+import { usePresentationStore } from '../../../core/store/presentation';
+import { findKeyAction, resolveKeyBindings, JUMP_KEY } from '../utils/key-bindings';
+
+/**
+ * Keybinding service
+ * One document listener for every screen. Screens register a scope with
+ * handlers for the actions they support; a key goes to the most recently
+ * registered scope that handles its action, so two screens never both act
+ * on the same press.
+ */
+
+export interface KeyScope {
+  handlers: Partial<Record<KeyAction, () => void>>;
+  onJumpToSlide?: (slideIndex: number) => void;   // Slide number typed then Enter (0-based index)
+}
+
+const SLIDE_NUMBER_TIMEOUT = 2000;   // Digits older than this are forgotten
+
+const scopes: (() => KeyScope)[] = [];
+let slideNumber = '';
+let slideNumberTimer: ReturnType<typeof setTimeout> | null = null;
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  return target instanceof HTMLInputElement
+    || target instanceof HTMLTextAreaElement
+    || target instanceof HTMLSelectElement
+    || (target instanceof HTMLElement && target.isContentEditable);
+}
+
+function clearSlideNumber() {
+  slideNumber = '';
+  if (slideNumberTimer) {
+    clearTimeout(slideNumberTimer);
+    slideNumberTimer = null;
+  }
+}
+
+function handleKeyDown(event: KeyboardEvent) {
+  if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey) return;
+  if (isTypingTarget(event.target)) return;
+  // Open dialogs keep their own keys (Escape closes them)
+  if (event.target instanceof Element && event.target.closest('[role="dialog"]')) return;
+
+  const current = scopes.map(getScope => getScope()).reverse();
+
+  if (/^[0-9]$/.test(event.key)) {
+    slideNumber = (slideNumber + event.key).slice(-3);
+    if (slideNumberTimer) clearTimeout(slideNumberTimer);
+    slideNumberTimer = setTimeout(clearSlideNumber, SLIDE_NUMBER_TIMEOUT);
+    return;
+  }
+
+  if (event.key === JUMP_KEY && slideNumber) {
+    const target = parseInt(slideNumber, 10);
+    clearSlideNumber();
+    const scope = current.find(candidate => candidate.onJumpToSlide);
+    if (scope?.onJumpToSlide && target > 0) {
+      event.preventDefault();
+      scope.onJumpToSlide(target - 1);
+    }
+    return;
+  }
+  clearSlideNumber();
+
+  const action = findKeyAction(resolveKeyBindings(usePresentationStore.getState().keyBindings), event.key);
+  if (!action) return;
+
+  const handler = current.find(scope => scope.handlers[action])?.handlers[action];
+  if (handler) {
+    event.preventDefault();
+    handler();
+  }
+}
+
+/**
+ * Start receiving mapped key presses
+ * @param getScope - Returns the scope's current handlers on each press
+ * @returns Unregister function
+ */
+export function registerKeyScope(getScope: () => KeyScope): () => void {
+  if (scopes.length === 0) {
+    document.addEventListener('keydown', handleKeyDown);
+  }
+  scopes.push(getScope);
+
+  return () => {
+    const index = scopes.indexOf(getScope);
+    if (index !== -1) scopes.splice(index, 1);
+    if (scopes.length === 0) {
+      document.removeEventListener('keydown', handleKeyDown);
+      clearSlideNumber();
+    }
+  };
+}
+
+/**
+ * Actions some registered screen currently handles, and whether a slide
+ * number can be typed to jump
+ */
+export function getActiveKeyActions(): { actions: KeyAction[]; canJumpToSlide: boolean } {
+  const current = scopes.map(getScope => getScope());
+  const actions = new Set<KeyAction>();
+  current.forEach(scope => {
+    (Object.keys(scope.handlers) as KeyAction[]).forEach(action => {
+      if (scope.handlers[action]) actions.add(action);
+    });
+  });
+  return { actions: [...actions], canJumpToSlide: current.some(scope => scope.onJumpToSlide) };
+}
@@ -0,0 +1,116 @@
+import type { KeyAction, KeyBindings } from '../../../core/types';
+
+/**
+ * Keyboard and clicker mapping
+ * Presentation clickers send ordinary key presses - PageDown/PageUp to move,
+ * "b" or "." to black out the screen, F5/Escape to start and stop - so
+ * they are mapped the same way as the keyboard
+ */
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  nextSlide: ['ArrowRight', 'PageDown'],
+  previousSlide: ['ArrowLeft', 'PageUp'],
+  firstSlide: ['Home'],
+  lastSlide: ['End'],
+  blackout: ['b', '.'],
+  playPause: [' '],
+  scrollBack: ['ArrowUp'],
+  scrollForward: ['ArrowDown'],
+  exit: ['Escape'],
+  showHelp: ['?']
+};
+
+export const KEY_ACTION_LABELS: Record<KeyAction, string> = {
+  nextSlide: 'Next slide',
+  previousSlide: 'Previous slide',
+  firstSlide: 'First slide',
+  lastSlide: 'Last slide',
+  blackout: 'Black out the screen',
+  playPause: 'Play / pause the teleprompter',
+  scrollBack: 'Scroll the teleprompter back',
+  scrollForward: 'Scroll the teleprompter forward',
+  exit: 'Back to setup',
+  showHelp: 'Show keyboard shortcuts'
+};
+
+export const KEY_ACTIONS = Object.keys(DEFAULT_KEY_BINDINGS) as KeyAction[];
+
+/** Typing a slide number then pressing this key jumps to the slide */
+export const JUMP_KEY = 'Enter';
+
+export const MODIFIER_KEYS = ['Shift', 'Control', 'Alt', 'Meta'];
+
+const KEY_LABELS: Record<string, string> = {
+  ' ': 'Space',
+  ArrowRight: '→',
+  ArrowLeft: '←',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  PageDown: 'Page Down',
+  PageUp: 'Page Up',
+  Escape: 'Esc'
+};
+
+/**
+ * Key value used for matching - letters ignore case, old "Spacebar"/"Esc"
+ * names map to the standard ones
+ * @param key - KeyboardEvent.key
+ */
+export function normalizeKey(key: string): string {
+  if (key === 'Spacebar') return ' ';
+  if (key === 'Esc') return 'Escape';
+  return key.length === 1 ? key.toLowerCase() : key;
+}
+
+/**
+ * Readable name for a key
+ */
+export function formatKey(key: string): string {
+  return KEY_LABELS[key] || (key.length === 1 ? key.toUpperCase() : key);
+}
+
+/**
+ * Saved bindings over the defaults - actions added since they were saved
+ * get their default keys
+ * @param saved - Bindings from settings, null when never changed
+ */
+export function resolveKeyBindings(saved: KeyBindings | null): KeyBindings {
+  return { ...DEFAULT_KEY_BINDINGS, ...saved };
+}
+
+/**
+ * Action a key is bound to, if any
+ */
+export function findKeyAction(bindings: KeyBindings, key: string): KeyAction | undefined {
+  const normalized = normalizeKey(key);
+  return KEY_ACTIONS.find(action => bindings[action].includes(normalized));
+}
+
+/**
+ * Bind a key to an action - a key can only do one thing, so it is
+ * taken off any other action first
+ */
+export function addKeyBinding(bindings: KeyBindings, action: KeyAction, key: string): KeyBindings {
+  const normalized = normalizeKey(key);
+  const updated = { ...bindings };
+  KEY_ACTIONS.forEach(other => {
+    updated[other] = bindings[other].filter(existing => existing !== normalized);
+  });
+  updated[action] = [...updated[action], normalized];
+  return updated;
+}
+
+/**
+ * Unbind a key from an action
+ */
+export function removeKeyBinding(bindings: KeyBindings, action: KeyAction, key: string): KeyBindings {
+  return { ...bindings, [action]: bindings[action].filter(existing => existing !== key) };
+}
+
+/**
+ * Keys that cannot be rebound - digits and Enter jump to a slide,
+ * Tab moves focus
+ */
+export function isReservedKey(key: string): boolean {
+  return /^[0-9]$/.test(key) || key === JUMP_KEY || key === 'Tab' || MODIFIER_KEYS.includes(key);
+}
@@ -0,0 +1,268 @@
+import { useEffect, useRef, useState } from 'react';
+import { usePresentationStore } from '../../../core/store/presentation';
+import { loadSlideImage } from '../../../services/imageStorage';
+import type { PresentationSummary } from '../../../services/presentationLibrary';
+import { BUNDLE_FILE_EXTENSION } from '../../../services/presentationBundle';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../../components/ui/card';
+import { Button } from '../../../components/ui/button';
+import { Badge } from '../../../components/ui/badge';
+import { Input } from '../../../components/ui/input';
+import { useToast } from '../../../hooks/use-toast';
+import { Copy, FolderOpen, Pencil, Trash2, Check, X, Library, FileUp } from 'lucide-react';
+
+/**
+ * Library of stored presentations
+ * Lists every deck in IndexedDB with open, rename, duplicate and delete actions,
+ * plus import of exported bundle files
+ */
+export function PresentationLibrary() {
+  const {
+    library,
+    loadLibrary,
+    openPresentation,
+    renamePresentation,
+    duplicatePresentation,
+    deletePresentation,
+    importPresentation
+  } = usePresentationStore();
+  const { toast } = useToast();
+
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [pendingDelete, setPendingDelete] = useState<PresentationSummary | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    loadLibrary();
+  }, [loadLibrary]);
+
+  const handleImport = async (file: File) => {
+    setIsImporting(true);
+    try {
+      const { presentation, missingImages } = await importPresentation(file);
+      toast({
+        title: `📦 Imported "${presentation.title}"`,
+        description: missingImages.length > 0
+          ? `Images missing for slide${missingImages.length > 1 ? 's' : ''} ${missingImages.join(', ')}.`
+          : `${presentation.slides.length} slides restored.`
+      });
+    } catch (error) {
+      toast({
+        title: '❌ Import failed',
+        description: error instanceof Error ? error.message : 'The bundle could not be imported.'
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const importInput = (
+    <input
+      ref={fileInputRef}
+      type="file"
+      accept={`${BUNDLE_FILE_EXTENSION},.zip,application/zip`}
+      className="hidden"
+      onChange={(e) => {
+        const file = e.target.files?.[0];
+        if (file) handleImport(file);
+        e.target.value = '';
+      }}
+    />
+  );
+
+  const importButton = (
+    <Button
+      size="sm"
+      variant="outline"
+      disabled={isImporting}
+      onClick={() => fileInputRef.current?.click()}
+    >
+      <FileUp className="w-4 h-4 mr-1" />
+      {isImporting ? 'Importing...' : 'Import Bundle'}
+    </Button>
+  );
+
+  if (library.length === 0) {
+    return (
+      <div className="max-w-4xl mx-auto flex justify-end">
+        {importInput}
+        {importButton}
+      </div>
+    );
+  }
+
+  const handleRename = async (presentationId: string) => {
+    await renamePresentation(presentationId, renameValue);
+    setRenamingId(null);
+  };
+
+  const handleDuplicate = async (entry: PresentationSummary) => {
+    const newId = await duplicatePresentation(entry.id);
+    if (newId) {
+      toast({
+        title: '📋 Presentation duplicated',
+        description: `"${entry.title} (copy)" was added to your library.`
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    await deletePresentation(pendingDelete.id);
+    toast({
+      title: '🗑️ Presentation deleted',
+      description: `"${pendingDelete.title}" was removed from your library.`
+    });
+    setPendingDelete(null);
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto mb-12">
+      <div className="flex items-center gap-2 mb-4">
+        <Library className="w-5 h-5 text-gray-600" />
+        <h2 className="text-xl font-semibold text-gray-800">Your Presentations</h2>
+        <Badge variant="secondary">{library.length}</Badge>
+        <div className="ml-auto">
+          {importInput}
+          {importButton}
+        </div>
+      </div>
+
+      <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {library.map(entry => (
+          <Card key={entry.id} className="card-hover flex flex-col">
+            <LibraryThumbnail slideId={entry.thumbnailSlideId} title={entry.title} />
+            <CardHeader className="pb-2">
+              {renamingId === entry.id ? (
+                <div className="flex items-center gap-1">
+                  <Input
+                    value={renameValue}
+                    autoFocus
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRename(entry.id);
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                  />
+                  <Button size="sm" variant="ghost" onClick={() => handleRename(entry.id)} title="Save name">
+                    <Check className="w-4 h-4" />
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setRenamingId(null)} title="Cancel">
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              ) : (
+                <CardTitle className="text-base truncate" title={entry.title}>
+                  {entry.title}
+                </CardTitle>
+              )}
+              <CardDescription className="text-xs">
+                {entry.slideCount} slides • Updated {new Date(entry.updatedAt).toLocaleDateString()}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="mt-auto flex items-center gap-2">
+              <Button size="sm" className="flex-1" onClick={() => openPresentation(entry.id)}>
+                <FolderOpen className="w-4 h-4 mr-1" />
+                Open
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                title="Rename"
+                onClick={() => {
+                  setRenamingId(entry.id);
+                  setRenameValue(entry.title);
+                }}
+              >
+                <Pencil className="w-4 h-4" />
+              </Button>
+              <Button size="sm" variant="ghost" title="Duplicate" onClick={() => handleDuplicate(entry)}>
+                <Copy className="w-4 h-4" />
+              </Button>
+              <Button size="sm" variant="ghost" title="Delete" onClick={() => setPendingDelete(entry)}>
+                <Trash2 className="w-4 h-4 text-red-500" />
+              </Button>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Delete Confirmation Dialog */}
+      {pendingDelete && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          {/* Backdrop */}
+          <div
+            className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+            onClick={() => setPendingDelete(null)}
+          />
+
+          {/* Dialog */}
+          <Card className="relative max-w-md w-full bg-white shadow-2xl border-0">
+            <CardHeader className="space-y-3">
+              <CardTitle className="text-xl font-semibold flex items-center gap-2">
+                <span className="text-red-500 text-2xl">⚠️</span>
+                Delete "{pendingDelete.title}"?
+              </CardTitle>
+              <CardDescription className="text-gray-600">
+                <p className="font-medium mb-2">This action cannot be undone.</p>
+                <p className="text-sm">You will permanently delete:</p>
+                <ul className="list-disc list-inside mt-2 space-y-1 text-sm text-gray-500">
+                  <li>All uploaded slides ({pendingDelete.slideCount} slides)</li>
+                  <li>All presentation scripts</li>
+                  <li>Any AI processing results</li>
+                </ul>
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex gap-3 justify-end pt-2">
+              <Button
+                variant="outline"
+                onClick={() => setPendingDelete(null)}
+                className="min-w-[100px]"
+              >
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={handleDelete}
+                className="min-w-[100px]"
+              >
+                Delete
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * First-slide preview loaded lazily from IndexedDB
+ */
+function LibraryThumbnail({ slideId, title }: { slideId?: string; title: string }) {
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    if (!slideId) return;
+
+    loadSlideImage(slideId).then(url => {
+      if (!isCancelled) setImageUrl(url);
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [slideId]);
+
+  return (
+    <div className="aspect-video bg-gray-100 rounded-t-lg overflow-hidden flex items-center justify-center">
+      {imageUrl ? (
+        <img src={imageUrl} alt={`${title} first slide`} className="w-full h-full object-contain" />
+      ) : (
+        <span className="text-4xl">📄</span>
+      )}
+    </div>
+  );
+}
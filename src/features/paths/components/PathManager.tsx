@@ -0,0 +1,230 @@
+import { useState } from 'react';
+import { usePresentationStore } from '../../../core/store/presentation';
+import { createPath, getSlideSequence } from '../utils/slide-paths';
+import { formatDuration } from '../../sessions/utils/session-timing';
+import { countWords, estimateSpeakingSeconds } from '../../practice/utils/script-processor';
+import type { PresentationPath, Slide } from '../../../core/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../../components/ui/card';
+import { Button } from '../../../components/ui/button';
+import { Input } from '../../../components/ui/input';
+import { Badge } from '../../../components/ui/badge';
+import { ArrowDown, ArrowUp, ChevronDown, ChevronRight, Plus, Route, Trash2, X } from 'lucide-react';
+
+/**
+ * Talk paths
+ * Pick which version of the talk practice, delivery and export follow -
+ * the visible slides, or a named path with its own slides, order and length
+ */
+export function PathManager() {
+  const {
+    currentPresentation,
+    presenterWordsPerMinute,
+    addPath,
+    updatePath,
+    deletePath,
+    selectPath
+  } = usePresentationStore();
+  const [newName, setNewName] = useState('');
+  const [expandedPathId, setExpandedPathId] = useState<string | null>(null);
+
+  if (!currentPresentation || currentPresentation.slides.length === 0) {
+    return null;
+  }
+
+  const slides = currentPresentation.slides;
+  const paths = currentPresentation.paths || [];
+  const hiddenCount = slides.filter(slide => slide.isHidden).length;
+  const deckSeconds = currentPresentation.timeBudget?.totalSeconds ?? 0;
+
+  const estimateSeconds = (pathSlides: Slide[]) => pathSlides.reduce(
+    (sum, slide) => sum + estimateSpeakingSeconds(countWords(slide.script || ''), presenterWordsPerMinute ?? undefined),
+    0
+  );
+
+  // New paths start from the visible slides
+  const handleAdd = () => {
+    if (!newName.trim()) return;
+    const visibleSlideIds = getSlideSequence({ slides }).map(index => slides[index].id);
+    const path = createPath(newName, visibleSlideIds);
+    addPath(path);
+    setExpandedPathId(path.id);
+    setNewName('');
+  };
+
+  const handleMinutesChange = (path: PresentationPath, value: string) => {
+    const minutes = parseFloat(value);
+    updatePath(path.id, { totalSeconds: Number.isFinite(minutes) && minutes > 0 ? Math.round(minutes * 60) : undefined });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Route className="w-5 h-5 text-gray-600" />
+          Talk Paths
+        </CardTitle>
+        <CardDescription>Give the same deck as a shorter or reordered talk - hidden slides stay available as backups</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-gray-600">Practice, delivery and export follow</span>
+          <select
+            value={currentPresentation.selectedPathId ?? ''}
+            onChange={(e) => selectPath(e.target.value || null)}
+            className="text-sm border rounded px-2 py-1 bg-white"
+            aria-label="Path to follow"
+          >
+            <option value="">Visible slides ({slides.length - hiddenCount} of {slides.length})</option>
+            {paths.map(path => (
+              <option key={path.id} value={path.id}>{path.name || 'Untitled path'}</option>
+            ))}
+          </select>
+        </div>
+
+        {paths.length > 0 && (
+          <div className="divide-y">
+            {paths.map(path => {
+              const slideById = new Map(slides.map(slide => [slide.id, slide]));
+              const pathSlides = path.slideIds.flatMap(slideId => slideById.get(slideId) ?? []);
+              const targetSeconds = path.totalSeconds ?? deckSeconds;
+              const estimatedSeconds = estimateSeconds(pathSlides);
+              const isExpanded = expandedPathId === path.id;
+
+              return (
+                <div key={path.id} className="py-2 space-y-2">
+                  <div className="flex flex-wrap items-center gap-3">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setExpandedPathId(isExpanded ? null : path.id)}
+                      title={isExpanded ? 'Hide slides' : 'Choose slides'}
+                    >
+                      {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                    </Button>
+                    <Input
+                      value={path.name}
+                      onChange={(e) => updatePath(path.id, { name: e.target.value })}
+                      className="w-48 text-sm"
+                      aria-label="Path name"
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      value={path.totalSeconds ? path.totalSeconds / 60 : ''}
+                      placeholder={deckSeconds ? String(deckSeconds / 60) : 'Minutes'}
+                      onChange={(e) => handleMinutesChange(path, e.target.value)}
+                      className="w-24 text-sm"
+                      aria-label="Talk length in minutes"
+                      title="Talk length in minutes - the deck's time budget when empty"
+                    />
+                    <Badge variant="secondary" className="text-xs">{pathSlides.length} slides</Badge>
+                    <Badge
+                      variant="outline"
+                      className={`text-xs ${targetSeconds > 0 && estimatedSeconds > targetSeconds ? 'text-red-700' : ''}`}
+                      title="Script length at your speaking rate, against the path's talk length"
+                    >
+                      {formatDuration(estimatedSeconds)} estimated{targetSeconds > 0 && ` of ${formatDuration(targetSeconds)}`}
+                    </Badge>
+                    <Button size="sm" variant="ghost" className="ml-auto" onClick={() => deletePath(path.id)} title="Delete path">
+                      <Trash2 className="w-4 h-4 text-gray-400" />
+                    </Button>
+                  </div>
+
+                  {isExpanded && (
+                    <PathSlidesEditor
+                      slides={slides}
+                      slideIds={path.slideIds}
+                      onChange={(slideIds) => updatePath(path.id, { slideIds })}
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-3">
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleAdd();
+            }}
+            placeholder="New path name, e.g. 10-minute version..."
+            className="w-72 text-sm"
+          />
+          <Button variant="outline" size="sm" onClick={handleAdd} disabled={!newName.trim()}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add path
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function PathSlidesEditor({ slides, slideIds, onChange }: {
+  slides: Slide[];
+  slideIds: string[];
+  onChange: (slideIds: string[]) => void;
+}) {
+  const slideNumbers = new Map(slides.map((slide, index) => [slide.id, index + 1]));
+  const onPath = slideIds.filter(slideId => slideNumbers.has(slideId));
+  const offPath = slides.filter(slide => !onPath.includes(slide.id));
+
+  const move = (position: number, step: 1 | -1) => {
+    const reordered = [...onPath];
+    [reordered[position], reordered[position + step]] = [reordered[position + step], reordered[position]];
+    onChange(reordered);
+  };
+
+  const preview = (slideId: string) => {
+    const script = slides.find(slide => slide.id === slideId)?.script?.trim();
+    return script ? script.slice(0, 60) : 'No script';
+  };
+
+  return (
+    <div className="ml-10 space-y-2">
+      <ol className="space-y-1">
+        {onPath.map((slideId, position) => (
+          <li key={slideId} className="flex items-center gap-2 text-sm">
+            <span className="w-6 text-right text-gray-400">{position + 1}.</span>
+            <span className="font-medium">Slide {slideNumbers.get(slideId)}</span>
+            <span className="truncate text-gray-500 max-w-xs">{preview(slideId)}</span>
+            <div className="ml-auto flex items-center">
+              <Button size="sm" variant="ghost" onClick={() => move(position, -1)} disabled={position === 0} title="Move up">
+                <ArrowUp className="w-3.5 h-3.5" />
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => move(position, 1)} disabled={position === onPath.length - 1} title="Move down">
+                <ArrowDown className="w-3.5 h-3.5" />
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => onChange(onPath.filter(id => id !== slideId))} title="Leave out of this path">
+                <X className="w-3.5 h-3.5 text-gray-400" />
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ol>
+      {onPath.length === 0 && (
+        <p className="text-xs text-amber-700">An empty path plays every slide</p>
+      )}
+
+      {offPath.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => e.target.value && onChange([...onPath, e.target.value])}
+          className="text-sm border rounded px-2 py-1 bg-white"
+          aria-label="Add a slide to the path"
+        >
+          <option value="">Add a slide...</option>
+          {offPath.map(slide => (
+            <option key={slide.id} value={slide.id}>
+              Slide {slideNumbers.get(slide.id)}{slide.isHidden ? ' (hidden)' : ''}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { useMemo } from 'react';
+import { usePresentationStore } from '../../../core/store/presentation';
+import { getNavigableSlides, stepInSequence } from '../utils/slide-paths';
+
+/**
+ * Slides navigation moves through - the selected path (and practised section)
+ * while a session runs, every slide otherwise
+ */
+export const useSlideSequence = () => {
+  const { currentPresentation, currentSlideIndex, practiceSectionId, activeSession, detourFromIndex } = usePresentationStore();
+  const isSessionActive = !!activeSession;
+
+  const sequence = useMemo(() => {
+    const slides = currentPresentation?.slides ?? [];
+    return (currentPresentation && slides.length > 0
+      ? getNavigableSlides(currentPresentation, { followPath: isSessionActive, sectionId: practiceSectionId })
+      : null) ?? slides.map((_, index) => index);
+  }, [currentPresentation, isSessionActive, practiceSectionId]);
+
+  const isDetour = detourFromIndex !== null;
+  const position = sequence.indexOf(currentSlideIndex);
+
+  return {
+    sequence,
+    position,   // Index into the sequence, -1 on a backup slide
+    isDetour,
+    detourFromIndex,
+    canGoPrevious: isDetour || stepInSequence(sequence, currentSlideIndex, -1) !== undefined,
+    canGoNext: isDetour || stepInSequence(sequence, currentSlideIndex, 1) !== undefined
+  };
+};
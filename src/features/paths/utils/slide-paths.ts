@@ -0,0 +1,144 @@
+import type { Presentation, PresentationPath, Slide } from '../../../core/types';
+import { getSectionRange } from '../../sections/utils/sections';
+import { computeSlideTargets } from '../../budget/utils/time-budget';
+
+/**
+ * Slide paths
+ * One deck can be given as several versions of the talk. Hidden slides are
+ * backups, skipped by default; a named path picks its own slides and order
+ * and may have its own talk length. Practice, delivery and export follow the
+ * selected path.
+ */
+
+type PathSource = Pick<Presentation, 'slides' | 'paths' | 'selectedPathId' | 'timeBudget'>;
+
+let nextPathNumber = 0;
+
+/**
+ * New path over the given slides
+ */
+export function createPath(name: string, slideIds: string[], totalSeconds?: number): PresentationPath {
+  nextPathNumber += 1;
+  return {
+    id: `path-${Date.now()}-${nextPathNumber}`,
+    name: name.trim(),
+    slideIds,
+    totalSeconds
+  };
+}
+
+/**
+ * The path being followed, if any
+ */
+export function getSelectedPath(presentation: Pick<Presentation, 'paths' | 'selectedPathId'>): PresentationPath | undefined {
+  return presentation.selectedPathId
+    ? presentation.paths?.find(path => path.id === presentation.selectedPathId)
+    : undefined;
+}
+
+/**
+ * Slide indexes in the order the talk is given
+ * The selected path, or every slide that is not hidden - never empty while
+ * there are slides, so a deck of hidden slides still plays
+ */
+export function getSlideSequence(presentation: Pick<Presentation, 'slides' | 'paths' | 'selectedPathId'>): number[] {
+  const { slides } = presentation;
+  const path = getSelectedPath(presentation);
+
+  let sequence: number[];
+  if (path) {
+    const indexById = new Map(slides.map((slide, index) => [slide.id, index]));
+    sequence = path.slideIds.flatMap(slideId => {
+      const index = indexById.get(slideId);
+      return index === undefined ? [] : [index];
+    });
+  } else {
+    sequence = slides.flatMap((slide, index) => slide.isHidden ? [] : [index]);
+  }
+
+  return sequence.length > 0 ? sequence : slides.map((_, index) => index);
+}
+
+/**
+ * Slides in the order the talk is given
+ */
+export function getSequenceSlides(presentation: Pick<Presentation, 'slides' | 'paths' | 'selectedPathId'>): Slide[] {
+  return getSlideSequence(presentation).map(index => presentation.slides[index]);
+}
+
+/**
+ * Slide indexes navigation can land on
+ * @param options.followPath - Rehearsing or delivering; setup reaches every slide
+ * @param options.sectionId - Section the run is limited to
+ * @returns null when every slide is reachable in deck order
+ */
+export function getNavigableSlides(
+  presentation: Pick<Presentation, 'slides' | 'paths' | 'selectedPathId' | 'sections'>,
+  { followPath, sectionId }: { followPath: boolean; sectionId: string | null }
+): number[] | null {
+  const section = sectionId ? presentation.sections?.find(candidate => candidate.id === sectionId) : undefined;
+  const range = section ? getSectionRange(presentation.slides, section) : null;
+  if (!followPath && !range) return null;
+
+  const sequence = followPath ? getSlideSequence(presentation) : presentation.slides.map((_, index) => index);
+  if (!range) return sequence;
+
+  const inRange = (index: number) => index >= range.startIndex && index <= range.endIndex;
+  const sectionSequence = sequence.filter(inRange);
+  return sectionSequence.length > 0
+    ? sectionSequence
+    : presentation.slides.map((_, index) => index).filter(inRange);
+}
+
+/**
+ * Next or previous slide along a sequence
+ * From a slide off the sequence, the nearest one in that direction (deck order)
+ * @returns undefined at either end
+ */
+export function stepInSequence(sequence: number[], currentIndex: number, step: 1 | -1): number | undefined {
+  const position = sequence.indexOf(currentIndex);
+  if (position !== -1) return sequence[position + step];
+
+  return step > 0
+    ? sequence.find(index => index > currentIndex)
+    : [...sequence].reverse().find(index => index < currentIndex);
+}
+
+/**
+ * Nearest slide on a sequence - the next one in deck order, or the last
+ */
+export function snapToSequence(sequence: number[], index: number): number {
+  if (sequence.includes(index)) return index;
+
+  const later = sequence.filter(candidate => candidate > index);
+  return later.length > 0 ? Math.min(...later) : Math.max(...sequence);
+}
+
+/**
+ * Target seconds per slide for a run along the selected path
+ * The path's own talk length when it has one, the deck's budget otherwise,
+ * shared out over the slides on the path only
+ */
+export function computePathTargets(presentation: PathSource, wordsPerMinute?: number): Record<string, number> {
+  const path = getSelectedPath(presentation);
+  const budget = path?.totalSeconds
+    ? { totalSeconds: path.totalSeconds, pinnedSeconds: presentation.timeBudget?.pinnedSeconds ?? {} }
+    : presentation.timeBudget;
+
+  return computeSlideTargets(getSequenceSlides(presentation), budget, wordsPerMinute);
+}
+
+/**
+ * Carry paths over to new slide IDs (duplicate, bundle import)
+ */
+export function remapPaths(
+  paths: PresentationPath[] | undefined,
+  slideIdMap: Record<string, string>
+): PresentationPath[] | undefined {
+  if (!paths) return undefined;
+
+  return paths.map(path => ({
+    ...path,
+    slideIds: path.slideIds.flatMap(slideId => slideIdMap[slideId] ? [slideIdMap[slideId]] : [])
+  }));
+}
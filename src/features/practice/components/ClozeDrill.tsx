@@ -0,0 +1,132 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { Slide } from '../../../core/types';
+import { buildCloze, getHideRatio, gradeMastery, CLOZE_STAGES, MASTERED_LEVEL, type DrillGrade } from '../utils/cloze';
+import { usePresentationStore } from '../../../core/store/presentation';
+import { Button } from '../../../components/ui/button';
+import { Badge } from '../../../components/ui/badge';
+import { Eye, RotateCcw } from 'lucide-react';
+
+interface ClozeDrillProps {
+  slide: Pick<Slide, 'id' | 'script' | 'guide' | 'mastery'>;
+}
+
+const GRADES: { grade: DrillGrade; label: string; className: string }[] = [
+  { grade: 'struggled', label: 'Struggled', className: 'border-red-200 text-red-700 hover:bg-red-50' },
+  { grade: 'partly', label: 'Partly', className: 'border-amber-200 text-amber-700 hover:bg-amber-50' },
+  { grade: 'nailed', label: 'Nailed it', className: 'border-green-200 text-green-700 hover:bg-green-50' }
+];
+
+/**
+ * Memorization drill for one slide
+ * Say the script aloud filling in the blanks, click a blank to peek,
+ * then grade yourself - the next pass hides more or fewer words
+ */
+export function ClozeDrill({ slide }: ClozeDrillProps) {
+  const { updateSlideMastery } = usePresentationStore();
+  const [revealed, setRevealed] = useState<Set<string>>(new Set());
+
+  const level = slide.mastery?.level ?? 0;
+  const hideRatio = getHideRatio(level);
+  const paragraphs = useMemo(
+    () => buildCloze(slide.script, hideRatio, slide.guide?.keyConcepts),
+    [slide.script, hideRatio, slide.guide?.keyConcepts]
+  );
+
+  // Fresh blanks for each slide and pass
+  useEffect(() => {
+    setRevealed(new Set());
+  }, [slide.id, level]);
+
+  const hiddenCount = paragraphs.flat().filter(word => word.isHidden).length;
+  const peekCount = paragraphs.reduce(
+    (sum, words, p) => sum + words.filter((word, w) => word.isHidden && revealed.has(`${p}:${w}`)).length,
+    0
+  );
+
+  const reveal = (key: string) => {
+    setRevealed(current => new Set(current).add(key));
+  };
+
+  const revealAll = () => {
+    const keys = paragraphs.flatMap((words, p) => words.flatMap((word, w) => word.isHidden ? [`${p}:${w}`] : []));
+    setRevealed(new Set(keys));
+  };
+
+  const grade = (drillGrade: DrillGrade) => {
+    updateSlideMastery(slide.id, gradeMastery(slide.mastery, drillGrade));
+    setRevealed(new Set());
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <Badge variant={level >= MASTERED_LEVEL ? 'default' : 'secondary'}>
+          {level >= MASTERED_LEVEL ? 'Mastered' : `Pass ${level + 1} of ${CLOZE_STAGES.length}`}
+        </Badge>
+        <span className="text-muted-foreground">
+          {Math.round(hideRatio * 100)}% hidden · {hiddenCount} blanks{peekCount > 0 && ` · ${peekCount} peeked`}
+        </span>
+      </div>
+
+      <div className="space-y-3 leading-loose text-lg md:text-base text-gray-800">
+        {paragraphs.map((words, p) => (
+          <p key={p}>
+            {words.map((word, w) => {
+              const key = `${p}:${w}`;
+              if (!word.isHidden || revealed.has(key)) {
+                return (
+                  <span key={key} className={word.isHidden ? 'text-blue-700 underline decoration-dotted' : undefined}>
+                    {word.text}{' '}
+                  </span>
+                );
+              }
+
+              // Keep punctuation visible so the sentence shape stays readable
+              const [, leading, core, trailing] = word.text.match(/^(\W*)(.*?)(\W*)$/) || ['', '', word.text, ''];
+              return (
+                <span key={key}>
+                  {leading}
+                  <button
+                    onClick={() => reveal(key)}
+                    className={`inline-block align-baseline rounded border-b-2 bg-gray-100 hover:bg-gray-200 text-transparent select-none ${
+                      word.isKeyConcept ? 'border-blue-400' : 'border-gray-400'
+                    }`}
+                    title="Click to peek"
+                  >
+                    {core || word.text}
+                  </button>
+                  {trailing}{' '}
+                </span>
+              );
+            })}
+          </p>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 pt-2 border-t">
+        <Button size="sm" variant="ghost" onClick={revealAll}>
+          <Eye className="w-3 h-3 mr-1" />
+          Reveal all
+        </Button>
+        {peekCount > 0 && (
+          <Button size="sm" variant="ghost" onClick={() => setRevealed(new Set())}>
+            <RotateCcw className="w-3 h-3 mr-1" />
+            Hide again
+          </Button>
+        )}
+        <span className="ml-auto text-xs text-muted-foreground">How did that go?</span>
+        {GRADES.map(option => (
+          <Button
+            key={option.grade}
+            size="sm"
+            variant="outline"
+            onClick={() => grade(option.grade)}
+            className={option.className}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useRef } from 'react';
+import { Button } from '../../../components/ui/button';
+import { Badge } from '../../../components/ui/badge';
+import { Switch } from '../../../components/ui/switch';
+import { Label } from '../../../components/ui/label';
+import { FileText, ListChecks, Mic, PlayCircle, Square } from 'lucide-react';
+
+interface FollowAlongControlsProps {
+  isListening: boolean;
+  sourceLabel: string | null;
+  error: string | null;
+  canListen: boolean;              // Browser has a speech recogniser
+  autoAdvance: boolean;
+  onAutoAdvanceChange: (autoAdvance: boolean) => void;
+  onListen: () => void;            // Follow the microphone
+  onSimulate: () => void;          // Follow a simulated reading of the script
+  onLoadTranscript: (file: File) => void;
+  onStop: () => void;
+  onScoreRun?: () => void;         // Score the words heard so far - omitted until something was heard
+}
+
+/**
+ * Start and stop following the speaker through the script
+ */
+export function FollowAlongControls({
+  isListening,
+  sourceLabel,
+  error,
+  canListen,
+  autoAdvance,
+  onAutoAdvanceChange,
+  onListen,
+  onSimulate,
+  onLoadTranscript,
+  onStop,
+  onScoreRun
+}: FollowAlongControlsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {isListening ? (
+        <>
+          <Badge variant="default" className="gap-1 text-xs">
+            <span className="w-1.5 h-1.5 rounded-full bg-red-400 animate-pulse" />
+            Following: {sourceLabel}
+          </Badge>
+          <Button size="sm" variant="outline" onClick={onStop} className="h-8">
+            <Square className="w-3 h-3 mr-1" />
+            Stop
+          </Button>
+        </>
+      ) : (
+        <>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={onListen}
+            disabled={!canListen}
+            className="h-8"
+            title={canListen ? 'Follow along as you speak' : 'Speech recognition is not available in this browser'}
+          >
+            <Mic className="w-3 h-3 mr-1" />
+            Follow me
+          </Button>
+          <Button size="sm" variant="ghost" onClick={onSimulate} className="h-8" title="Simulate reading the script aloud">
+            <PlayCircle className="w-3 h-3 mr-1" />
+            Simulate
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => fileInputRef.current?.click()}
+            className="h-8"
+            title="Replay a recorded transcript (.txt)"
+          >
+            <FileText className="w-3 h-3 mr-1" />
+            Transcript
+          </Button>
+          {onScoreRun && (
+            <Button size="sm" variant="ghost" onClick={onScoreRun} className="h-8" title="Check what this run left out">
+              <ListChecks className="w-3 h-3 mr-1" />
+              Score run
+            </Button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".txt,text/plain"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onLoadTranscript(file);
+              e.target.value = '';
+            }}
+          />
+        </>
+      )}
+
+      <div className="flex items-center gap-2 ml-1">
+        <Switch id="follow-auto-advance" checked={autoAdvance} onCheckedChange={onAutoAdvanceChange} />
+        <Label htmlFor="follow-auto-advance" className="text-xs">Auto-advance</Label>
+      </div>
+
+      {error && <span className="text-xs text-red-600">{error}</span>}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { processScript, estimateSpeakingTime } from '../utils/script-processor';
-import { Clock, Key, ArrowRight, Timer, Lightbulb, Eye, EyeOff } from 'lucide-react';
+import { Clock, Key, ArrowRight, Timer, Lightbulb, Eye, EyeOff, MessageSquare } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -109,6 +109,9 @@ export function PresenterGuidePane({
                     <p className="text-sm text-blue-700">
                       <span className="font-medium">{estimateSpeakingTime(processedScript.wordCount)}</span>
                       <span className="text-blue-600"> • {processedScript.wordCount} words</span>
+                      {processedScript.totalPauseSeconds > 0 && (
+                        <span className="text-blue-600"> • {processedScript.totalPauseSeconds}s planned pauses</span>
+                      )}
                     </p>
                   </div>
                 </div>
@@ -189,6 +192,30 @@ export function PresenterGuidePane({
               </Card>
             )}
 
+            {/* Presenter-only comments */}
+            {processedScript.presenterComments.length > 0 && (
+              <Card className="border-slate-200 bg-slate-50/50">
+                <CardHeader className="pb-3">
+                  <div className="flex items-center gap-2">
+                    <div className="w-6 h-6 bg-slate-100 rounded-full flex items-center justify-center">
+                      <MessageSquare className="h-3 w-3 text-slate-600" />
+                    </div>
+                    <CardTitle className="text-sm text-slate-800">Notes to Self</CardTitle>
+                  </div>
+                </CardHeader>
+                <CardContent className="pt-0">
+                  <ul className="space-y-2">
+                    {processedScript.presenterComments.map((comment, index) => (
+                      <li key={index} className="text-sm text-slate-700 italic flex items-start gap-3">
+                        <MessageSquare className="h-4 w-4 text-slate-500 mt-0.5 flex-shrink-0" />
+                        <span>{comment}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+            )}
+
             {/* General Tips if no specific cues found */}
             {processedScript.keyPoints.length === 0 && 
              processedScript.transitionPhrases.length === 0 && 
@@ -0,0 +1,143 @@
+import { useEffect, useRef } from 'react';
+import type { SlideScriptNode, ScriptInline } from '../utils/script-markup';
+import type { WordRange } from '../utils/script-follower';
+import { MousePointerClick, Pause } from 'lucide-react';
+
+interface ScriptMarkupViewProps {
+  /** Parsed script for one slide */
+  document: SlideScriptNode;
+  /** Show // presenter comments inline (default true) */
+  showComments?: boolean;
+  /** Size and colour classes (default dark text) */
+  className?: string;
+  /** Spoken words to highlight, e.g. the sentence being followed */
+  highlight?: WordRange | null;
+}
+
+/**
+ * Renders a parsed script with its directives:
+ * emphasis highlighted, pauses and clicks as inline chips, comments muted
+ */
+export function ScriptMarkupView({ document, showComments = true, className = 'text-gray-800', highlight = null }: ScriptMarkupViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const highlightStart = highlight?.start;
+
+  // Keep the highlighted words in view as they move
+  useEffect(() => {
+    if (highlightStart === undefined) return;
+    containerRef.current
+      ?.querySelector('[data-highlight]')
+      ?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [highlightStart]);
+
+  // Word index each text node starts at - same splitting as the script follower
+  let wordOffset = 0;
+
+  return (
+    <div ref={containerRef} className={`space-y-4 leading-relaxed whitespace-pre-wrap ${className}`}>
+      {document.paragraphs.map((paragraph, paragraphIndex) => (
+        <p key={paragraphIndex}>
+          {paragraph.children.map((child, index) => {
+            const firstWord = wordOffset;
+            if (child.type === 'text' || child.type === 'emphasis') {
+              wordOffset += child.text.split(/\s+/).filter(Boolean).length;
+            }
+            return (
+              <ScriptInlineNode
+                key={index}
+                node={child}
+                showComments={showComments}
+                firstWord={firstWord}
+                highlight={highlight}
+              />
+            );
+          })}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Split text into runs inside and outside a word range
+ */
+function HighlightedText({ text, firstWord, highlight }: { text: string; firstWord: number; highlight: WordRange | null }) {
+  if (!highlight) return <>{text}</>;
+
+  const runs: { text: string; isHighlighted: boolean }[] = [];
+  let wordIndex = firstWord;
+
+  text.split(/(\s+)/).forEach(part => {
+    if (!part) return;
+    const isWord = !/^\s+$/.test(part);
+    const isHighlighted = isWord
+      ? wordIndex >= highlight.start && wordIndex < highlight.end
+      : wordIndex > highlight.start && wordIndex < highlight.end; // Spaces between highlighted words
+    if (isWord) wordIndex++;
+
+    const last = runs[runs.length - 1];
+    if (last && last.isHighlighted === isHighlighted) {
+      last.text += part;
+    } else {
+      runs.push({ text: part, isHighlighted });
+    }
+  });
+
+  return (
+    <>
+      {runs.map((run, index) => run.isHighlighted ? (
+        <span key={index} data-highlight className="bg-sky-200/70 rounded-sm transition-colors">
+          {run.text}
+        </span>
+      ) : (
+        <span key={index}>{run.text}</span>
+      ))}
+    </>
+  );
+}
+
+interface ScriptInlineNodeProps {
+  node: ScriptInline;
+  showComments: boolean;
+  firstWord: number;
+  highlight: WordRange | null;
+}
+
+function ScriptInlineNode({ node, showComments, firstWord, highlight }: ScriptInlineNodeProps) {
+  switch (node.type) {
+    case 'text':
+      return <HighlightedText text={node.text} firstWord={firstWord} highlight={highlight} />;
+    case 'emphasis':
+      return (
+        <mark className="bg-yellow-200/60 font-semibold px-1 py-0.5 rounded">
+          <HighlightedText text={node.text} firstWord={firstWord} highlight={highlight} />
+        </mark>
+      );
+    case 'pause':
+      return (
+        <span
+          className="inline-flex items-center gap-1 mx-1 px-1.5 py-0.5 rounded bg-indigo-100 text-indigo-700 text-xs font-medium align-middle"
+          title={`Pause for ${node.seconds} seconds`}
+        >
+          <Pause className="w-3 h-3" />
+          {node.seconds}s
+        </span>
+      );
+    case 'click':
+      return (
+        <span
+          className="inline-flex items-center gap-1 mx-1 px-1.5 py-0.5 rounded bg-emerald-100 text-emerald-700 text-xs font-medium align-middle"
+          title="Advance build"
+        >
+          <MousePointerClick className="w-3 h-3" />
+          Click {node.index}
+        </span>
+      );
+    case 'comment':
+      return showComments ? (
+        <span className="text-[0.7em] italic text-gray-500" title="Presenter-only note">
+          {' '}// {node.text}
+        </span>
+      ) : null;
+  }
+}
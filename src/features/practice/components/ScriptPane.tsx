@@ -1,6 +1,9 @@
 import { useState, useEffect } from 'react';
 import { usePresentationStore } from '../../../core/store/presentation';
 import { processScript, estimateSpeakingTime } from '../utils/script-processor';
+import { SCRIPT_MARKUP_REFERENCE } from '../utils/script-markup';
+import type { WordRange } from '../utils/script-follower';
+import { ScriptMarkupView } from './ScriptMarkupView';
 import { FileText, Clock, Edit, Eye, EyeOff, Save } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -18,6 +21,8 @@ interface ScriptPaneProps {
   isEditable?: boolean;
   /** Callback when visibility changes */
   onVisibilityChange?: (visible: boolean) => void;
+  /** Sentence currently being spoken, when following live speech */
+  highlight?: WordRange | null;
 }
 
 export function ScriptPane({ 
@@ -25,7 +30,8 @@ export function ScriptPane({
   initialScript, 
   isVisible, 
   isEditable = true,
-  onVisibilityChange 
+  onVisibilityChange,
+  highlight = null
 }: ScriptPaneProps) {
   const { updateSlideScript } = usePresentationStore();
   const [script, setScript] = useState(initialScript);
@@ -42,14 +48,14 @@ export function ScriptPane({
 
     const timeoutId = setTimeout(() => {
       setIsSaving(true);
-      updateSlideScript(slideId, script);
+      updateSlideScript(slideId, script, 'practice');
       setTimeout(() => setIsSaving(false), 500);
     }, 500);
 
     return () => clearTimeout(timeoutId);
   }, [script, slideId, updateSlideScript, initialScript, isEditable]);
 
-  // Process script for stats
+  // Parse markup once for stats and rendering
   const processedScript = processScript(script);
 
   if (!isVisible) {
@@ -136,38 +142,35 @@ export function ScriptPane({
       {/* Script Content */}
       <CardContent className="p-0 flex-1">
         {isEditable ? (
-          <div className="p-6 h-full">
+          <div className="p-6 h-full flex flex-col gap-3">
             <textarea
               value={script}
               onChange={(e) => setScript(e.target.value)}
               placeholder="Add your speaker notes here...
 
 💡 Tips for great scripts:
-• Use keywords like 'important' or 'key' to highlight main points
-• Add transition phrases like 'moving on' or 'next' for flow  
-• Include timing cues like 'pause' or 'emphasize' for delivery
-• Write in a conversational tone as if speaking to your audience
-• Practice reading aloud to find natural rhythm"
-              className="w-full h-full p-0 border-0 resize-none focus:ring-0 text-sm leading-relaxed text-gray-800 placeholder:text-gray-400"
+• Wrap key words in *stars* to emphasize them
+• Add [pause 2s] where you want the audience to think
+• Mark animation builds with [click]
+• Write // notes to yourself - they are never read aloud
+• Write in a conversational tone as if speaking to your audience"
+              className="w-full flex-1 p-0 border-0 resize-none focus:ring-0 text-sm leading-relaxed text-gray-800 placeholder:text-gray-400"
             />
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500">
+              {SCRIPT_MARKUP_REFERENCE.map(item => (
+                <span key={item.syntax}>
+                  <code className="px-1 rounded bg-gray-100 text-gray-700">{item.syntax}</code> {item.description}
+                </span>
+              ))}
+            </div>
           </div>
         ) : (
           <ScrollArea className="h-full">
             <div className="p-6">
               {script ? (
                 <div className="prose prose-sm max-w-none">
-                  <div className="text-sm leading-relaxed whitespace-pre-wrap text-gray-800">
-                    {/* Render highlighted script with modern highlighting */}
-                    {processedScript.highlightedScript.split('**').map((part, index) => 
-                      index % 2 === 1 ? (
-                        <mark key={index} className="bg-yellow-200/60 font-semibold px-1 py-0.5 rounded">
-                          {part}
-                        </mark>
-                      ) : (
-                        <span key={index}>{part}</span>
-                      )
-                    )}
-                  </div>
+                  {/* Render directives from the parsed markup */}
+                  <ScriptMarkupView document={processedScript.document} className="text-sm text-gray-800" highlight={highlight} />
                 </div>
               ) : (
                 <div className="flex items-center justify-center h-full min-h-[200px]">
@@ -199,8 +202,8 @@ export function ScriptPane({
                 <div>
                   <h4 className="text-xs font-semibold text-blue-900 mb-1">Practice Tip</h4>
                   <p className="text-xs text-blue-800">
-                    Focus on the <mark className="bg-yellow-200/60 px-1 py-0.5 rounded font-medium">highlighted keywords</mark> for emphasis. 
-                    Use natural gestures and maintain eye contact with your audience.
+                    Focus on the <mark className="bg-yellow-200/60 px-1 py-0.5 rounded font-medium">highlighted keywords</mark> for emphasis
+                    and honour the planned pauses and clicks. Use natural gestures and maintain eye contact with your audience.
                   </p>
                 </div>
               </div>
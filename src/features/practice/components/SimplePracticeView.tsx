@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { usePresentationStore } from '../../../core/store/presentation';
 import { generateContentGuide, ContentGuide } from '../utils/script-processor';
 import { OpenAIService } from '../../../services/openai-service';
@@ -7,9 +7,29 @@ import { Button } from '../../../components/ui/button';
 import { Badge } from '../../../components/ui/badge';
 import { Textarea } from '../../../components/ui/textarea';
 import { Input } from '../../../components/ui/input';
-import { ChevronLeft, ChevronRight, Eye, EyeOff, Maximize2, AlertCircle, Edit2, Save } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Eye, EyeOff, Maximize2, AlertCircle, Edit2, Save, Brain } from 'lucide-react';
 import { useDebouncedCallback } from '../../../shared/hooks/useDebounce';
 import { MobilePracticeLayout } from './MobilePracticeLayout';
+import { ScriptMarkupView } from './ScriptMarkupView';
+import { FollowAlongControls } from './FollowAlongControls';
+import { useScriptFollower } from '../hooks/useScriptFollower';
+import { MockTranscriptSource, WebSpeechTranscriptSource, isSpeechRecognitionSupported } from '../services/transcript-sources';
+import { parseSlideScript, getSpokenText } from '../utils/script-markup';
+import { getFullScriptSpokenText } from '../../script/utils/full-script-sync';
+import { RecordingControls } from '../../sessions/components/RecordingControls';
+import { RehearsalTimer } from '../../sessions/components/RehearsalTimer';
+import { ClozeDrill } from './ClozeDrill';
+import { MASTERED_LEVEL } from '../utils/cloze';
+import { useBudgetPlan } from '../../budget/hooks/useBudgetPlan';
+import { BudgetStatusDot } from '../../budget/components/BudgetStatusDot';
+import { buildCoverageReport } from '../../script-coverage/utils/coverage';
+import { CoverageReportCard } from '../../script-coverage/components/CoverageReportCard';
+import { saveCoverageReport, loadCoverageReports } from '../../../services/practiceSessions';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../../../components/ui/dialog';
+import type { CoverageReport } from '../../../core/types';
+import { createQuestion } from '../../qa/utils/qa-bank';
+import { useKeyBindings } from '../../keyboard/hooks/useKeyBindings';
+import { useSlideSequence } from '../../paths/hooks/useSlideSequence';
 
 interface SimplePracticeViewProps {
   onBack: () => void;
@@ -29,8 +49,17 @@ export function SimplePracticeView({ onBack }: SimplePracticeViewProps) {
     previousSlide,
     updateSlideScript,
     updateSlideGuide,
-    getTempUploadedScript
+    getTempUploadedScript,
+    startSession,
+    endSession,
+    activeSession,
+    recordHeardWords,
+    practiceSectionId,
+    setPracticeSection
   } = usePresentationStore();
+  const budgetPlan = useBudgetPlan();
+  const { sequence, position, detourFromIndex, canGoPrevious, canGoNext } = useSlideSequence();
+  const sections = currentPresentation?.sections || [];
 
   if (process.env.NODE_ENV === 'development') {
     console.log('🎙️ Setting up practice view with:', {
@@ -52,6 +81,13 @@ export function SimplePracticeView({ onBack }: SimplePracticeViewProps) {
   const [tempScript, setTempScript] = useState('');
   const [tempGuide, setTempGuide] = useState<ContentGuide | null>(null);
 
+  // Live position tracking
+  const [autoAdvance, setAutoAdvance] = useState(false);
+  const [isSlideSpoken, setIsSlideSpoken] = useState(false);
+
+  // Memorization drill replaces the script with blanks
+  const [isDrilling, setIsDrilling] = useState(false);
+
   // Get current slide data
   const currentSlide = currentPresentation?.slides[currentSlideIndex];
   const totalSlides = currentPresentation?.slides.length || 0;
@@ -75,6 +111,86 @@ export function SimplePracticeView({ onBack }: SimplePracticeViewProps) {
   }, []);
   
   
+  // Words heard on each slide (by slide ID) since the run was last scored
+  const heardWordsRef = useRef<Record<string, string[]>>({});
+  const [heardWordCount, setHeardWordCount] = useState(0);
+  const [coverageReport, setCoverageReport] = useState<CoverageReport | null>(null);
+  const [coverageHistory, setCoverageHistory] = useState<CoverageReport[]>([]);
+  const [isBlackedOut, setIsBlackedOut] = useState(false);
+
+  // Follow the speaker through the current slide's script
+  const follower = useScriptFollower({
+    script: currentSlide?.script || '',
+    onScriptComplete: () => {
+      if (autoAdvance) {
+        nextSlide();
+      } else {
+        setIsSlideSpoken(true);
+      }
+    },
+    onHeardWords: (words) => {
+      recordHeardWords(words);
+      if (!currentSlide) return;
+      const heard = heardWordsRef.current;
+      heard[currentSlide.id] = [...(heard[currentSlide.id] || []), ...words];
+      setHeardWordCount(count => count + words.length);
+    }
+  });
+
+  useEffect(() => {
+    setIsSlideSpoken(false);
+  }, [currentSlideIndex]);
+
+  // Simulated speech reads the scripts in the order navigation follows, from
+  // the current slide to the end - a backup slide first returns to where it left
+  const simulateSpeech = () => {
+    const slides = currentPresentation?.slides || [];
+    const returnPosition = detourFromIndex !== null ? sequence.indexOf(detourFromIndex) : -1;
+    const remainingIndexes = position !== -1
+      ? sequence.slice(position)
+      : [currentSlideIndex, ...(returnPosition !== -1 ? sequence.slice(returnPosition) : [])];
+    const remainingScripts = remainingIndexes
+      .map(index => getSpokenText(parseSlideScript(slides[index]?.script || '')));
+    follower.listen(new MockTranscriptSource(remainingScripts));
+  };
+
+  const replayTranscript = async (file: File) => {
+    follower.listen(await MockTranscriptSource.fromFile(file));
+  };
+
+  // Score the slides from the first to the last one spoken on
+  const scoreRun = async () => {
+    if (!currentPresentation) return;
+    const slides = currentPresentation.slides;
+    const heard = heardWordsRef.current;
+    const spokenIndexes = slides.map((slide, index) => heard[slide.id] ? index : -1).filter(index => index !== -1);
+    const first = Math.min(...spokenIndexes);
+    const last = Math.max(...spokenIndexes);
+    const segments = slides.map((slide, index) =>
+      index >= first && index <= last ? (heard[slide.id] || []).join(' ') : undefined
+    );
+
+    const report = buildCoverageReport(currentPresentation.id, slides, segments, 'recognizer', activeSession?.id);
+    heardWordsRef.current = {};
+    setHeardWordCount(0);
+    setCoverageReport(report);
+
+    try {
+      await saveCoverageReport(report);
+    } catch {
+      // Already logged - the report is still shown
+    }
+    setCoverageHistory(await loadCoverageReports(currentPresentation.id));
+  };
+  
+  // Record a practice session for as long as this view is open - kept only if something happens in it
+  useEffect(() => {
+    startSession('practice');
+    return () => {
+      endSession();
+    };
+  }, [startSession, endSession]);
+  
   // Debounced save functions
   const saveScript = useDebouncedCallback((slideId: string, newScript: string) => {
     updateSlideScript(slideId, newScript, 'practice');
@@ -180,6 +296,12 @@ export function SimplePracticeView({ onBack }: SimplePracticeViewProps) {
             console.log('✅ AI presenter guidance generated successfully');
           }
           
+          // Keep the likely audience questions in the slide's Q&A bank
+          const questions = (coachingResult.coaching.potentialQuestions || [])
+            .filter(question => question?.trim())
+            .map(question => createQuestion(question, 'ai'));
+          usePresentationStore.getState().addQuestions(questions, currentSlide.id);
+          
         } else {
           throw new Error(coachingResult.error);
         }
@@ -218,38 +340,15 @@ export function SimplePracticeView({ onBack }: SimplePracticeViewProps) {
     };
   }, [currentSlide?.id, currentSlideIndex]); // Use stable dependencies
 
-  // Keyboard navigation with proper cleanup
-  useEffect(() => {
-    const handleKeyDown = (event: KeyboardEvent) => {
-      // Only handle if not typing in an input/textarea
-      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) {
-        return;
-      }
-
-      switch (event.key) {
-        case 'ArrowLeft':
-          event.preventDefault();
-          previousSlide();
-          break;
-        case 'ArrowRight':
-          event.preventDefault();
-          nextSlide();
-          break;
-        case 'Escape':
-          event.preventDefault();
-          onBack();
-          break;
-      }
-    };
-
-    // Use document instead of window for better event handling
-    document.addEventListener('keydown', handleKeyDown);
-    
-    // Cleanup function ensures event listener is removed
-    return () => {
-      document.removeEventListener('keydown', handleKeyDown);
-    };
-  }, []); // Empty dependency array with stable functions from store
+  // Keyboard and clicker navigation
+  useKeyBindings({
+    nextSlide,
+    previousSlide,
+    firstSlide: () => setCurrentSlide(sequence[0]),
+    lastSlide: () => setCurrentSlide(sequence[sequence.length - 1]),
+    blackout: () => setIsBlackedOut(blackedOut => !blackedOut),
+    exit: onBack
+  }, { onJumpToSlide: setCurrentSlide });
 
   if (!currentPresentation || !currentSlide) {
     return (
@@ -262,11 +361,20 @@ export function SimplePracticeView({ onBack }: SimplePracticeViewProps) {
   const handleSlideSelect = (index: number) => {
     setCurrentSlide(index);
   };
+
+  // Switching section starts a new run over its slides - a running recording stops with the old one
+  const handleSectionChange = (sectionId: string | null) => {
+    setPracticeSection(sectionId);
+    startSession('practice');
+  };
   
-  // For basic practice without AI, show the full script
+  // Per-slide script while following speech - positions are tracked per slide
+  const showSlideScript = hasAIProcessing || follower.isListening;
+
+  // For basic practice without AI, show the full script - spoken words only, slide by slide
   const practiceScript = hasAIProcessing 
     ? currentSlide?.script 
-    : currentPresentation?.fullScript || getTempUploadedScript() || currentPresentation?.slides.map(s => s.script).filter(Boolean).join('\n\n---\n\n');
+    : getFullScriptSpokenText(currentPresentation?.fullScript || getTempUploadedScript() || '', '\n\n---\n\n');
 
   // Use mobile layout on small screens
   if (isMobile) {
@@ -300,6 +408,20 @@ export function SimplePracticeView({ onBack }: SimplePracticeViewProps) {
             <h1 className="text-lg font-semibold">
               {hasAIProcessing ? 'AI-Enhanced Practice' : 'Basic Practice Mode'}
             </h1>
+            {sections.length > 0 && (
+              <select
+                value={practiceSectionId ?? ''}
+                onChange={(e) => handleSectionChange(e.target.value || null)}
+                className="text-sm border rounded px-2 py-1 bg-white"
+                title="Rehearse one section"
+                aria-label="Section to rehearse"
+              >
+                <option value="">Whole deck</option>
+                {sections.map(section => (
+                  <option key={section.id} value={section.id}>{section.name}</option>
+                ))}
+              </select>
+            )}
           </div>
         
         {/* Slide Navigation */}
@@ -308,21 +430,23 @@ export function SimplePracticeView({ onBack }: SimplePracticeViewProps) {
             variant="outline" 
             size="sm"
             onClick={previousSlide}
-            disabled={currentSlideIndex === 0}
+            disabled={!canGoPrevious}
             className="min-w-[48px] min-h-[48px] p-3"
           >
             <ChevronLeft className="w-5 h-5" />
           </Button>
           
           <Badge variant="secondary" className="px-3 py-1 text-sm">
-            Slide {currentSlideIndex + 1} of {totalSlides}
+            {sequence.length === totalSlides
+              ? `Slide ${currentSlideIndex + 1} of ${totalSlides}`
+              : `Slide ${currentSlideIndex + 1} (${position + 1} of ${sequence.length})`}
           </Badge>
           
           <Button 
             variant="outline" 
             size="sm"
             onClick={nextSlide}
-            disabled={currentSlideIndex === totalSlides - 1}
+            disabled={!canGoNext}
             className="min-w-[48px] min-h-[48px] p-3"
           >
             <ChevronRight className="w-5 h-5" />
@@ -331,6 +455,7 @@ export function SimplePracticeView({ onBack }: SimplePracticeViewProps) {
 
         {/* View Controls - Mobile Friendly */}
         <div className="flex items-center gap-2">
+          <RecordingControls />
           <Button
             variant={showGuide ? "default" : "outline"}
             size="sm"
@@ -353,6 +478,9 @@ export function SimplePracticeView({ onBack }: SimplePracticeViewProps) {
           </Button>
         </div>
         </div>
+
+        {/* Rehearsal clock - per-slide target and pace */}
+        <RehearsalTimer />
       </div>
 
       {/* Main Content - New Three Section Layout */}
@@ -376,6 +504,17 @@ export function SimplePracticeView({ onBack }: SimplePracticeViewProps) {
               </div>
             )}
             
+            {/* Blackout - as the audience would see it */}
+            {isBlackedOut && (
+              <button
+                type="button"
+                className="absolute inset-0 z-10 bg-black flex items-end justify-center pb-4 text-xs text-gray-500"
+                onClick={() => setIsBlackedOut(false)}
+              >
+                Screen blacked out - click or press the blackout key to return
+              </button>
+            )}
+            
             {/* Full-screen button */}
             <Button
               variant="outline"
@@ -573,42 +712,70 @@ export function SimplePracticeView({ onBack }: SimplePracticeViewProps) {
         {showScript && (
           <div className="flex-1 lg:flex-initial lg:h-80 p-2 min-h-[200px]">
             <Card className="h-full flex flex-col">
-              <div className="p-3 border-b bg-gray-50/50 flex items-center justify-between flex-shrink-0">
+              <div className="p-3 border-b bg-gray-50/50 flex flex-wrap items-center justify-between gap-2 flex-shrink-0">
                 <div className="flex items-center gap-3">
                   <h3 className="font-semibold text-base">Slide {currentSlideIndex + 1} Script</h3>
                   <Badge variant="outline" className="text-xs">
                     {currentSlide?.script ? `${currentSlide.script.split(/\s+/).length} words`  : '0 words'}
                   </Badge>
                 </div>
-                <Button
-                  size="sm"
-                  variant={isEditingScript ? "default" : "ghost"}
-                  onClick={() => {
-                    if (isEditingScript) {
-                      // Save
-                      if (currentSlide) {
-                        updateSlideScript(currentSlide.id, tempScript);
-                        setIsEditingScript(false);
-                      }
-                    } else {
-                      // Start editing
-                      setIsEditingScript(true);
-                      setTempScript(currentSlide?.script || '');
-                    }
-                  }}
-                >
-                  {isEditingScript ? (
-                    <>
-                      <Save className="w-3 h-3 mr-1" />
-                      Save
-                    </>
-                  ) : (
-                    <>
-                      <Edit2 className="w-3 h-3 mr-1" />
-                      Edit
-                    </>
+                {currentSlide?.script && !isEditingScript && !isDrilling && (
+                  <FollowAlongControls
+                    isListening={follower.isListening}
+                    sourceLabel={follower.activeSource?.label || null}
+                    error={follower.error}
+                    canListen={isSpeechRecognitionSupported()}
+                    autoAdvance={autoAdvance}
+                    onAutoAdvanceChange={setAutoAdvance}
+                    onListen={() => follower.listen(new WebSpeechTranscriptSource())}
+                    onSimulate={simulateSpeech}
+                    onLoadTranscript={replayTranscript}
+                    onStop={follower.stop}
+                    onScoreRun={heardWordCount > 0 ? scoreRun : undefined}
+                  />
+                )}
+                <div className="flex items-center gap-1">
+                  {currentSlide?.script && !isEditingScript && (
+                    <Button
+                      size="sm"
+                      variant={isDrilling ? "default" : "ghost"}
+                      onClick={() => setIsDrilling(!isDrilling)}
+                      title="Memorize: hide more of the script each pass"
+                    >
+                      <Brain className="w-3 h-3 mr-1" />
+                      Drill
+                    </Button>
                   )}
-                </Button>
+                  <Button
+                    size="sm"
+                    variant={isEditingScript ? "default" : "ghost"}
+                    onClick={() => {
+                      if (isEditingScript) {
+                        // Save
+                        if (currentSlide) {
+                          updateSlideScript(currentSlide.id, tempScript, 'practice');
+                          setIsEditingScript(false);
+                        }
+                      } else {
+                        // Start editing
+                        setIsEditingScript(true);
+                        setTempScript(currentSlide?.script || '');
+                      }
+                    }}
+                  >
+                    {isEditingScript ? (
+                      <>
+                        <Save className="w-3 h-3 mr-1" />
+                        Save
+                      </>
+                    ) : (
+                      <>
+                        <Edit2 className="w-3 h-3 mr-1" />
+                        Edit
+                      </>
+                    )}
+                  </Button>
+                </div>
               </div>
               
               <div className="flex-1 p-3 overflow-y-auto">
@@ -653,7 +820,26 @@ export function SimplePracticeView({ onBack }: SimplePracticeViewProps) {
                       </Button>
                     </div>
                   </div>
-                ) : (hasAIProcessing ? currentSlide?.script : practiceScript) ? (
+                ) : isDrilling && currentSlide.script ? (
+                  <ClozeDrill slide={currentSlide} />
+                ) : showSlideScript && currentSlide.script ? (
+                  <div className="prose prose-sm max-w-none">
+                    {isSlideSpoken && canGoNext && (
+                      <div className="mb-4 p-3 bg-sky-50 rounded-lg border border-sky-200 flex items-center justify-between gap-3">
+                        <p className="text-sm text-sky-800 m-0">You've reached the end of this slide's script.</p>
+                        <Button size="sm" onClick={nextSlide}>
+                          Next slide
+                          <ChevronRight className="w-4 h-4 ml-1" />
+                        </Button>
+                      </div>
+                    )}
+                    <ScriptMarkupView
+                      document={parseSlideScript(currentSlide.script)}
+                      className="text-lg md:text-base text-gray-800 p-4 md:p-0"
+                      highlight={follower.currentSentence}
+                    />
+                  </div>
+                ) : practiceScript ? (
                   <div className="prose prose-sm max-w-none">
                     {!hasAIProcessing && (
                       <div className="mb-6 p-4 bg-amber-50 rounded-lg border border-amber-200">
@@ -667,7 +853,7 @@ export function SimplePracticeView({ onBack }: SimplePracticeViewProps) {
                       </div>
                     )}
                     <p className="whitespace-pre-wrap leading-relaxed text-lg md:text-base text-gray-800 p-4 md:p-0">
-                      {hasAIProcessing ? currentSlide.script : practiceScript}
+                      {practiceScript}
                     </p>
                   </div>
                 ) : (
@@ -701,7 +887,7 @@ export function SimplePracticeView({ onBack }: SimplePracticeViewProps) {
         <Button 
           variant="outline"
           onClick={previousSlide}
-          disabled={currentSlideIndex === 0}
+          disabled={!canGoPrevious}
           className="min-h-[48px] px-4 flex-1 max-w-[120px]"
         >
           <ChevronLeft className="w-5 h-5 mr-1" />
@@ -712,26 +898,40 @@ export function SimplePracticeView({ onBack }: SimplePracticeViewProps) {
         {/* Slide Numbers - Horizontally scrollable container */}
         <div className="flex-1 overflow-x-auto max-w-md mx-auto">
           <div className="flex items-center gap-2 px-4 py-2">
-            {Array.from({ length: totalSlides }).map((_, index) => (
-              <button
-                key={index}
-                onClick={() => handleSlideSelect(index)}
-                className={`flex-shrink-0 min-w-[48px] min-h-[48px] w-12 h-12 rounded-full transition-colors flex items-center justify-center text-sm ${
-                  index === currentSlideIndex 
-                    ? 'bg-blue-500 text-white font-semibold' 
-                    : 'bg-gray-300 hover:bg-gray-400 text-gray-700'
-                }`}
-              >
-                {index + 1}
-              </button>
-            ))}
+            {sequence.map(index => {
+              const slide = currentPresentation.slides[index];
+              return (
+                <button
+                  key={index}
+                  onClick={() => handleSlideSelect(index)}
+                  className={`relative flex-shrink-0 min-w-[48px] min-h-[48px] w-12 h-12 rounded-full transition-colors flex items-center justify-center text-sm ${
+                    index === currentSlideIndex 
+                      ? 'bg-blue-500 text-white font-semibold' 
+                      : 'bg-gray-300 hover:bg-gray-400 text-gray-700'
+                  }`}
+                  title={slide.mastery ? `Drill level ${slide.mastery.level} of ${MASTERED_LEVEL}` : undefined}
+                >
+                  {index + 1}
+                  {/* Memorization progress */}
+                  {slide.mastery && slide.mastery.level > 0 && (
+                    <span
+                      className={`absolute -bottom-0.5 left-1/2 -translate-x-1/2 h-1 rounded-full ${
+                        slide.mastery.level >= MASTERED_LEVEL ? 'bg-green-500' : 'bg-amber-400'
+                      }`}
+                      style={{ width: `${Math.round((slide.mastery.level / MASTERED_LEVEL) * 32)}px` }}
+                    />
+                  )}
+                  <BudgetStatusDot slideBudget={budgetPlan?.slides[index]} className="-top-0.5 -right-0.5" />
+                </button>
+              );
+            })}
           </div>
         </div>
         
         <Button 
           variant="outline"
           onClick={nextSlide}
-          disabled={currentSlideIndex === totalSlides - 1}
+          disabled={!canGoNext}
           className="min-h-[48px] px-4 flex-1 max-w-[120px]"
         >
           <span className="hidden sm:inline">Next</span>
@@ -739,6 +939,26 @@ export function SimplePracticeView({ onBack }: SimplePracticeViewProps) {
           <ChevronRight className="w-5 h-5 ml-1" />
         </Button>
       </div>
+
+      {/* Coverage of the run scored from the follower's transcript */}
+      <Dialog open={coverageReport !== null} onOpenChange={(open) => !open && setCoverageReport(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Run Coverage</DialogTitle>
+            <DialogDescription>What you said compared with each slide's script and guide</DialogDescription>
+          </DialogHeader>
+          {coverageReport && (
+            <CoverageReportCard
+              report={coverageReport}
+              history={coverageHistory}
+              onSlideSelect={(slideIndex) => {
+                setCoverageReport(null);
+                handleSlideSelect(slideIndex);
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -0,0 +1,94 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { parseSlideScript } from '../utils/script-markup';
+import { buildScriptTrack, createFollowPosition, followWords, type FollowPosition, type WordRange } from '../utils/script-follower';
+import type { TranscriptSource } from '../services/transcript-sources';
+
+interface UseScriptFollowerProps {
+  script: string;                  // Current slide's script
+  onScriptComplete?: () => void;   // Last sentence heard - called once per script
+  onHeardWords?: (words: string[]) => void; // Every recognised word, e.g. to keep a transcript of the run
+}
+
+/**
+ * Follow the speaker through the current slide's script
+ * The transcript source keeps running across slide changes; the position
+ * resets whenever the script changes.
+ */
+export const useScriptFollower = ({ script, onScriptComplete, onHeardWords }: UseScriptFollowerProps) => {
+  const track = useMemo(() => buildScriptTrack(parseSlideScript(script)), [script]);
+  const [position, setPosition] = useState<FollowPosition>(createFollowPosition);
+  const [activeSource, setActiveSource] = useState<TranscriptSource | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const trackRef = useRef(track);
+  const sourceRef = useRef<TranscriptSource | null>(null);
+  const completedRef = useRef(false);
+  const onCompleteRef = useRef(onScriptComplete);
+  const onHeardWordsRef = useRef(onHeardWords);
+
+  useEffect(() => {
+    onCompleteRef.current = onScriptComplete;
+    onHeardWordsRef.current = onHeardWords;
+  }, [onScriptComplete, onHeardWords]);
+
+  // New slide (or edited script) - start again from its first word
+  useEffect(() => {
+    trackRef.current = track;
+    completedRef.current = false;
+    setPosition(createFollowPosition());
+  }, [track]);
+
+  useEffect(() => {
+    if (position.isComplete && !completedRef.current) {
+      completedRef.current = true;
+      onCompleteRef.current?.();
+    }
+  }, [position.isComplete]);
+
+  const stop = useCallback(() => {
+    const source = sourceRef.current;
+    sourceRef.current = null;
+    source?.stop();
+    setActiveSource(null);
+  }, []);
+
+  const listen = useCallback((source: TranscriptSource) => {
+    sourceRef.current?.stop();
+    sourceRef.current = source;
+    setActiveSource(source);
+    setError(null);
+
+    source.start({
+      onWords: (words) => {
+        setPosition(current => followWords(trackRef.current, current, words));
+        onHeardWordsRef.current?.(words);
+      },
+      onError: setError,
+      onEnd: () => {
+        // Ignore the end of a source that has already been replaced
+        if (sourceRef.current === source) {
+          sourceRef.current = null;
+          setActiveSource(null);
+        }
+      }
+    });
+  }, []);
+
+  // Release the microphone or timer when the view closes
+  useEffect(() => stop, [stop]);
+
+  const currentSentence: WordRange | null = activeSource || position.wordIndex > 0
+    ? track.sentences[position.sentenceIndex] || null
+    : null;
+
+  return {
+    track,
+    position,
+    currentSentence,
+    activeSource,
+    isListening: activeSource !== null,
+    error,
+    listen,
+    stop
+  };
+};
@@ -0,0 +1,198 @@
+import { AVERAGE_WORDS_PER_MINUTE } from '../utils/script-processor';
+
+/**
+ * Transcript sources
+ * Anything that can turn speech into a stream of words - the browser
+ * recogniser, a cloud service, or a canned transcript for testing
+ */
+
+export interface TranscriptHandlers {
+  onWords: (words: string[]) => void;   // Newly recognised words, in order
+  onError?: (message: string) => void;
+  onEnd?: () => void;                    // Source finished or was stopped
+}
+
+export interface TranscriptSource {
+  readonly label: string;
+  start(handlers: TranscriptHandlers): void;
+  stop(): void;
+}
+
+// Minimal Web Speech API surface - not part of the TypeScript DOM library
+interface SpeechRecognitionResultLike {
+  readonly length: number;
+  readonly [index: number]: { transcript: string };
+}
+
+interface SpeechRecognitionEventLike {
+  readonly resultIndex: number;
+  readonly results: { readonly length: number; readonly [index: number]: SpeechRecognitionResultLike };
+}
+
+interface SpeechRecognitionLike {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  onresult: ((event: SpeechRecognitionEventLike) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+function getSpeechRecognition(): SpeechRecognitionConstructor | null {
+  const globals = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return globals.SpeechRecognition || globals.webkitSpeechRecognition || null;
+}
+
+/**
+ * Whether the browser has a built-in speech recogniser
+ */
+export function isSpeechRecognitionSupported(): boolean {
+  return typeof window !== 'undefined' && getSpeechRecognition() !== null;
+}
+
+function splitWords(text: string): string[] {
+  return text.split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Microphone transcript from the browser's Web Speech recogniser
+ * Interim results are used so the position moves while a phrase is still
+ * being spoken; only words beyond those already sent are emitted.
+ */
+export class WebSpeechTranscriptSource implements TranscriptSource {
+  readonly label = 'Microphone';
+  private recognition: SpeechRecognitionLike | null = null;
+  private isRunning = false;
+  private lang: string;
+
+  constructor(lang = navigator.language || 'en-US') {
+    this.lang = lang;
+  }
+
+  start(handlers: TranscriptHandlers): void {
+    const Recognition = getSpeechRecognition();
+    if (!Recognition) {
+      handlers.onError?.('Speech recognition is not supported in this browser');
+      handlers.onEnd?.();
+      return;
+    }
+
+    const recognition = new Recognition();
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    recognition.lang = this.lang;
+
+    let emittedCounts: number[] = [];
+
+    recognition.onresult = (event) => {
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const words = splitWords(event.results[i][0]?.transcript || '');
+        const emitted = emittedCounts[i] || 0;
+        if (words.length > emitted) {
+          handlers.onWords(words.slice(emitted));
+          emittedCounts[i] = words.length;
+        }
+      }
+    };
+
+    recognition.onerror = (event) => {
+      // Silence is routine - the recogniser restarts on end
+      if (event.error === 'no-speech' || event.error === 'aborted') return;
+      console.error('❌ Speech recognition error:', event.error);
+      handlers.onError?.(event.error === 'not-allowed'
+        ? 'Microphone access was denied'
+        : `Speech recognition failed: ${event.error}`);
+      this.isRunning = false;
+    };
+
+    // Browsers end recognition after a pause in speech - keep listening
+    recognition.onend = () => {
+      if (this.isRunning) {
+        emittedCounts = [];
+        recognition.start();
+      } else {
+        handlers.onEnd?.();
+      }
+    };
+
+    this.recognition = recognition;
+    this.isRunning = true;
+    recognition.start();
+    console.log('🎙️ Listening for speech');
+  }
+
+  stop(): void {
+    this.isRunning = false;
+    this.recognition?.stop();
+    this.recognition = null;
+  }
+}
+
+export interface MockTranscriptOptions {
+  wordsPerMinute?: number;
+  wordsPerChunk?: number; // Words delivered together, like a recogniser's partial result
+}
+
+/**
+ * Replays a fixed transcript at speaking pace
+ * For trying the follower without a microphone or cloud recogniser
+ */
+export class MockTranscriptSource implements TranscriptSource {
+  readonly label: string;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private handlers: TranscriptHandlers | null = null;
+  private words: string[];
+  private options: MockTranscriptOptions;
+
+  constructor(transcript: string | string[], options: MockTranscriptOptions = {}, label = 'Simulated speech') {
+    this.label = label;
+    this.options = options;
+    this.words = Array.isArray(transcript)
+      ? transcript.flatMap(splitWords)
+      : splitWords(transcript);
+  }
+
+  /**
+   * Load a plain-text transcript file
+   */
+  static async fromFile(file: File, options: MockTranscriptOptions = {}): Promise<MockTranscriptSource> {
+    const text = await file.text();
+    return new MockTranscriptSource(text, options, file.name);
+  }
+
+  start(handlers: TranscriptHandlers): void {
+    this.stop();
+    this.handlers = handlers;
+
+    const wordsPerChunk = Math.max(1, this.options.wordsPerChunk || 1);
+    const wordsPerMinute = this.options.wordsPerMinute || AVERAGE_WORDS_PER_MINUTE;
+    const intervalMs = (60000 / wordsPerMinute) * wordsPerChunk;
+    let next = 0;
+
+    this.timer = setInterval(() => {
+      if (next >= this.words.length) {
+        this.stop();
+        return;
+      }
+      handlers.onWords(this.words.slice(next, next + wordsPerChunk));
+      next += wordsPerChunk;
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    const handlers = this.handlers;
+    this.handlers = null;
+    handlers?.onEnd?.();
+  }
+}
@@ -0,0 +1,97 @@
+import type { SlideMastery } from '../../../core/types';
+import { tokenize } from '../../script/utils/slide-text-matching';
+import { parseSlideScript } from './script-markup';
+import { getSpokenWords } from './script-follower';
+
+/**
+ * Cloze memorization drill
+ *
+ * Each pass hides a larger share of a slide's spoken words. Words are hidden
+ * in a fixed order so every pass hides a superset of the previous one:
+ * 1. content words
+ * 2. small function words
+ * 3. words from the guide's key concepts - the anchors you need most, hidden last
+ * Within each group the order is a stable shuffle so blanks spread over the script.
+ */
+
+/** Share of words hidden at each drill level */
+export const CLOZE_STAGES = [0.15, 0.3, 0.5, 0.7, 0.85, 1];
+
+/** Level reached after passing the fully hidden stage */
+export const MASTERED_LEVEL = CLOZE_STAGES.length;
+
+export type DrillGrade = 'struggled' | 'partly' | 'nailed';
+
+export interface ClozeWord {
+  text: string;          // Word as written, with its punctuation
+  isHidden: boolean;
+  isKeyConcept: boolean;
+}
+
+/**
+ * Share of words hidden for a mastery level
+ */
+export function getHideRatio(level: number): number {
+  return CLOZE_STAGES[Math.min(Math.max(0, level), CLOZE_STAGES.length - 1)];
+}
+
+// FNV-1a - a stable per-word shuffle key
+function hashWord(word: string, index: number): number {
+  let hash = 2166136261;
+  const key = `${word}:${index}`;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Build the drill text for a slide script
+ * @param script - Slide script (markup is stripped; only spoken words are drilled)
+ * @param hideRatio - Share of words to hide (0-1)
+ * @param keyConcepts - Guide key concepts to protect until last
+ * @returns Words per paragraph
+ */
+export function buildCloze(script: string, hideRatio: number, keyConcepts: string[] = []): ClozeWord[][] {
+  const protectedTerms = new Set(tokenize(keyConcepts.join(' ').replace(/\*\*/g, '')));
+  const paragraphs = getSpokenWords(parseSlideScript(script));
+
+  const words = paragraphs.flat().map((text, index) => {
+    const terms = tokenize(text);
+    const isKeyConcept = terms.some(term => protectedTerms.has(term));
+    const group = isKeyConcept ? 2 : terms.length > 0 ? 0 : 1;
+    return { index, group, order: hashWord(text.toLowerCase(), index), isKeyConcept };
+  });
+
+  const hideCount = Math.round(words.length * Math.min(1, Math.max(0, hideRatio)));
+  const hidden = new Set(
+    [...words]
+      .sort((a, b) => a.group - b.group || a.order - b.order)
+      .slice(0, hideCount)
+      .map(word => word.index)
+  );
+
+  let index = 0;
+  return paragraphs.map(paragraph =>
+    paragraph.map(text => {
+      const word = words[index++];
+      return { text, isHidden: hidden.has(word.index), isKeyConcept: word.isKeyConcept };
+    })
+  );
+}
+
+/**
+ * Apply a self-grade to a slide's mastery
+ * Nailing a pass moves to the next level, struggling moves back one
+ */
+export function gradeMastery(current: SlideMastery | undefined, grade: DrillGrade): SlideMastery {
+  const level = current?.level ?? 0;
+  const change = grade === 'nailed' ? 1 : grade === 'struggled' ? -1 : 0;
+
+  return {
+    level: Math.min(MASTERED_LEVEL, Math.max(0, level + change)),
+    passes: (current?.passes ?? 0) + 1,
+    lastDrilledAt: new Date()
+  };
+}
@@ -0,0 +1,189 @@
+import type { SlideScriptNode } from './script-markup';
+
+/**
+ * Script follower
+ * Aligns recognised speech to a slide's script word by word so the UI
+ * can highlight the sentence being spoken and know when the slide is done.
+ *
+ * Matching is deliberately forgiving - recognisers drop, mishear and
+ * insert words, and speakers paraphrase:
+ * - each heard word is looked for a short way ahead of the current position
+ * - near matches (one or two letters off, shared stem) count
+ * - small skips are accepted straight away; a longer jump needs two heard
+ *   words in a row to agree before the position moves
+ * - words that match nothing (fillers, ad libs) are ignored
+ */
+
+export interface WordRange {
+  start: number; // First word index
+  end: number;   // One past the last word index
+}
+
+export interface TrackedSentence extends WordRange {
+  text: string;
+}
+
+export interface ScriptTrack {
+  words: string[];            // Normalised spoken words in script order
+  sentences: TrackedSentence[];
+}
+
+export interface FollowPosition {
+  wordIndex: number;          // Next script word expected
+  sentenceIndex: number;      // Sentence being spoken (or about to be)
+  pendingJump: number | null; // Far-ahead match waiting for a confirming word
+  isComplete: boolean;        // Enough of the last sentence has been heard
+}
+
+const LOOKAHEAD_WORDS = 12;   // How far ahead a heard word is searched for
+const MAX_FREE_SKIP = 3;      // Skips up to this many words need no confirmation
+const COMPLETE_RATIO = 0.7;   // Share of the last sentence that must be heard
+
+const NUMBER_WORDS: Record<string, string> = {
+  zero: '0', one: '1', two: '2', three: '3', four: '4', five: '5',
+  six: '6', seven: '7', eight: '8', nine: '9', ten: '10'
+};
+
+/**
+ * Lower-case a word and drop punctuation so script and transcript compare
+ */
+export function normalizeWord(word: string): string {
+  const normalized = word.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return NUMBER_WORDS[normalized] || normalized;
+}
+
+/**
+ * Spoken words of a parsed script, in the order they are rendered
+ * Splitting matches ScriptMarkupView so word indices line up with the display
+ */
+export function getSpokenWords(document: SlideScriptNode): string[][] {
+  return document.paragraphs.map(paragraph =>
+    paragraph.children.flatMap(child =>
+      child.type === 'text' || child.type === 'emphasis'
+        ? child.text.split(/\s+/).filter(Boolean)
+        : []
+    )
+  );
+}
+
+/**
+ * Build the word and sentence index for one slide's script
+ */
+export function buildScriptTrack(document: SlideScriptNode): ScriptTrack {
+  const words: string[] = [];
+  const sentences: TrackedSentence[] = [];
+
+  getSpokenWords(document).forEach(paragraphWords => {
+    let sentenceStart = words.length;
+    let sentenceText: string[] = [];
+
+    paragraphWords.forEach((word, index) => {
+      words.push(normalizeWord(word));
+      sentenceText.push(word);
+
+      const endsSentence = /[.!?]["')\]]*$/.test(word) || index === paragraphWords.length - 1;
+      if (endsSentence) {
+        sentences.push({ start: sentenceStart, end: words.length, text: sentenceText.join(' ') });
+        sentenceStart = words.length;
+        sentenceText = [];
+      }
+    });
+  });
+
+  return { words, sentences };
+}
+
+export function createFollowPosition(): FollowPosition {
+  return { wordIndex: 0, sentenceIndex: 0, pendingJump: null, isComplete: false };
+}
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+/**
+ * Whether a heard word is close enough to a script word
+ */
+export function wordsMatch(scriptWord: string, heardWord: string): boolean {
+  if (!scriptWord || !heardWord) return false;
+  if (scriptWord === heardWord) return true;
+
+  const shorter = Math.min(scriptWord.length, heardWord.length);
+  if (shorter < 4) return false;
+
+  // Shared stem: "recognise" / "recognised"
+  if (shorter >= 5 && (scriptWord.startsWith(heardWord) || heardWord.startsWith(scriptWord))) {
+    return true;
+  }
+
+  return editDistance(scriptWord, heardWord) <= (shorter <= 6 ? 1 : 2);
+}
+
+function findSentence(track: ScriptTrack, wordIndex: number): number {
+  const index = track.sentences.findIndex(sentence => wordIndex < sentence.end);
+  return index === -1 ? Math.max(0, track.sentences.length - 1) : index;
+}
+
+/**
+ * Advance the position with newly heard words
+ * @param track - Script being followed
+ * @param position - Position before these words
+ * @param heardWords - Raw recogniser output, in order
+ */
+export function followWords(track: ScriptTrack, position: FollowPosition, heardWords: string[]): FollowPosition {
+  if (track.words.length === 0) return position;
+
+  let { wordIndex, pendingJump } = position;
+
+  heardWords.forEach(rawWord => {
+    const heard = normalizeWord(rawWord);
+    if (!heard) return;
+
+    // A far match is confirmed when the following script word is heard next
+    if (pendingJump !== null && wordsMatch(track.words[pendingJump + 1], heard)) {
+      wordIndex = pendingJump + 2;
+      pendingJump = null;
+      return;
+    }
+
+    const limit = Math.min(track.words.length, wordIndex + LOOKAHEAD_WORDS);
+    let match = -1;
+    for (let i = wordIndex; i < limit; i++) {
+      if (wordsMatch(track.words[i], heard)) {
+        match = i;
+        break;
+      }
+    }
+    if (match === -1) return;
+
+    if (match - wordIndex <= MAX_FREE_SKIP) {
+      wordIndex = match + 1;
+      pendingJump = null;
+    } else {
+      pendingJump = match;
+    }
+  });
+
+  const spokenIndex = Math.max(0, wordIndex - 1);
+  const sentenceIndex = wordIndex === 0 ? 0 : findSentence(track, spokenIndex);
+
+  const lastSentence = track.sentences[track.sentences.length - 1];
+  const lastLength = lastSentence.end - lastSentence.start;
+  const isComplete = wordIndex - lastSentence.start >= Math.ceil(lastLength * COMPLETE_RATIO);
+
+  return { wordIndex, sentenceIndex, pendingJump, isComplete };
+}
@@ -0,0 +1,414 @@
+/**
+ * Script markup - lightweight directives inside presenter scripts
+ *
+ *   [[slide 3]]        Start of the script for slide 3 (full scripts only)
+ *   [pause 2s]         Planned pause; also [pause], [pause 1.5s], [pause 500ms]
+ *   *emphasis*         Stress these words (**double** stars work too)
+ *   * point            A star and a space at the start of a line is a list bullet
+ *   [click]            Advance a build/animation on the current slide
+ *   // comment         Presenter-only note to the end of the line (never spoken)
+ *   \*  \[  \/         Escape a character that would otherwise start a directive
+ *
+ * A star only marks emphasis when it hugs a word (*word*, not 2 * 3).
+ * A blank line starts a new paragraph. Anything else is spoken text.
+ *
+ * tokenizeScript() turns source into tokens, parseScriptMarkup() builds a
+ * ScriptDocument with one SlideScriptNode per [[slide N]] section.
+ */
+
+export type MarkupToken =
+  | { type: 'text'; value: string; offset: number }
+  | { type: 'newline'; offset: number }
+  | { type: 'slide'; slideNumber: number; offset: number; length: number }
+  | { type: 'pause'; seconds: number; offset: number }
+  | { type: 'click'; offset: number }
+  | { type: 'emphasis'; marker: '*' | '**'; canOpen: boolean; canClose: boolean; offset: number }
+  | { type: 'comment'; value: string; offset: number };
+
+export type ScriptInline =
+  | { type: 'text'; text: string }
+  | { type: 'emphasis'; text: string }
+  | { type: 'pause'; seconds: number }
+  | { type: 'click'; index: number } // 1-based build number within the slide
+  | { type: 'comment'; text: string };
+
+export interface ScriptParagraph {
+  type: 'paragraph';
+  children: ScriptInline[];
+}
+
+export interface SlideScriptNode {
+  type: 'slide';
+  slideNumber: number | null; // null for text before the first [[slide N]] marker
+  source: string;             // Markup for this slide without its [[slide N]] marker
+  paragraphs: ScriptParagraph[];
+}
+
+export interface MarkupWarning {
+  message: string;
+  offset: number;
+}
+
+export interface ScriptDocument {
+  type: 'document';
+  slides: SlideScriptNode[];
+  hasSlideMarkers: boolean;
+  warnings: MarkupWarning[];
+}
+
+/**
+ * Quick reference shown in editors
+ */
+export const SCRIPT_MARKUP_REFERENCE: { syntax: string; description: string }[] = [
+  { syntax: '[[slide 3]]', description: 'Start the script for slide 3' },
+  { syntax: '[pause 2s]', description: 'Planned pause' },
+  { syntax: '*words*', description: 'Emphasis' },
+  { syntax: '[click]', description: 'Advance a build on the slide' },
+  { syntax: '// note', description: 'Presenter-only comment' }
+];
+
+const DEFAULT_PAUSE_SECONDS = 1;
+
+const SLIDE_PATTERN = /^\[\[\s*slide\s+(\d+)\s*\]\]/i;
+const PAUSE_PATTERN = /^\[pause(?:\s+(\d+(?:\.\d+)?)\s*(ms|s|sec|seconds?)?)?\s*\]/i;
+const CLICK_PATTERN = /^\[click\]/i;
+
+/**
+ * Split script source into markup tokens
+ */
+export function tokenizeScript(source: string): MarkupToken[] {
+  const tokens: MarkupToken[] = [];
+  let text = '';
+  let textStart = 0;
+
+  const flushText = () => {
+    if (text) tokens.push({ type: 'text', value: text, offset: textStart });
+    text = '';
+  };
+  const appendText = (value: string, offset: number) => {
+    if (!text) textStart = offset;
+    text += value;
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    const rest = source.slice(i, i + 40);
+
+    // Escaped character is always literal
+    if (char === '\\' && i + 1 < source.length && '*[/\\'.includes(source[i + 1])) {
+      appendText(source[i + 1], i);
+      i += 2;
+      continue;
+    }
+
+    if (char === '\n') {
+      flushText();
+      tokens.push({ type: 'newline', offset: i });
+      i++;
+      continue;
+    }
+
+    // Comments start at a line start or after whitespace, so URLs are left alone
+    if (char === '/' && source[i + 1] === '/' && (i === 0 || /\s/.test(source[i - 1]))) {
+      flushText();
+      const end = source.indexOf('\n', i);
+      const commentEnd = end === -1 ? source.length : end;
+      tokens.push({ type: 'comment', value: source.slice(i + 2, commentEnd).trim(), offset: i });
+      i = commentEnd;
+      continue;
+    }
+
+    if (char === '[') {
+      const slideMatch = rest.match(SLIDE_PATTERN);
+      if (slideMatch) {
+        flushText();
+        tokens.push({ type: 'slide', slideNumber: Number(slideMatch[1]), offset: i, length: slideMatch[0].length });
+        i += slideMatch[0].length;
+        continue;
+      }
+
+      const pauseMatch = rest.match(PAUSE_PATTERN);
+      if (pauseMatch) {
+        flushText();
+        const amount = pauseMatch[1] ? Number(pauseMatch[1]) : DEFAULT_PAUSE_SECONDS;
+        const seconds = pauseMatch[2]?.toLowerCase() === 'ms' ? amount / 1000 : amount;
+        tokens.push({ type: 'pause', seconds, offset: i });
+        i += pauseMatch[0].length;
+        continue;
+      }
+
+      const clickMatch = rest.match(CLICK_PATTERN);
+      if (clickMatch) {
+        flushText();
+        tokens.push({ type: 'click', offset: i });
+        i += clickMatch[0].length;
+        continue;
+      }
+    }
+
+    if (char === '*') {
+      const marker = source[i + 1] === '*' ? '**' : '*';
+      const previous = source[i - 1];
+      const next = source[i + marker.length];
+      const lineStart = source.lastIndexOf('\n', i - 1) + 1;
+
+      // List bullet - dropped, the item keeps its own line
+      if (marker === '*' && (next === ' ' || next === '\t') && /^[ \t]*$/.test(source.slice(lineStart, i))) {
+        flushText();
+        i += 2;
+        continue;
+      }
+
+      // Opens before a word, closes after one - a star with space on both sides is just a star
+      const canOpen = next !== undefined && !/\s/.test(next);
+      const canClose = previous !== undefined && !/\s/.test(previous);
+      if (canOpen || canClose) {
+        flushText();
+        tokens.push({ type: 'emphasis', marker, canOpen, canClose, offset: i });
+      } else {
+        appendText(marker, i);
+      }
+      i += marker.length;
+      continue;
+    }
+
+    appendText(char, i);
+    i++;
+  }
+
+  flushText();
+  return tokens;
+}
+
+/**
+ * Append text to a paragraph, merging with a preceding text node
+ */
+function pushText(children: ScriptInline[], text: string) {
+  if (!text) return;
+  const last = children[children.length - 1];
+  if (last?.type === 'text') {
+    last.text += text;
+  } else {
+    children.push({ type: 'text', text });
+  }
+}
+
+/**
+ * Build the AST for one run of tokens (a single slide's script)
+ */
+function parseSlideTokens(tokens: MarkupToken[], warnings: MarkupWarning[]): ScriptParagraph[] {
+  const paragraphs: ScriptParagraph[] = [];
+  let children: ScriptInline[] = [];
+  let clickCount = 0;
+  let pendingNewlines = 0;
+
+  // Open emphasis: its marker and the raw text collected so far
+  let emphasis: { marker: '*' | '**'; text: string; offset: number } | null = null;
+
+  const closeEmphasisAsLiteral = () => {
+    if (!emphasis) return;
+    warnings.push({ message: `Unclosed ${emphasis.marker} emphasis`, offset: emphasis.offset });
+    pushText(children, emphasis.marker + emphasis.text);
+    emphasis = null;
+  };
+
+  const endParagraph = () => {
+    closeEmphasisAsLiteral();
+    // Trim soft line breaks at the paragraph edges
+    const first = children[0];
+    if (first?.type === 'text') first.text = first.text.replace(/^\s+/, '');
+    const last = children[children.length - 1];
+    if (last?.type === 'text') last.text = last.text.replace(/\s+$/, '');
+    children = children.filter(child => child.type !== 'text' || child.text);
+    if (children.length > 0) paragraphs.push({ type: 'paragraph', children });
+    children = [];
+  };
+
+  for (const token of tokens) {
+    if (token.type === 'newline') {
+      pendingNewlines++;
+      continue;
+    }
+
+    // Whitespace-only text between newlines does not break a blank line
+    if (token.type === 'text' && pendingNewlines > 0 && !token.value.trim()) {
+      continue;
+    }
+
+    if (pendingNewlines > 0) {
+      if (pendingNewlines >= 2) {
+        endParagraph();
+      } else if (emphasis) {
+        emphasis.text += '\n';
+      } else {
+        pushText(children, '\n');
+      }
+      pendingNewlines = 0;
+    }
+
+    switch (token.type) {
+      case 'text':
+        if (emphasis) emphasis.text += token.value;
+        else pushText(children, token.value);
+        break;
+
+      case 'emphasis':
+        if (emphasis && emphasis.marker === token.marker && token.canClose) {
+          if (emphasis.text.trim()) {
+            children.push({ type: 'emphasis', text: emphasis.text.trim() });
+          } else {
+            pushText(children, emphasis.marker + emphasis.text + token.marker);
+          }
+          emphasis = null;
+        } else if (emphasis) {
+          emphasis.text += token.marker;
+        } else if (token.canOpen) {
+          emphasis = { marker: token.marker, text: '', offset: token.offset };
+        } else {
+          pushText(children, token.marker);
+        }
+        break;
+
+      case 'pause':
+        closeEmphasisAsLiteral();
+        children.push({ type: 'pause', seconds: token.seconds });
+        break;
+
+      case 'click':
+        closeEmphasisAsLiteral();
+        children.push({ type: 'click', index: ++clickCount });
+        break;
+
+      case 'comment':
+        closeEmphasisAsLiteral();
+        children.push({ type: 'comment', text: token.value });
+        break;
+
+      case 'slide':
+        // Slide markers are split out before this point
+        warnings.push({ message: `Unexpected [[slide ${token.slideNumber}]] marker`, offset: token.offset });
+        break;
+    }
+  }
+
+  endParagraph();
+  return paragraphs;
+}
+
+/**
+ * Parse a script (full or per-slide) into a typed document
+ */
+export function parseScriptMarkup(source: string): ScriptDocument {
+  const tokens = tokenizeScript(source);
+  const warnings: MarkupWarning[] = [];
+  const slides: SlideScriptNode[] = [];
+
+  let sectionTokens: MarkupToken[] = [];
+  let sectionNumber: number | null = null;
+  let sectionStart = 0;
+
+  const finishSection = (sectionEnd: number) => {
+    const sectionSource = source.slice(sectionStart, sectionEnd).trim();
+    if (sectionNumber === null && !sectionSource) return;
+    slides.push({
+      type: 'slide',
+      slideNumber: sectionNumber,
+      source: sectionSource,
+      paragraphs: parseSlideTokens(sectionTokens, warnings)
+    });
+  };
+
+  for (const token of tokens) {
+    if (token.type === 'slide') {
+      finishSection(token.offset);
+      sectionTokens = [];
+      sectionNumber = token.slideNumber;
+      sectionStart = token.offset + token.length;
+      if (token.slideNumber < 1) {
+        warnings.push({ message: 'Slide numbers start at 1', offset: token.offset });
+      }
+    } else {
+      sectionTokens.push(token);
+    }
+  }
+  finishSection(source.length);
+
+  return {
+    type: 'document',
+    slides,
+    hasSlideMarkers: slides.some(slide => slide.slideNumber !== null),
+    warnings
+  };
+}
+
+/**
+ * Parse one slide's script into a single node
+ * Any [[slide N]] markers inside are ignored
+ */
+export function parseSlideScript(script: string): SlideScriptNode {
+  const document = parseScriptMarkup(script);
+  return {
+    type: 'slide',
+    slideNumber: null,
+    source: script.trim(),
+    paragraphs: document.slides.flatMap(slide => slide.paragraphs)
+  };
+}
+
+/**
+ * Only the words the presenter says - directives and comments removed
+ * @param options.markEmphasis - Wrap emphasis in **double stars** instead of dropping the markers
+ */
+export function getSpokenText(node: SlideScriptNode, options: { markEmphasis?: boolean } = {}): string {
+  return node.paragraphs
+    .map(paragraph =>
+      paragraph.children
+        .map(child => {
+          if (child.type === 'text') return child.text;
+          if (child.type === 'emphasis') return options.markEmphasis ? `**${child.text}**` : child.text;
+          return ' ';
+        })
+        .join('')
+        .replace(/[ \t]{2,}/g, ' ')
+        .replace(/ +([.,;:!?])/g, '$1')
+        .replace(/[ \t]*\n[ \t\n]*/g, '\n') // Lines that held only a comment or directive
+        .trim()
+    )
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * True when a script uses any markup directive
+ */
+export function hasScriptMarkup(source: string): boolean {
+  return tokenizeScript(source).some(token => token.type !== 'text' && token.type !== 'newline');
+}
+
+/**
+ * Split a full script on [[slide N]] markers
+ * Text before the first marker goes to slide 1; repeated markers append.
+ * With a slide count, sections past the last slide are appended to it so
+ * no text is lost.
+ * @returns One script per slide (markup kept), or null when there are no markers
+ */
+export function splitScriptBySlideMarkers(fullScript: string, slideCount?: number): string[] | null {
+  const document = parseScriptMarkup(fullScript);
+  if (!document.hasSlideMarkers) return null;
+
+  const highestSlide = Math.max(...document.slides.map(slide => slide.slideNumber || 1));
+  const scripts: string[] = Array(Math.max(slideCount || 0, highestSlide)).fill('');
+
+  document.slides.forEach(slide => {
+    const index = Math.max(0, (slide.slideNumber || 1) - 1);
+    scripts[index] = scripts[index] ? `${scripts[index]}\n\n${slide.source}` : slide.source;
+  });
+
+  if (slideCount && scripts.length > slideCount) {
+    console.warn(`⚠️ Script has markers up to slide ${highestSlide} but the deck has ${slideCount} slides - extra sections go to the last slide`);
+    const overflow = scripts.splice(slideCount).filter(script => script.trim());
+    scripts[slideCount - 1] = [scripts[slideCount - 1], ...overflow].filter(script => script.trim()).join('\n\n');
+  }
+  return scripts;
+}
@@ -5,15 +5,21 @@
 
 import { validateScriptLength, validateSlideCount, validateSectionCount } from '../../../shared/constants/limits';
 import { createDebugger } from '../../../shared/utils/debug';
+import { parseSlideScript, getSpokenText, splitScriptBySlideMarkers, type SlideScriptNode } from './script-markup';
+import type { Slide } from '../../../core/types';
 
 const debug = createDebugger('ScriptProcessor');
 
 export interface ProcessedScript {
   keyPoints: string[];
   transitionPhrases: string[];
-  timingCues: string[];
-  highlightedScript: string;
-  wordCount: number;
+  timingCues: string[];         // From [pause] and [click] directives
+  highlightedScript: string;    // Spoken text with **emphasis** markers
+  wordCount: number;            // Spoken words only
+  document: SlideScriptNode;    // Parsed script markup
+  presenterComments: string[];  // From // comments
+  totalPauseSeconds: number;
+  clickCount: number;
 }
 
 /**
@@ -52,15 +58,6 @@ const TRANSITION_PHRASES = [
   'as we can see', 'this brings us to', 'which leads to'
 ];
 
-/**
- * Timing and pacing cues
- */
-const TIMING_CUES = [
-  'pause', 'wait', 'take a moment', 'let that sink in',
-  'give them time', 'slow down', 'speed up', 'emphasize',
-  'repeat', 'click', 'advance', 'next slide'
-];
-
 /**
  * Extract key sentences that contain importance keywords
  */
@@ -121,30 +118,38 @@ function extractTransitionPhrases(script: string): string[] {
 }
 
 /**
- * Extract timing and pacing cues
+ * Last few words before a directive, for cue context
  */
-function extractTimingCues(script: string): string[] {
-  if (!script.trim()) return [];
-  
-  const lowerScript = script.toLowerCase();
-  const foundCues: string[] = [];
-  
-  TIMING_CUES.forEach(cue => {
-    if (lowerScript.includes(cue)) {
-      // Find the sentence containing the timing cue
-      const sentences = script.split(/[.!?]+/);
-      sentences.forEach(sentence => {
-        if (sentence.toLowerCase().includes(cue)) {
-          const cleanSentence = sentence.trim();
-          if (cleanSentence && !foundCues.includes(cleanSentence)) {
-            foundCues.push(cleanSentence.charAt(0).toUpperCase() + cleanSentence.slice(1));
-          }
-        }
-      });
-    }
+function trailingWords(text: string, count = 5): string {
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return '';
+  return (words.length > count ? '…' : '') + words.slice(-count).join(' ');
+}
+
+/**
+ * Timing and pacing cues from [pause] and [click] directives
+ */
+function extractTimingCues(document: SlideScriptNode): string[] {
+  const cues: string[] = [];
+  let spokenSoFar = '';
+
+  document.paragraphs.forEach(paragraph => {
+    paragraph.children.forEach(child => {
+      if (child.type === 'text' || child.type === 'emphasis') {
+        spokenSoFar += ' ' + child.text;
+        return;
+      }
+      const context = trailingWords(spokenSoFar);
+      const where = context ? ` after "${context}"` : ' before speaking';
+      if (child.type === 'pause') {
+        cues.push(`Pause ${child.seconds}s${where}`);
+      } else if (child.type === 'click') {
+        cues.push(`Click ${child.index} (build)${where}`);
+      }
+    });
   });
-  
-  return foundCues;
+
+  return cues;
 }
 
 /**
@@ -154,15 +159,35 @@ export function processScript(script: string): ProcessedScript {
   // Validate script size before processing
   validateScriptLength(script);
   
+  const document = parseSlideScript(script);
+  const spokenText = getSpokenText(document);
+  const inlines = document.paragraphs.flatMap(paragraph => paragraph.children);
+  
+  // Explicit *emphasis* comes first, then sentences with importance keywords
+  const emphasized = inlines.flatMap(child => (child.type === 'emphasis' ? [child.text] : []));
+  const keyPoints = emphasized.length > 0
+    ? [...emphasized, ...extractKeyPoints(spokenText).filter(point => !emphasized.includes(point))]
+        .slice(0, Math.max(emphasized.length, 3))
+    : extractKeyPoints(spokenText);
+  
   return {
-    keyPoints: extractKeyPoints(script),
-    transitionPhrases: extractTransitionPhrases(script),
-    timingCues: extractTimingCues(script),
-    highlightedScript: script, // Simplified - just return original script
-    wordCount: script.trim().split(/\s+/).length
+    keyPoints,
+    transitionPhrases: extractTransitionPhrases(spokenText),
+    timingCues: extractTimingCues(document),
+    highlightedScript: getSpokenText(document, { markEmphasis: true }),
+    wordCount: countWords(spokenText),
+    document,
+    presenterComments: inlines.flatMap(child => (child.type === 'comment' && child.text ? [child.text] : [])),
+    totalPauseSeconds: inlines.reduce((sum, child) => sum + (child.type === 'pause' ? child.seconds : 0), 0),
+    clickCount: inlines.filter(child => child.type === 'click').length
   };
 }
 
+/**
+ * Average speaking rate used for time estimates (words per minute)
+ */
+export const AVERAGE_WORDS_PER_MINUTE = 155;
+
 /**
  * Utility function to estimate speaking time based on word count
  * Assumes average speaking rate of 150-160 words per minute
@@ -170,8 +195,7 @@ export function processScript(script: string): ProcessedScript {
 export function estimateSpeakingTime(wordCount: number): string {
   if (wordCount === 0) return '0 minutes';
   
-  const averageWordsPerMinute = 155;
-  const minutes = Math.ceil(wordCount / averageWordsPerMinute);
+  const minutes = Math.ceil(wordCount / AVERAGE_WORDS_PER_MINUTE);
   
   if (minutes < 1) {
     return '< 1 minute';
@@ -182,6 +206,27 @@ export function estimateSpeakingTime(wordCount: number): string {
   }
 }
 
+/**
+ * Estimate speaking time in seconds (unrounded) for a word count
+ * Used where per-slide precision matters, e.g. rehearsal timing
+ */
+export function estimateSpeakingSeconds(
+  wordCount: number,
+  wordsPerMinute: number = AVERAGE_WORDS_PER_MINUTE
+): number {
+  if (wordCount <= 0 || wordsPerMinute <= 0) return 0;
+  return Math.round((wordCount / wordsPerMinute) * 60);
+}
+
+/**
+ * Count spoken words in a script
+ * Markup directives and // comments are not spoken, so they are not counted
+ */
+export function countWords(script: string): number {
+  const trimmed = getSpokenText(parseSlideScript(script)).trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+}
+
 /**
  * Parse a full script into slide sections with enhanced intelligence
  * Supports multiple formats and slide-count awareness
@@ -199,6 +244,17 @@ export function parseFullScript(fullScript: string, maxSlides?: number): ParsedS
   
   let sections: string[] = [];
   
+  // Strategy 0: [[slide N]] markup markers - exact, no guessing
+  const markedSections = splitScriptBySlideMarkers(fullScript, maxSlides);
+  if (markedSections) {
+    debug.log('✅ Using [[slide N]] markup');
+    return markedSections.map((section, index) => ({
+      slideNumber: index + 1,
+      script: section,
+      processed: processScript(section)
+    }));
+  }
+  
   // Strategy 1: Explicit "Slide N" markers
   const slideMarkerRegex = /slide\s+\d+/gi;
   const slideMarkers = [...fullScript.matchAll(slideMarkerRegex)];
@@ -598,11 +654,33 @@ export function generateContentGuide(
     };
   }
   
+  // Guides are built from what is said - markup directives and comments are dropped
+  const spoken = (script: string) => getSpokenText(parseSlideScript(script));
+  const current = spoken(currentScript);
+  
   return {
-    transitionFrom: previousScript ? generateTransitionFrom(previousScript, currentScript) : null,
-    keyMessages: extractKeyMessages(currentScript),
-    keyConcepts: extractKeyConcepts(currentScript),
-    transitionTo: nextScript ? generateTransitionTo(currentScript, nextScript) : null
+    transitionFrom: previousScript ? generateTransitionFrom(spoken(previousScript), current) : null,
+    keyMessages: extractKeyMessages(current),
+    keyConcepts: extractKeyConcepts(current),
+    transitionTo: nextScript ? generateTransitionTo(current, spoken(nextScript)) : null
   };
 }
 
+/**
+ * Guide for a slide - the saved one, or a local one built from the script
+ * @returns null when the slide has no script to guide
+ */
+export function getSlideGuide(slides: Slide[], index: number): ContentGuide | null {
+  const slide = slides[index];
+  if (slide.guide) return slide.guide;
+  if (!slide.script?.trim()) return null;
+
+  return generateContentGuide(slide.script, slides[index - 1]?.script, slides[index + 1]?.script);
+}
+
+/**
+ * Guide text without the **bold** markers of key messages
+ */
+export function stripMarkdown(text: string): string {
+  return text.replace(/\*\*(.*?)\*\*/g, '$1').trim();
+}
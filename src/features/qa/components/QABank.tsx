@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { usePresentationStore } from '../../../core/store/presentation';
+import { createQuestion, generateDeckQuestions, generateSlideQuestions } from '../utils/qa-bank';
+import type { QAItem } from '../../../core/types';
+import { Card, CardContent } from '../../../components/ui/card';
+import { Button } from '../../../components/ui/button';
+import { Input } from '../../../components/ui/input';
+import { Textarea } from '../../../components/ui/textarea';
+import { Badge } from '../../../components/ui/badge';
+import { Plus, Sparkles, Trash2 } from 'lucide-react';
+
+const SOURCE_LABELS: Record<QAItem['source'], string> = {
+  ai: 'AI coaching',
+  concept: 'From key concept',
+  manual: 'Added by you'
+};
+
+/**
+ * The deck's Q&A bank
+ * Deck-wide questions and each slide's questions, with editable answers
+ */
+export function QABank() {
+  const { currentPresentation, addQuestions } = usePresentationStore();
+
+  if (!currentPresentation) {
+    return null;
+  }
+
+  const slides = currentPresentation.slides;
+
+  // Templates over the key concepts - already banked questions are skipped
+  const handleGenerate = () => {
+    addQuestions(generateDeckQuestions(slides));
+    slides.forEach((slide, index) => {
+      addQuestions(generateSlideQuestions(slides, index), slide.id);
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Prepare answers to what the audience is likely to ask. Questions from AI coaching are added as you practise.
+        </p>
+        <Button variant="outline" size="sm" onClick={handleGenerate}>
+          <Sparkles className="w-4 h-4 mr-1" />
+          Generate from key concepts
+        </Button>
+      </div>
+
+      <QuestionSection title="Whole talk" questions={currentPresentation.questions || []} />
+
+      {slides.map((slide, index) => (
+        <QuestionSection
+          key={slide.id}
+          title={`Slide ${index + 1}`}
+          imageUrl={slide.imageUrl}
+          slideId={slide.id}
+          questions={slide.questions || []}
+        />
+      ))}
+    </div>
+  );
+}
+
+function QuestionSection({ title, imageUrl, slideId, questions }: {
+  title: string;
+  imageUrl?: string;
+  slideId?: string;     // Omitted for deck-wide questions
+  questions: QAItem[];
+}) {
+  const { addQuestions } = usePresentationStore();
+  const [newQuestion, setNewQuestion] = useState('');
+
+  const handleAdd = () => {
+    if (!newQuestion.trim()) return;
+    addQuestions([createQuestion(newQuestion, 'manual')], slideId);
+    setNewQuestion('');
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center gap-3">
+          {imageUrl && <img src={imageUrl} alt={title} className="w-16 rounded border object-contain" />}
+          <h3 className="font-semibold">{title}</h3>
+          <Badge variant="secondary" className="text-xs">
+            {questions.length} {questions.length === 1 ? 'question' : 'questions'}
+          </Badge>
+        </div>
+
+        {questions.map(item => (
+          <QuestionEditor key={item.id} item={item} />
+        ))}
+
+        <div className="flex gap-2">
+          <Input
+            value={newQuestion}
+            onChange={(e) => setNewQuestion(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleAdd();
+            }}
+            placeholder="Add a question you expect..."
+            className="text-sm"
+          />
+          <Button variant="outline" size="sm" onClick={handleAdd} disabled={!newQuestion.trim()}>
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function QuestionEditor({ item }: { item: QAItem }) {
+  const { updateQuestion, deleteQuestion } = usePresentationStore();
+
+  return (
+    <div className="rounded-md border p-3 space-y-2">
+      <div className="flex items-start gap-2">
+        <Input
+          value={item.question}
+          onChange={(e) => updateQuestion(item.id, { question: e.target.value })}
+          className="font-medium text-sm"
+          aria-label="Question"
+        />
+        <Button variant="ghost" size="sm" onClick={() => deleteQuestion(item.id)} title="Delete question">
+          <Trash2 className="w-4 h-4 text-gray-400" />
+        </Button>
+      </div>
+      <Textarea
+        value={item.answer}
+        onChange={(e) => updateQuestion(item.id, { answer: e.target.value })}
+        placeholder="Your answer..."
+        className="min-h-[60px] text-sm"
+        aria-label="Answer"
+      />
+      <p className="text-xs text-gray-400">{SOURCE_LABELS[item.source]}</p>
+    </div>
+  );
+}
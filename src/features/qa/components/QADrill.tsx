@@ -0,0 +1,190 @@
+import { useCallback, useEffect, useState } from 'react';
+import { listQuestions, shuffle, type BankQuestion } from '../utils/qa-bank';
+import type { Presentation } from '../../../core/types';
+import { formatDuration } from '../../sessions/utils/session-timing';
+import { Card, CardContent } from '../../../components/ui/card';
+import { Button } from '../../../components/ui/button';
+import { Badge } from '../../../components/ui/badge';
+import { Play, RotateCcw, Timer } from 'lucide-react';
+
+interface QADrillProps {
+  presentation: Presentation;
+}
+
+const ANSWER_TIME_OPTIONS = [30, 60, 90, 120];
+
+/**
+ * Timed Q&A drill
+ * Asks the banked questions in random order with a countdown for each answer,
+ * then shows the prepared answer to compare against
+ */
+export function QADrill({ presentation }: QADrillProps) {
+  const [answerSeconds, setAnswerSeconds] = useState(60);
+  const [queue, setQueue] = useState<BankQuestion[] | null>(null);
+  const [position, setPosition] = useState(0);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [isAnswerShown, setIsAnswerShown] = useState(false);
+  const [overtimeCount, setOvertimeCount] = useState(0);
+
+  const bankSize = listQuestions(presentation).length;
+  const current = queue?.[position];
+  const isFinished = !!queue && position >= queue.length;
+
+  const start = () => {
+    setQueue(shuffle(listQuestions(presentation)));
+    setPosition(0);
+    setSecondsLeft(answerSeconds);
+    setIsAnswerShown(false);
+    setOvertimeCount(0);
+  };
+
+  const reveal = useCallback(() => {
+    setIsAnswerShown(true);
+    if (secondsLeft <= 0) setOvertimeCount(count => count + 1);
+  }, [secondsLeft]);
+
+  const next = useCallback(() => {
+    setPosition(index => index + 1);
+    setSecondsLeft(answerSeconds);
+    setIsAnswerShown(false);
+  }, [answerSeconds]);
+
+  // Countdown runs while answering, stops once the prepared answer is shown
+  const isCounting = !!current && !isAnswerShown;
+  useEffect(() => {
+    if (!isCounting) return;
+
+    const interval = setInterval(() => {
+      setSecondsLeft(seconds => Math.max(0, seconds - 1));
+    }, 1000);
+
+    return () => {
+      clearInterval(interval);
+    };
+  }, [isCounting, position]);
+
+  // Keyboard: space reveals the answer, then moves on
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) {
+        return;
+      }
+      if (!current || (event.key !== ' ' && event.key !== 'Enter')) return;
+
+      event.preventDefault();
+      if (isAnswerShown) {
+        next();
+      } else {
+        reveal();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [current, isAnswerShown, next, reveal]);
+
+  if (bankSize === 0) {
+    return (
+      <Card>
+        <CardContent className="p-8 text-center space-y-2">
+          <Timer className="w-10 h-10 text-gray-400 mx-auto" />
+          <p className="font-medium">No questions to drill yet</p>
+          <p className="text-sm text-muted-foreground">Add questions to the bank, or generate them from your key concepts.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!queue || isFinished) {
+    return (
+      <Card>
+        <CardContent className="p-8 text-center space-y-4">
+          <Timer className="w-10 h-10 text-blue-500 mx-auto" />
+          {isFinished ? (
+            <div className="space-y-1">
+              <p className="font-medium">Drill complete</p>
+              <p className="text-sm text-muted-foreground">
+                {queue.length} {queue.length === 1 ? 'question' : 'questions'} answered
+                {overtimeCount > 0 ? `, ${overtimeCount} ran out of time` : ', all within time'}
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-1">
+              <p className="font-medium">Answer {bankSize} questions against the clock</p>
+              <p className="text-sm text-muted-foreground">Say your answer out loud, then compare it with the one you prepared.</p>
+            </div>
+          )}
+
+          <div className="flex items-center justify-center gap-2 text-sm">
+            <span className="text-muted-foreground">Time per answer:</span>
+            {ANSWER_TIME_OPTIONS.map(seconds => (
+              <Button
+                key={seconds}
+                variant={answerSeconds === seconds ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setAnswerSeconds(seconds)}
+              >
+                {formatDuration(seconds)}
+              </Button>
+            ))}
+          </div>
+
+          <Button onClick={start}>
+            {isFinished ? <RotateCcw className="w-4 h-4 mr-1" /> : <Play className="w-4 h-4 mr-1" />}
+            {isFinished ? 'Drill again' : 'Start drill'}
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!current) {
+    return null;
+  }
+
+  const slide = current.slideIndex !== null ? presentation.slides[current.slideIndex] : undefined;
+  const isTimeUp = secondsLeft <= 0;
+
+  return (
+    <Card className="overflow-hidden">
+      <CardContent className="p-6 space-y-6">
+        <div className="flex items-center justify-between text-sm">
+          <Badge variant="secondary">Question {position + 1} of {queue.length}</Badge>
+          <span className={`font-mono text-lg ${isTimeUp ? 'text-red-600 font-semibold' : secondsLeft <= 10 ? 'text-amber-600' : 'text-gray-700'}`}>
+            {isTimeUp ? "Time's up" : formatDuration(secondsLeft)}
+          </span>
+        </div>
+
+        <div className="space-y-3">
+          <p className="text-xs text-muted-foreground">
+            {current.slideIndex !== null ? `About slide ${current.slideIndex + 1}` : 'About the whole talk'}
+          </p>
+          <p className="text-xl font-medium">{current.item.question}</p>
+          {slide?.imageUrl && <img src={slide.imageUrl} alt={`Slide ${(current.slideIndex ?? 0) + 1}`} className="max-h-40 rounded border object-contain" />}
+        </div>
+
+        {isAnswerShown ? (
+          <>
+            <div className="rounded-md bg-gray-50 p-4 space-y-1">
+              <p className="text-xs font-semibold text-gray-500 uppercase">Your prepared answer</p>
+              <p className="text-sm whitespace-pre-wrap">
+                {current.item.answer.trim() || <span className="italic text-gray-400">No answer prepared yet - add one in the bank.</span>}
+              </p>
+            </div>
+            <Button onClick={next} className="w-full">
+              {position + 1 < queue.length ? 'Next question' : 'Finish'}
+              <span className="ml-2 text-xs opacity-70">Space</span>
+            </Button>
+          </>
+        ) : (
+          <Button variant="outline" onClick={reveal} className="w-full">
+            Show prepared answer
+            <span className="ml-2 text-xs opacity-70">Space</span>
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,64 @@
+import { useState } from 'react';
+import { usePresentationStore } from '../../../core/store/presentation';
+import { listQuestions } from '../utils/qa-bank';
+import { useKeyBindings } from '../../keyboard/hooks/useKeyBindings';
+import { QABank } from './QABank';
+import { QADrill } from './QADrill';
+import { Button } from '../../../components/ui/button';
+import { Badge } from '../../../components/ui/badge';
+import { ChevronLeft, ListChecks, Timer } from 'lucide-react';
+
+interface QAViewProps {
+  onBack: () => void;
+}
+
+/**
+ * Q&A preparation screen
+ * Build a bank of likely audience questions with prepared answers,
+ * then drill them against the clock
+ */
+export function QAView({ onBack }: QAViewProps) {
+  const { currentPresentation } = usePresentationStore();
+  const [mode, setMode] = useState<'bank' | 'drill'>('bank');
+
+  useKeyBindings({ exit: onBack });
+
+  if (!currentPresentation) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <p className="text-muted-foreground">No presentation loaded</p>
+      </div>
+    );
+  }
+
+  const questions = listQuestions(currentPresentation);
+  const answeredCount = questions.filter(({ item }) => item.answer.trim()).length;
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4">
+        <Button variant="ghost" size="sm" onClick={onBack} className="min-h-[44px]">
+          <ChevronLeft className="w-4 h-4 mr-1" />
+          Back to Setup
+        </Button>
+        <div className="flex items-center gap-2 text-sm">
+          <Badge variant="secondary">{questions.length} questions</Badge>
+          <Badge variant="outline">{answeredCount} answered</Badge>
+        </div>
+        <div className="flex gap-1">
+          <Button variant={mode === 'bank' ? 'default' : 'outline'} size="sm" onClick={() => setMode('bank')}>
+            <ListChecks className="w-4 h-4 mr-1" />
+            Bank
+          </Button>
+          <Button variant={mode === 'drill' ? 'default' : 'outline'} size="sm" onClick={() => setMode('drill')}>
+            <Timer className="w-4 h-4 mr-1" />
+            Drill
+          </Button>
+        </div>
+      </div>
+
+      {mode === 'bank' ? <QABank /> : <QADrill presentation={currentPresentation} />}
+    </div>
+  );
+}
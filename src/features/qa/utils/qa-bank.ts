@@ -0,0 +1,152 @@
+import type { QAItem, Slide } from '../../../core/types';
+import { getSlideGuide, stripMarkdown } from '../../practice/utils/script-processor';
+import { tokenize } from '../../script/utils/slide-text-matching';
+
+/**
+ * Q&A bank
+ * Questions the audience may ask, per slide and for the whole deck, with the
+ * presenter's prepared answers. Questions come from AI coaching, from
+ * templates over the guide's key concepts, or are added by hand.
+ */
+
+const CONCEPT_TEMPLATES = [
+  'What exactly do you mean by {concept}?',
+  'Why does {concept} matter here?',
+  'Can you give a concrete example of {concept}?',
+  'How does {concept} compare with the alternatives?',
+  'What are the limitations of {concept}?',
+  'What evidence supports what you said about {concept}?'
+];
+const QUESTIONS_PER_CONCEPT = 2;
+
+const DECK_TEMPLATES = [
+  'How do {concept} and {other} relate?',
+  'If we only remember one thing about {concept}, what should it be?'
+];
+const DECK_CONCEPTS = 3;
+
+let nextQuestionNumber = 0;
+
+/**
+ * New Q&A bank entry
+ */
+export function createQuestion(question: string, source: QAItem['source'], answer = ''): QAItem {
+  nextQuestionNumber += 1;
+  return {
+    id: `qa-${Date.now()}-${nextQuestionNumber}`,
+    question: question.trim(),
+    answer,
+    source,
+    createdAt: new Date()
+  };
+}
+
+function questionKey(question: string): string {
+  return question.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Add questions to a bank, skipping ones it already has
+ * @param existing - Current bank
+ * @param incoming - Questions to add
+ */
+export function mergeQuestions(existing: QAItem[] = [], incoming: QAItem[]): QAItem[] {
+  const seen = new Set(existing.map(item => questionKey(item.question)));
+  const added = incoming.filter(item => {
+    const key = questionKey(item.question);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return [...existing, ...added];
+}
+
+// Same concept always gets the same templates, so regenerating adds nothing new
+function templateOffset(concept: string): number {
+  let hash = 0;
+  for (const char of concept.toLowerCase()) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return hash % CONCEPT_TEMPLATES.length;
+}
+
+function getConcepts(slides: Slide[], index: number): string[] {
+  const guide = getSlideGuide(slides, index);
+  return (guide?.keyConcepts || [])
+    .map(stripMarkdown)
+    .filter(concept => tokenize(concept).length > 0);
+}
+
+/**
+ * Offline questions for a slide from its key concepts
+ * @param slides - Slides in order (neighbours feed the local guide)
+ * @param index - Slide to ask about
+ */
+export function generateSlideQuestions(slides: Slide[], index: number): QAItem[] {
+  return getConcepts(slides, index).flatMap(concept => {
+    const offset = templateOffset(concept);
+    return Array.from({ length: QUESTIONS_PER_CONCEPT }, (_, i) =>
+      createQuestion(CONCEPT_TEMPLATES[(offset + i) % CONCEPT_TEMPLATES.length].replace('{concept}', concept), 'concept')
+    );
+  });
+}
+
+/**
+ * Offline questions about the whole talk from the concepts that come up most
+ * @param slides - Slides in order
+ */
+export function generateDeckQuestions(slides: Slide[]): QAItem[] {
+  const counts = new Map<string, { concept: string; count: number }>();
+  slides.forEach((_, index) => {
+    getConcepts(slides, index).forEach(concept => {
+      const key = concept.toLowerCase();
+      const entry = counts.get(key) || { concept, count: 0 };
+      entry.count += 1;
+      counts.set(key, entry);
+    });
+  });
+
+  const topConcepts = [...counts.values()]
+    .sort((a, b) => b.count - a.count)
+    .slice(0, DECK_CONCEPTS)
+    .map(entry => entry.concept);
+
+  const questions: QAItem[] = [];
+  topConcepts.forEach((concept, i) => {
+    const other = topConcepts[i + 1];
+    if (other) {
+      questions.push(createQuestion(DECK_TEMPLATES[0].replace('{concept}', concept).replace('{other}', other), 'concept'));
+    }
+    questions.push(createQuestion(DECK_TEMPLATES[1].replace('{concept}', concept), 'concept'));
+  });
+  return questions;
+}
+
+/**
+ * Shuffled copy of a list (Fisher-Yates)
+ */
+export function shuffle<T>(items: T[]): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+export interface BankQuestion {
+  item: QAItem;
+  slideIndex: number | null;  // null for deck-wide questions
+}
+
+/**
+ * Every question in the deck - deck-wide ones first, then slide by slide
+ */
+export function listQuestions(presentation: { questions?: QAItem[]; slides: Slide[] }): BankQuestion[] {
+  return [
+    ...(presentation.questions || []).map(item => ({ item, slideIndex: null })),
+    ...presentation.slides.flatMap((slide, slideIndex) =>
+      (slide.questions || []).map(item => ({ item, slideIndex }))
+    )
+  ];
+}
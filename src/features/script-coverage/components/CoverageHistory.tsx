@@ -0,0 +1,135 @@
+import { useEffect, useState } from 'react';
+import { usePresentationStore } from '../../../core/store/presentation';
+import { loadCoverageReports, saveCoverageReport, deleteCoverageReport } from '../../../services/practiceSessions';
+import { buildCoverageReport, segmentTranscript } from '../utils/coverage';
+import { CoverageReportCard } from './CoverageReportCard';
+import type { CoverageReport } from '../../../core/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../../components/ui/card';
+import { Button } from '../../../components/ui/button';
+import { Textarea } from '../../../components/ui/textarea';
+import { useToast } from '../../../hooks/use-toast';
+import { ListChecks, Trash2 } from 'lucide-react';
+
+/**
+ * Rehearsal coverage for the open presentation
+ * Scores a pasted transcript against the scripts and guides, and lists
+ * the reports of earlier runs (including those scored in practice)
+ */
+export function CoverageHistory() {
+  const { currentPresentation, activeSession } = usePresentationStore();
+  const { toast } = useToast();
+  const [reports, setReports] = useState<CoverageReport[]>([]);
+  const [selectedReportId, setSelectedReportId] = useState<string | null>(null);
+  const [transcript, setTranscript] = useState('');
+
+  const presentationId = currentPresentation?.id;
+
+  // Reload whenever a session starts or ends - practice runs add reports
+  useEffect(() => {
+    if (!presentationId) return;
+    let isCancelled = false;
+
+    loadCoverageReports(presentationId).then(loaded => {
+      if (!isCancelled) setReports(loaded);
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [presentationId, activeSession?.id]);
+
+  if (!currentPresentation) {
+    return null;
+  }
+
+  const selectedReport = reports.find(report => report.id === selectedReportId) || reports[0];
+
+  const handleScore = async () => {
+    const slides = currentPresentation.slides;
+    const report = buildCoverageReport(currentPresentation.id, slides, segmentTranscript(slides, transcript), 'pasted');
+
+    setReports([report, ...reports]);
+    setSelectedReportId(report.id);
+    setTranscript('');
+
+    try {
+      await saveCoverageReport(report);
+    } catch {
+      toast({
+        title: '⚠️ Report not saved',
+        description: 'The scores are shown but will not be kept for later runs.'
+      });
+    }
+  };
+
+  const handleDelete = async (report: CoverageReport) => {
+    await deleteCoverageReport(report.id);
+    setReports(reports.filter(r => r.id !== report.id));
+    if (selectedReportId === report.id) setSelectedReportId(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListChecks className="w-5 h-5 text-gray-600" />
+          Rehearsal Coverage
+        </CardTitle>
+        <CardDescription>See what you left out - key messages and concepts you never said, slide by slide</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Textarea
+            value={transcript}
+            onChange={(e) => setTranscript(e.target.value)}
+            placeholder="Paste a transcript of your run. Add [[slide N]] markers to say where each slide starts, or leave them out and it will be matched to your scripts."
+            className="min-h-[100px] text-sm"
+          />
+          <Button onClick={handleScore} disabled={!transcript.trim()}>
+            <ListChecks className="w-4 h-4 mr-2" />
+            Score transcript
+          </Button>
+        </div>
+
+        {selectedReport && (
+          <div className="grid md:grid-cols-3 gap-6">
+            {/* Run list */}
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              {reports.map(report => (
+                <div
+                  key={report.id}
+                  className={`flex items-center justify-between rounded-md border p-2 cursor-pointer transition-colors ${
+                    report.id === selectedReport.id ? 'border-blue-400 bg-blue-50' : 'hover:bg-gray-50'
+                  }`}
+                  onClick={() => setSelectedReportId(report.id)}
+                >
+                  <div>
+                    <p className="text-sm font-medium">{new Date(report.createdAt).toLocaleString()}</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Score {report.overallScore} · {report.source === 'recognizer' ? 'practice' : 'pasted'}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDelete(report);
+                    }}
+                  >
+                    <Trash2 className="w-4 h-4 text-gray-400" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            {/* Selected report */}
+            <div className="md:col-span-2 max-h-96 overflow-y-auto pr-1">
+              <CoverageReportCard report={selectedReport} history={reports} />
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
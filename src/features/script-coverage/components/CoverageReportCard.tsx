@@ -0,0 +1,119 @@
+import type { CoverageReport, SlideCoverageScore } from '../../../core/types';
+import { getSlideScoreHistory } from '../utils/coverage';
+import { Badge } from '../../../components/ui/badge';
+import { TrendingDown, TrendingUp } from 'lucide-react';
+
+interface CoverageReportCardProps {
+  report: CoverageReport;
+  history?: CoverageReport[];   // All reports for the deck, newest first - for score trends
+  onSlideSelect?: (slideIndex: number) => void;
+}
+
+function scoreColor(score: number): string {
+  if (score >= 80) return 'bg-green-500';
+  if (score >= 50) return 'bg-amber-400';
+  return 'bg-red-500';
+}
+
+/**
+ * Per-slide report card for one run
+ * Script coverage, paraphrase drift and the key messages and concepts that
+ * were never said, with each slide's score across earlier runs
+ */
+export function CoverageReportCard({ report, history = [], onSlideSelect }: CoverageReportCardProps) {
+  // Only runs up to this one count towards its trend
+  const earlierRuns = history.filter(other => new Date(other.createdAt).getTime() <= new Date(report.createdAt).getTime());
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <div className={`w-14 h-14 rounded-full flex items-center justify-center text-white text-lg font-semibold ${scoreColor(report.overallScore)}`}>
+          {report.overallScore}
+        </div>
+        <div>
+          <p className="font-medium">Overall coverage</p>
+          <p className="text-xs text-muted-foreground">
+            {report.slides.length} {report.slides.length === 1 ? 'slide' : 'slides'} scored · {report.source === 'recognizer' ? 'recognised speech' : 'pasted transcript'} · {new Date(report.createdAt).toLocaleString()}
+          </p>
+        </div>
+      </div>
+
+      {report.slides.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No slides with a script were covered in this run.</p>
+      ) : (
+        <div className="space-y-3">
+          {report.slides.map(slide => (
+            <SlideCoverageRow
+              key={slide.slideId}
+              slide={slide}
+              trend={getSlideScoreHistory(earlierRuns, slide.slideId)}
+              onSelect={onSlideSelect ? () => onSlideSelect(slide.slideIndex) : undefined}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SlideCoverageRow({ slide, trend, onSelect }: {
+  slide: SlideCoverageScore;
+  trend: number[];
+  onSelect?: () => void;
+}) {
+  const previousScore = trend.length >= 2 ? trend[trend.length - 2] : null;
+
+  return (
+    <div className="rounded-md border p-3 space-y-2">
+      <div className="flex items-center gap-3">
+        <button
+          className={`text-sm font-medium ${onSelect ? 'hover:text-blue-600 hover:underline' : 'cursor-default'}`}
+          onClick={onSelect}
+          disabled={!onSelect}
+        >
+          Slide {slide.slideIndex + 1}
+        </button>
+        <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+          <div className={`h-full ${scoreColor(slide.score)}`} style={{ width: `${slide.score}%` }} />
+        </div>
+        <span className="text-sm font-semibold tabular-nums w-8 text-right">{slide.score}</span>
+        {previousScore !== null && slide.score !== previousScore && (
+          slide.score > previousScore
+            ? <TrendingUp className="w-4 h-4 text-green-600" />
+            : <TrendingDown className="w-4 h-4 text-red-600" />
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+        <span>{Math.round(slide.scriptCoverage * 100)}% of the script said</span>
+        {slide.isDrifting && (
+          <Badge variant="outline" className="text-xs border-amber-300 text-amber-700">
+            Paraphrased - {Math.round(slide.phraseOverlap * 100)}% of the wording kept
+          </Badge>
+        )}
+        {trend.length > 1 && (
+          <span className="text-gray-400">Runs: {trend.join(' → ')}</span>
+        )}
+      </div>
+
+      {(slide.missedKeyMessages.length > 0 || slide.missedKeyConcepts.length > 0) && (
+        <div className="space-y-1 text-sm">
+          {slide.missedKeyMessages.map((message, index) => (
+            <p key={index} className="flex items-start gap-2 text-red-700">
+              <span className="w-1.5 h-1.5 bg-red-400 rounded-full flex-shrink-0 mt-2"></span>
+              <span>{message}</span>
+            </p>
+          ))}
+          {slide.missedKeyConcepts.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1 pt-1">
+              <span className="text-xs text-gray-500">Never mentioned:</span>
+              {slide.missedKeyConcepts.map(concept => (
+                <Badge key={concept} variant="secondary" className="text-xs">{concept}</Badge>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+import type { CoverageReport, Slide, SlideCoverageScore } from '../../../core/types';
+import { getSlideGuide, stripMarkdown } from '../../practice/utils/script-processor';
+import { parseSlideScript, getSpokenText, splitScriptBySlideMarkers } from '../../practice/utils/script-markup';
+import { wordsMatch } from '../../practice/utils/script-follower';
+import { tokenize } from '../../script/utils/slide-text-matching';
+
+/**
+ * Rehearsal coverage
+ * Compares what was said in a run with each slide's script and guide:
+ * - script coverage: content words of the script that were said
+ * - phrase overlap: word pairs said in the script's order - low overlap on a
+ *   slide that was talked through at length means it drifted into paraphrase
+ * - key messages and concepts that never came up
+ */
+
+const MESSAGE_SAID_RATIO = 0.6;   // Share of a key message's words that must be said
+const DRIFT_LENGTH_RATIO = 0.5;   // Talked for at least half the script's length...
+const DRIFT_PHRASE_OVERLAP = 0.3; // ...but kept under this share of its phrasing
+const MIN_DRIFT_TOKENS = 8;       // Too short to judge paraphrase
+const MAX_ALIGNMENT_CELLS = 16_000_000;
+
+const SCORE_WEIGHTS = { script: 0.5, messages: 0.3, concepts: 0.2 };
+
+function spokenScript(slide: Slide): string {
+  return slide.script ? getSpokenText(parseSlideScript(slide.script)) : '';
+}
+
+/**
+ * Align an unmarked transcript with the deck's scripts
+ * Takes the longest common subsequence of content words, so every transcript
+ * word goes to the slide whose script it last matched
+ */
+function alignTranscript(slides: Slide[], words: string[]): string[] {
+  const scriptTokens: { token: string; slideIndex: number }[] = [];
+  slides.forEach((slide, slideIndex) => {
+    tokenize(spokenScript(slide)).forEach(token => scriptTokens.push({ token, slideIndex }));
+  });
+
+  const heardTokens: { token: string; wordIndex: number }[] = [];
+  words.forEach((word, wordIndex) => {
+    tokenize(word).forEach(token => heardTokens.push({ token, wordIndex }));
+  });
+
+  const segments: string[][] = slides.map(() => []);
+  if (slides.length === 0 || words.length === 0) return segments.map(() => '');
+
+  const rows = heardTokens.length;
+  const cols = scriptTokens.length;
+  const wordSlides: number[] = Array(words.length).fill(-1);
+
+  if (rows > 0 && cols > 0 && rows * cols <= MAX_ALIGNMENT_CELLS) {
+    // LCS lengths for suffixes, then walk forward collecting matches
+    const width = cols + 1;
+    const lengths = new Uint16Array((rows + 1) * width);
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = cols - 1; j >= 0; j--) {
+        lengths[i * width + j] = heardTokens[i].token === scriptTokens[j].token
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows && j < cols) {
+      if (heardTokens[i].token === scriptTokens[j].token) {
+        wordSlides[heardTokens[i].wordIndex] = scriptTokens[j].slideIndex;
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+  } else if (cols > 0) {
+    // Too long to align - share the words out by script length
+    words.forEach((_, wordIndex) => {
+      wordSlides[wordIndex] = scriptTokens[Math.floor((wordIndex / words.length) * cols)].slideIndex;
+    });
+  }
+
+  // Unmatched words between two slides go to the earlier one up to the last
+  // sentence end (or halfway, for unpunctuated recogniser output)
+  let previousMatch = -1;
+  for (let wordIndex = 0; wordIndex <= words.length; wordIndex++) {
+    if (wordIndex < words.length && wordSlides[wordIndex] === -1) continue;
+
+    const gapStart = previousMatch + 1;
+    const fromSlide = previousMatch === -1 ? wordSlides[wordIndex] ?? 0 : wordSlides[previousMatch];
+    const toSlide = wordIndex < words.length ? wordSlides[wordIndex] : fromSlide;
+    let splitAt = wordIndex;
+    if (fromSlide !== toSlide) {
+      splitAt = Math.ceil((gapStart + wordIndex) / 2);
+      for (let gapIndex = wordIndex - 1; gapIndex >= gapStart - 1 && gapIndex >= 0; gapIndex--) {
+        if (/[.!?]$/.test(words[gapIndex])) {
+          splitAt = gapIndex + 1;
+          break;
+        }
+      }
+    }
+    for (let gapIndex = gapStart; gapIndex < wordIndex; gapIndex++) {
+      wordSlides[gapIndex] = gapIndex < splitAt ? fromSlide : toSlide;
+    }
+    previousMatch = wordIndex;
+  }
+
+  words.forEach((word, wordIndex) => segments[Math.max(0, wordSlides[wordIndex])].push(word));
+
+  return segments.map(segment => segment.join(' '));
+}
+
+/**
+ * Split a run's transcript into what was said on each slide
+ * [[slide N]] markers are used when present, otherwise the words are
+ * aligned with the scripts
+ * @param slides - Slides in order
+ * @param transcript - Transcript of the whole run
+ */
+export function segmentTranscript(slides: Slide[], transcript: string): string[] {
+  const marked = splitScriptBySlideMarkers(transcript, slides.length);
+  if (marked) {
+    return slides.map((_, index) => marked[index] ? getSpokenText(parseSlideScript(marked[index])) : '');
+  }
+
+  return alignTranscript(slides, transcript.split(/\s+/).filter(Boolean));
+}
+
+function wordPairs(tokens: string[]): string[] {
+  return tokens.slice(1).map((token, index) => `${tokens[index]} ${token}`);
+}
+
+/**
+ * Score one slide against what was said while it was up
+ * @param slides - Slides in order (neighbours feed the local guide)
+ * @param slideIndex - Slide to score
+ * @param said - Transcript for the slide
+ * @returns null for slides without a script
+ */
+export function scoreSlideCoverage(slides: Slide[], slideIndex: number, said: string): SlideCoverageScore | null {
+  const slide = slides[slideIndex];
+  const scriptTokens = tokenize(spokenScript(slide));
+  if (scriptTokens.length === 0) return null;
+
+  const saidTokens = tokenize(said);
+  const saidSet = new Set(saidTokens);
+  const wasSaid = (token: string) => saidSet.has(token) || saidTokens.some(heard => wordsMatch(token, heard));
+
+  const scriptCoverage = scriptTokens.filter(wasSaid).length / scriptTokens.length;
+
+  const scriptPairs = wordPairs(scriptTokens);
+  const saidPairs = new Set(wordPairs(saidTokens));
+  const phraseOverlap = scriptPairs.length > 0
+    ? scriptPairs.filter(pair => saidPairs.has(pair)).length / scriptPairs.length
+    : scriptCoverage;
+
+  const isDrifting = scriptTokens.length >= MIN_DRIFT_TOKENS &&
+    saidTokens.length >= scriptTokens.length * DRIFT_LENGTH_RATIO &&
+    phraseOverlap < DRIFT_PHRASE_OVERLAP;
+
+  const guide = getSlideGuide(slides, slideIndex);
+  const keyMessages = (guide?.keyMessages || []).map(stripMarkdown).filter(message => tokenize(message).length > 0);
+  const keyConcepts = (guide?.keyConcepts || []).map(stripMarkdown).filter(concept => tokenize(concept).length > 0);
+
+  const missedKeyMessages = keyMessages.filter(message => {
+    const tokens = tokenize(message);
+    return tokens.filter(wasSaid).length / tokens.length < MESSAGE_SAID_RATIO;
+  });
+  const missedKeyConcepts = keyConcepts.filter(concept => !tokenize(concept).every(wasSaid));
+
+  // Parts without anything to check don't count against the slide
+  const parts = [
+    { weight: SCORE_WEIGHTS.script, value: scriptCoverage },
+    ...(keyMessages.length > 0
+      ? [{ weight: SCORE_WEIGHTS.messages, value: 1 - missedKeyMessages.length / keyMessages.length }]
+      : []),
+    ...(keyConcepts.length > 0
+      ? [{ weight: SCORE_WEIGHTS.concepts, value: 1 - missedKeyConcepts.length / keyConcepts.length }]
+      : [])
+  ];
+  const totalWeight = parts.reduce((sum, part) => sum + part.weight, 0);
+  const score = Math.round((parts.reduce((sum, part) => sum + part.weight * part.value, 0) / totalWeight) * 100);
+
+  return {
+    slideId: slide.id,
+    slideIndex,
+    score,
+    scriptCoverage: Math.round(scriptCoverage * 100) / 100,
+    phraseOverlap: Math.round(phraseOverlap * 100) / 100,
+    isDrifting,
+    missedKeyMessages,
+    missedKeyConcepts,
+    keyMessageCount: keyMessages.length,
+    keyConceptCount: keyConcepts.length
+  };
+}
+
+/**
+ * Score a whole run
+ * @param presentationId - Presentation the run was of
+ * @param slides - Slides in order
+ * @param segments - What was said on each slide, by slide index (undefined for slides outside the run)
+ * @param source - Where the transcript came from
+ * @param sessionId - Rehearsal the transcript was captured in, if any
+ */
+export function buildCoverageReport(
+  presentationId: string,
+  slides: Slide[],
+  segments: (string | undefined)[],
+  source: CoverageReport['source'],
+  sessionId?: string
+): CoverageReport {
+  const slideScores = slides
+    .map((_, index) => segments[index] === undefined ? null : scoreSlideCoverage(slides, index, segments[index]))
+    .filter((score): score is SlideCoverageScore => score !== null);
+
+  const overallScore = slideScores.length > 0
+    ? Math.round(slideScores.reduce((sum, slide) => sum + slide.score, 0) / slideScores.length)
+    : 0;
+
+  const createdAt = new Date();
+  return {
+    id: `coverage-${createdAt.getTime()}`,
+    presentationId,
+    sessionId,
+    source,
+    createdAt,
+    overallScore,
+    slides: slideScores
+  };
+}
+
+/**
+ * A slide's scores across runs, oldest first
+ * @param reports - Reports, newest first
+ * @param slideId - Slide to follow
+ */
+export function getSlideScoreHistory(reports: CoverageReport[], slideId: string): number[] {
+  return reports
+    .map(report => report.slides.find(slide => slide.slideId === slideId)?.score)
+    .filter((score): score is number => score !== undefined)
+    .reverse();
+}
@@ -0,0 +1,171 @@
+import { useMemo, useState } from 'react';
+import { usePresentationStore } from '../../../core/store/presentation';
+import { composeFullScript, mergeFullScriptEdit } from '../utils/full-script-sync';
+import { ScriptDiffView } from '../../history/components/ScriptDiffView';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../../components/ui/card';
+import { Button } from '../../../components/ui/button';
+import { Textarea } from '../../../components/ui/textarea';
+import { Badge } from '../../../components/ui/badge';
+import { useToast } from '../../../hooks/use-toast';
+import { AlertTriangle, FileText } from 'lucide-react';
+
+type Resolution = 'slide' | 'fullScript';
+
+/**
+ * Full script editor
+ * The whole talk as one text, each slide's script under its [[slide N]]
+ * marker. Slide script edits show up here straight away; edits made here
+ * go to the slides on Apply. Slides that changed on both sides since the
+ * edit started are listed as conflicts to settle first.
+ */
+export function FullScriptEditor() {
+  const { currentPresentation, lastEditLocation, updateFullScript } = usePresentationStore();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<string | null>(null);
+  const [baseScripts, setBaseScripts] = useState<string[]>([]);
+  const [resolutions, setResolutions] = useState<Record<number, Resolution>>({});
+
+  const slides = currentPresentation?.slides;
+  const currentScripts = useMemo(() => slides?.map(slide => slide.script || '') ?? [], [slides]);
+
+  const merge = useMemo(
+    () => draft === null ? null : mergeFullScriptEdit(baseScripts, draft, currentScripts),
+    [draft, baseScripts, currentScripts]
+  );
+
+  if (!currentPresentation || currentPresentation.slides.length === 0) {
+    return null;
+  }
+
+  const fullScript = currentPresentation.fullScript ?? '';
+  const isEditing = draft !== null;
+  const conflicts = merge?.conflicts ?? [];
+  const unresolvedCount = conflicts.filter(conflict => !resolutions[conflict.slideIndex]).length;
+
+  const handleChange = (value: string) => {
+    // The slide scripts at the first keystroke are what the edit is merged against
+    if (draft === null) setBaseScripts(currentScripts);
+    setDraft(value);
+  };
+
+  const handleDiscard = () => {
+    setDraft(null);
+    setResolutions({});
+  };
+
+  const handleApply = () => {
+    if (draft === null) return;
+
+    // No markers - the text is split across the slides as a new script
+    if (!merge) {
+      updateFullScript(draft);
+    } else {
+      const scripts = [...merge.scripts];
+      conflicts.forEach(conflict => {
+        if (resolutions[conflict.slideIndex] === 'fullScript') scripts[conflict.slideIndex] = conflict.fullScriptVersion;
+      });
+      updateFullScript(composeFullScript(scripts.map(script => ({ script }))));
+    }
+
+    handleDiscard();
+    toast({
+      title: '📝 Full script applied',
+      description: 'Slide scripts now match the full script. The previous scripts were saved as a snapshot.'
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="w-5 h-5 text-gray-600" />
+          Full Script
+        </CardTitle>
+        <CardDescription>
+          The whole talk in one place - each slide's script follows its [[slide N]] marker
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Textarea
+          value={draft ?? fullScript}
+          onChange={(e) => handleChange(e.target.value)}
+          placeholder="Slide scripts appear here as you write them. You can also paste a whole script with [[slide N]] markers."
+          className="min-h-[240px] font-mono text-sm"
+        />
+
+        {isEditing && !merge && draft.trim() && (
+          <p className="text-sm text-amber-700">
+            No [[slide N]] markers - applying splits this text across the slides as a new script.
+          </p>
+        )}
+
+        {merge && merge.extraSections > 0 && (
+          <p className="text-sm text-amber-700">
+            {merge.extraSections} marked sections are past the last slide - they will be added to the end of
+            slide {currentPresentation.slides.length}.
+          </p>
+        )}
+
+        {conflicts.length > 0 && (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2 text-sm text-amber-800">
+              <AlertTriangle className="w-4 h-4" />
+              {conflicts.length} slides changed {lastEditLocation === 'practice' ? 'during practice' : 'in their slide script'} while
+              you were editing here - choose which version to keep
+            </div>
+
+            {conflicts.map(conflict => {
+              const resolution = resolutions[conflict.slideIndex];
+              const resolve = (value: Resolution) => setResolutions(current => ({ ...current, [conflict.slideIndex]: value }));
+
+              return (
+                <div key={conflict.slideIndex} className="rounded-md border border-amber-200 bg-amber-50/50 p-3 space-y-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-medium">Slide {conflict.slideIndex + 1}</span>
+                    {!resolution && <Badge variant="outline" className="text-xs">Unresolved</Badge>}
+                    <div className="ml-auto flex gap-2">
+                      <Button
+                        size="sm"
+                        variant={resolution === 'slide' ? 'default' : 'outline'}
+                        onClick={() => resolve('slide')}
+                      >
+                        Keep slide script
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant={resolution === 'fullScript' ? 'default' : 'outline'}
+                        onClick={() => resolve('fullScript')}
+                      >
+                        Use full script
+                      </Button>
+                    </div>
+                  </div>
+                  <ScriptDiffView
+                    before={conflict.slideVersion}
+                    after={conflict.fullScriptVersion}
+                    beforeLabel="Slide script"
+                    afterLabel="Full script edit"
+                  />
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {isEditing && (
+          <div className="flex items-center gap-2">
+            <Button onClick={handleApply} disabled={!draft.trim() || unresolvedCount > 0}>
+              Apply to slides
+            </Button>
+            <Button variant="outline" onClick={handleDiscard}>
+              Discard
+            </Button>
+            {unresolvedCount > 0 && (
+              <span className="text-xs text-gray-500">{unresolvedCount} conflicts left to resolve</span>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,6 +6,7 @@ import { Textarea } from '../../../components/ui/textarea';
 import { usePresentationStore } from '../../../core/store/presentation';
 import { Scissors, Save, RotateCcw, CheckCircle, AlertCircle } from 'lucide-react';
 import { useToast } from '../../../hooks/use-toast';
+import { getFullScriptSpokenText, splitFullScript } from '../utils/full-script-sync';
 
 interface ScriptSegment {
   slideIndex: number;
@@ -13,7 +14,7 @@ interface ScriptSegment {
 }
 
 export function ManualScriptAlignment() {
-  const { currentPresentation, updateSlideScript } = usePresentationStore();
+  const { currentPresentation, updateSlideScript, takeDeckSnapshot } = usePresentationStore();
   const { toast } = useToast();
   const [segments, setSegments] = useState<ScriptSegment[]>([]);
   const [isEditing, setIsEditing] = useState(false);
@@ -45,6 +46,7 @@ export function ManualScriptAlignment() {
   
   const handleSaveSegments = () => {
     // Save each segment to its corresponding slide
+    takeDeckSnapshot('Before saving manual script alignment');
     segments.forEach(segment => {
       if (segment.text.trim()) {
         updateSlideScript(slides[segment.slideIndex].id, segment.text.trim(), 'setup');
@@ -60,6 +62,7 @@ export function ManualScriptAlignment() {
   
   const handleReset = () => {
     // Clear all slide scripts
+    takeDeckSnapshot('Before clearing all slide scripts');
     slides.forEach(slide => {
       updateSlideScript(slide.id, '', 'setup');
     });
@@ -85,11 +88,14 @@ export function ManualScriptAlignment() {
       return;
     }
     
-    // Simple auto-split: divide script evenly by slides
-    const words = fullScript.split(/\s+/);
+    // Marked sections go to their slides; otherwise divide the spoken words evenly by slides
+    const marked = splitFullScript(fullScript, slides.length);
+    const words = marked ? [] : getFullScriptSpokenText(fullScript).split(/\s+/).filter(Boolean);
     const wordsPerSlide = Math.ceil(words.length / slides.length);
     
     const newSegments = slides.map((_, index) => {
+      if (marked) return { slideIndex: index, text: marked.scripts[index] ?? '' };
+      
       const start = index * wordsPerSlide;
       const end = Math.min((index + 1) * wordsPerSlide, words.length);
       const text = words.slice(start, end).join(' ');
@@ -1,6 +1,8 @@
 import { useEffect, useState } from 'react';
 import { usePresentationStore } from '../../../core/store/presentation';
 import { useDebouncedCallback } from '../../../shared/hooks/useDebounce';
+import { ScriptHistoryDialog } from '../../history/components/ScriptHistoryDialog';
+import { History } from 'lucide-react';
 
 interface ScriptEditorProps {
   slideId: string;
@@ -14,6 +16,7 @@ export function ScriptEditor({ slideId, initialScript = '', className = '' }: Sc
   const [wordCount, setWordCount] = useState(0);
   const [isSaving, setIsSaving] = useState(false);
   const [hasUserEdited, setHasUserEdited] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
 
   // Calculate word count
   useEffect(() => {
@@ -58,6 +61,14 @@ export function ScriptEditor({ slideId, initialScript = '', className = '' }: Sc
             </span>
           )}
           <span>{wordCount} words</span>
+          <button
+            onClick={() => setIsHistoryOpen(true)}
+            className="flex items-center gap-1 text-gray-500 hover:text-gray-800"
+            title="Earlier versions of this script"
+          >
+            <History className="h-3 w-3" />
+            History
+          </button>
         </div>
       </div>
       
@@ -84,6 +95,8 @@ Tips:
         <p>💡 Scripts auto-save as you type</p>
         <p>⌨️ Use keyboard shortcuts: Ctrl+Enter to go to next slide</p>
       </div>
+      
+      <ScriptHistoryDialog slideId={slideId} open={isHistoryOpen} onOpenChange={setIsHistoryOpen} />
     </div>
   );
 }
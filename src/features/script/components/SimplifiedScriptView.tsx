@@ -1,8 +1,9 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useScriptAllocation } from '../hooks/useScriptAllocation';
+import type { SlideTextContent } from '../../../core/types';
 
 interface SimplifiedScriptViewProps {
-  slides: Array<{ imageUrl: string; id: string }>;
+  slides: Array<{ imageUrl: string; id: string; textContent?: SlideTextContent }>;
   fullScript: string;
   onScriptUpdate: (slideScripts: Array<{ slideId: string; script: string }>) => void;
 }
@@ -13,6 +14,8 @@ export const SimplifiedScriptView: React.FC<SimplifiedScriptViewProps> = ({
   fullScript,
   onScriptUpdate
 }) => {
+  const slideTexts = useMemo(() => slides.map(slide => slide.textContent), [slides]);
+  
   const {
     updateSlideScript,
     getSlideScript,
@@ -20,6 +23,7 @@ export const SimplifiedScriptView: React.FC<SimplifiedScriptViewProps> = ({
   } = useScriptAllocation({
     fullScript,
     slideCount: slides.length,
+    slideTexts,
     onAllocationChange: (newMappings) => {
       const slideScripts = newMappings.map((mapping, index) => ({
         slideId: slides[index]?.id || `slide-${index}`,
@@ -1,8 +1,9 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useMemo, useState, useEffect, useRef } from 'react';
 import { useScriptAllocation } from '../hooks/useScriptAllocation';
+import type { SlideTextContent } from '../../../core/types';
 
 interface SlideScriptEditorProps {
-  slides: Array<{ imageUrl: string; id: string }>;
+  slides: Array<{ imageUrl: string; id: string; textContent?: SlideTextContent }>;
   fullScript: string;
   onScriptUpdate: (slideScripts: Array<{ slideId: string; script: string }>) => void;
 }
@@ -12,6 +13,8 @@ export const SlideScriptEditor: React.FC<SlideScriptEditorProps> = ({
   fullScript,
   onScriptUpdate
 }) => {
+  const slideTexts = useMemo(() => slides.map(slide => slide.textContent), [slides]);
+  
   const {
     mappings,
     isDirty,
@@ -23,6 +26,7 @@ export const SlideScriptEditor: React.FC<SlideScriptEditorProps> = ({
   } = useScriptAllocation({
     fullScript,
     slideCount: slides.length,
+    slideTexts,
     onAllocationChange: (newMappings) => {
       // Convert to the format the parent expects
       const slideScripts = newMappings.map((mapping, index) => ({
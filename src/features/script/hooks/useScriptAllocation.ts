@@ -1,32 +1,45 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { ScriptAllocator, SlideScriptMapping } from '../services/script-allocator';
+import type { SlideTextContent } from '../../../core/types';
 
 interface UseScriptAllocationProps {
   fullScript: string;
   slideCount: number;
+  slideTexts?: (SlideTextContent | undefined)[]; // Slide wording for offline matching
   onAllocationChange?: (mappings: SlideScriptMapping[]) => void;
 }
 
 export const useScriptAllocation = ({
   fullScript,
   slideCount,
+  slideTexts,
   onAllocationChange
 }: UseScriptAllocationProps) => {
   const [mappings, setMappings] = useState<SlideScriptMapping[]>([]);
   const [isDirty, setIsDirty] = useState(false);
   
-  // Initial allocation when script or slide count changes
+  // Latest callback and wording - a new array or callback on every render
+  // must not re-run the allocation, only a change in the wording itself
+  const latestRef = useRef({ slideTexts, onAllocationChange });
+  useEffect(() => {
+    latestRef.current = { slideTexts, onAllocationChange };
+  });
+  const slideTextsKey = JSON.stringify(slideTexts ?? []);
+  
+  // Initial allocation when the script, slide count or slide wording changes
+  // (the PDF/PPTX text layer can arrive after the slides)
   useEffect(() => {
     if (fullScript && slideCount > 0) {
       const initialMappings = ScriptAllocator.allocateScript(
         fullScript,
         slideCount,
-        [] // No existing mappings on initial load
+        [], // No existing mappings on initial load
+        latestRef.current.slideTexts
       );
       setMappings(initialMappings);
-      onAllocationChange?.(initialMappings);
+      latestRef.current.onAllocationChange?.(initialMappings);
     }
-  }, [fullScript, slideCount]);
+  }, [fullScript, slideCount, slideTextsKey]);
   
   // Update a single slide's script content
   const updateSlideScript = useCallback((slideIndex: number, newContent: string) => {
@@ -42,14 +55,15 @@ export const useScriptAllocation = ({
       const reallocated = ScriptAllocator.allocateScript(
         fullScript,
         slideCount,
-        updated
+        updated,
+        slideTexts
       );
       
       onAllocationChange?.(reallocated);
       setIsDirty(true);
       return reallocated;
     });
-  }, [fullScript, slideCount, onAllocationChange]);
+  }, [fullScript, slideCount, slideTexts, onAllocationChange]);
   
   // Reset a slide to automatic allocation
   const resetSlideScript = useCallback((slideIndex: number) => {
@@ -65,25 +79,27 @@ export const useScriptAllocation = ({
       const reallocated = ScriptAllocator.allocateScript(
         fullScript,
         slideCount,
-        updated.filter(m => m.isManuallySet) // Only keep other manual slides
+        updated.filter(m => m.isManuallySet), // Only keep other manual slides
+        slideTexts
       );
       
       onAllocationChange?.(reallocated);
       return reallocated;
     });
-  }, [fullScript, slideCount, onAllocationChange]);
+  }, [fullScript, slideCount, slideTexts, onAllocationChange]);
   
   // Reset all allocations
   const resetAllAllocations = useCallback(() => {
     const freshMappings = ScriptAllocator.allocateScript(
       fullScript,
       slideCount,
-      []
+      [],
+      slideTexts
     );
     setMappings(freshMappings);
     onAllocationChange?.(freshMappings);
     setIsDirty(false);
-  }, [fullScript, slideCount, onAllocationChange]);
+  }, [fullScript, slideCount, slideTexts, onAllocationChange]);
   
   // Get script for a specific slide
   const getSlideScript = useCallback((slideIndex: number): string => {
@@ -0,0 +1,280 @@
+import type { Slide, SlideTextContent } from '../../../core/types';
+import type { ScriptMatch, ScriptMatchingResponse } from '../../../services/openai-service';
+import { tokenize } from '../utils/slide-text-matching';
+
+/**
+ * Offline script-to-slide aligner
+ *
+ * 1. Split the script into sentences
+ * 2. Score every sentence against every slide's text with BM25
+ *    (slides are the documents, each sentence is a query)
+ * 3. Pick the best in-order segmentation with dynamic programming:
+ *    each slide gets one contiguous run of sentences, trading match
+ *    strength against a balanced length per slide
+ *
+ * Returns the same ScriptMatch shape as OpenAIService.matchScriptToSlidesFromSummaries.
+ * This is the one offline aligner: the bulk split, ScriptSplitter and
+ * ScriptAllocator all place script on slides through alignScriptSections.
+ */
+
+export interface AlignmentOptions {
+  lengthWeight?: number; // How strongly to prefer evenly sized sections (0 = ignore length)
+}
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const HEADING_BOOST = 3; // Heading terms count as if repeated this many times
+const DEFAULT_LENGTH_WEIGHT = 1;
+const MAX_KEY_ALIGNMENT_TERMS = 5;
+const MIN_SLIDES_WITH_TEXT = 0.5; // Share of slides that need extracted text to trust an alignment
+const MIN_MEAN_CONFIDENCE = 40;
+
+interface SlideDocument {
+  termFrequencies: Map<string, number>;
+  length: number;
+  title: string | null;
+}
+
+interface ScriptSentence {
+  text: string;    // Whitespace collapsed - for scoring
+  source: string;  // As written, with the whitespace that follows it
+}
+
+/**
+ * Sentences and paragraphs of a script
+ * Each keeps its original line breaks, so joining the sources gives back the
+ * script - a // comment still ends at its line and paragraphs stay apart
+ */
+function splitIntoSentences(script: string): ScriptSentence[] {
+  const sentences: ScriptSentence[] = [];
+  const push = (source: string) => {
+    const text = source.replace(/\s+/g, ' ').trim();
+    if (text) {
+      sentences.push({ text, source });
+    } else if (sentences.length > 0) {
+      sentences[sentences.length - 1].source += source;
+    }
+  };
+
+  let start = 0;
+  for (const boundary of script.matchAll(/\n[ \t]*\n\s*|(?<=[.!?])\s+/g)) {
+    const end = (boundary.index ?? 0) + boundary[0].length;
+    push(script.slice(start, end));
+    start = end;
+  }
+  push(script.slice(start));
+
+  return sentences;
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function buildSlideDocument(content: SlideTextContent | undefined): SlideDocument {
+  const termFrequencies = new Map<string, number>();
+  const add = (term: string, weight: number) => {
+    termFrequencies.set(term, (termFrequencies.get(term) || 0) + weight);
+  };
+
+  if (content) {
+    tokenize(content.text).forEach(term => add(term, 1));
+    [content.title || '', ...content.headings].forEach(heading => {
+      tokenize(heading).forEach(term => add(term, HEADING_BOOST - 1));
+    });
+  }
+
+  let length = 0;
+  termFrequencies.forEach(frequency => { length += frequency; });
+  return { termFrequencies, length, title: content?.title || null };
+}
+
+/**
+ * BM25 score matrix [sentence][slide]
+ */
+function scoreSentences(sentences: string[], documents: SlideDocument[]): { scores: number[][]; idf: Map<string, number> } {
+  const documentCount = documents.length;
+  const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / documentCount || 1;
+
+  const documentFrequency = new Map<string, number>();
+  documents.forEach(doc => {
+    doc.termFrequencies.forEach((_, term) => {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    });
+  });
+
+  const idf = new Map<string, number>();
+  documentFrequency.forEach((frequency, term) => {
+    idf.set(term, Math.log(1 + (documentCount - frequency + 0.5) / (frequency + 0.5)));
+  });
+
+  const scores = sentences.map(sentence => {
+    const queryTerms = new Set(tokenize(sentence));
+    return documents.map(doc => {
+      let score = 0;
+      queryTerms.forEach(term => {
+        const frequency = doc.termFrequencies.get(term);
+        if (!frequency) return;
+        const norm = BM25_K1 * (1 - BM25_B + BM25_B * (doc.length / averageLength));
+        score += (idf.get(term) || 0) * (frequency * (BM25_K1 + 1)) / (frequency + norm);
+      });
+      return score;
+    });
+  });
+
+  return { scores, idf };
+}
+
+/**
+ * Best monotonic segmentation of sentences into slides
+ * @returns Start sentence index per slide (a slide may get an empty run)
+ */
+function segment(relevance: number[][], wordCounts: number[], slideCount: number, lengthWeight: number): number[] {
+  const sentenceCount = wordCounts.length;
+  const targetWords = Math.max(1, wordCounts.reduce((sum, words) => sum + words, 0) / slideCount);
+
+  // Prefix sums of relevance per slide and of word counts
+  const relevancePrefix = Array.from({ length: slideCount }, (_, slide) => {
+    const prefix = [0];
+    relevance.forEach((row, sentence) => prefix.push(prefix[sentence] + row[slide]));
+    return prefix;
+  });
+  const wordPrefix = [0];
+  wordCounts.forEach((words, sentence) => wordPrefix.push(wordPrefix[sentence] + words));
+
+  const segmentValue = (slide: number, start: number, end: number) => {
+    const deviation = (wordPrefix[end] - wordPrefix[start] - targetWords) / targetWords;
+    return relevancePrefix[slide][end] - relevancePrefix[slide][start] - lengthWeight * deviation * deviation;
+  };
+
+  // best[slide][end] = best value covering sentences [0, end) with slides [0, slide]
+  const best: number[][] = [];
+  const choice: number[][] = [];
+  for (let slide = 0; slide < slideCount; slide++) {
+    best.push(Array(sentenceCount + 1).fill(-Infinity));
+    choice.push(Array(sentenceCount + 1).fill(0));
+    for (let end = 0; end <= sentenceCount; end++) {
+      if (slide === 0) {
+        best[0][end] = segmentValue(0, 0, end);
+        continue;
+      }
+      for (let start = 0; start <= end; start++) {
+        const value = best[slide - 1][start] + segmentValue(slide, start, end);
+        if (value > best[slide][end]) {
+          best[slide][end] = value;
+          choice[slide][end] = start;
+        }
+      }
+    }
+  }
+
+  // Walk back from the last slide covering every sentence
+  const starts: number[] = Array(slideCount).fill(0);
+  let end = sentenceCount;
+  for (let slide = slideCount - 1; slide > 0; slide--) {
+    starts[slide] = choice[slide][end];
+    end = starts[slide];
+  }
+  return starts;
+}
+
+/**
+ * Align a full script to slides using only the text printed on the slides
+ * @param fullScript - Script to split
+ * @param slides - Slides in order; only textContent is read
+ */
+export function alignScriptToSlides(
+  fullScript: string,
+  slides: Pick<Slide, 'textContent'>[],
+  options: AlignmentOptions = {}
+): ScriptMatchingResponse {
+  const sentences = splitIntoSentences(fullScript || '');
+  const documents = slides.map(slide => buildSlideDocument(slide.textContent));
+
+  if (slides.length === 0 || sentences.length === 0) {
+    return { success: false, error: 'Nothing to align - the script or deck is empty.' };
+  }
+  if (documents.every(doc => doc.length === 0)) {
+    return { success: false, error: 'Slides have no extracted text to align against.' };
+  }
+
+  const { scores, idf } = scoreSentences(sentences.map(sentence => sentence.text), documents);
+
+  // Normalise each sentence so a strong match counts 1 regardless of sentence length
+  const relevance = scores.map(row => {
+    const max = Math.max(...row);
+    return max > 0 ? row.map(score => score / max) : row.map(() => 0);
+  });
+
+  const wordCounts = sentences.map(sentence => countWords(sentence.text));
+  const starts = segment(relevance, wordCounts, slides.length, options.lengthWeight ?? DEFAULT_LENGTH_WEIGHT);
+
+  const matches: ScriptMatch[] = starts.map((start, slide) => {
+    const end = starts[slide + 1] ?? sentences.length;
+    const section = sentences.slice(start, end);
+    const withSignal = section.map((_, i) => relevance[start + i]).filter(row => row.some(value => value > 0));
+
+    // Confidence: how clearly the section's sentences point at this slide, scaled by how many carry any signal
+    const clarity = withSignal.length > 0
+      ? withSignal.reduce((sum, row) => sum + row[slide], 0) / withSignal.length
+      : 0;
+    const coverage = section.length > 0 ? withSignal.length / section.length : 0;
+    const confidence = Math.round(100 * clarity * Math.sqrt(coverage));
+
+    // Shared terms, rarest first
+    const sectionTerms = new Set(tokenize(section.map(sentence => sentence.text).join(' ')));
+    const keyAlignment = Array.from(documents[slide].termFrequencies.keys())
+      .filter(term => sectionTerms.has(term))
+      .sort((a, b) => (idf.get(b) || 0) - (idf.get(a) || 0))
+      .slice(0, MAX_KEY_ALIGNMENT_TERMS);
+
+    let reasoning: string;
+    if (section.length === 0) {
+      reasoning = 'No script section fits this slide';
+    } else if (keyAlignment.length === 0) {
+      reasoning = 'No shared wording with the slide - placed by position between neighbouring matches';
+    } else {
+      const title = documents[slide].title;
+      reasoning = `${withSignal.length} of ${section.length} sentences share wording with the slide${title ? ` "${title}"` : ''}`;
+    }
+
+    return {
+      slideNumber: slide + 1,
+      scriptSection: section.map(sentence => sentence.source).join('').trim(),
+      confidence,
+      reasoning,
+      keyAlignment
+    };
+  });
+
+  console.log('🧭 Offline alignment:', matches.map(m => `${m.slideNumber}:${m.confidence}%`).join(' '));
+  return { success: true, matches };
+}
+
+/**
+ * Script sections per slide, only when the alignment can be trusted
+ * Most slides need extracted text and the sections need to point clearly at
+ * their slides on average - otherwise the caller splits by structure instead
+ * @param slideTexts - Text content per slide, in slide order
+ * @returns One section per slide, or null for a weak alignment
+ */
+export function alignScriptSections(
+  fullScript: string,
+  slideTexts: (SlideTextContent | undefined)[]
+): string[] | null {
+  const slidesWithText = slideTexts.filter(content => content?.text.trim()).length;
+  if (slideTexts.length === 0 || slidesWithText < slideTexts.length * MIN_SLIDES_WITH_TEXT) {
+    return null;
+  }
+
+  const alignment = alignScriptToSlides(fullScript, slideTexts.map(textContent => ({ textContent })));
+  if (!alignment.success) return null;
+
+  const meanConfidence = alignment.matches.reduce((sum, match) => sum + match.confidence, 0) / alignment.matches.length;
+  if (meanConfidence < MIN_MEAN_CONFIDENCE) {
+    console.log(`🧭 Offline alignment too weak (${Math.round(meanConfidence)}% mean confidence) - splitting by structure`);
+    return null;
+  }
+
+  return alignment.matches.map(match => match.scriptSection);
+}
@@ -1,3 +1,6 @@
+import type { SlideTextContent } from '../../../core/types';
+import { alignScriptSections } from './script-aligner';
+
 export interface SlideScriptMapping {
   slideIndex: number;
   scriptContent: string;
@@ -9,11 +12,13 @@ export class ScriptAllocator {
   /**
    * Intelligently allocate script content to slides
    * Respects manually set slides and redistributes the rest
+   * Slide text (when provided) anchors sections to the slides they talk about
    */
   static allocateScript(
     fullScript: string,
     slideCount: number,
-    existingMappings: SlideScriptMapping[] = []
+    existingMappings: SlideScriptMapping[] = [],
+    slideTexts?: (SlideTextContent | undefined)[]
   ): SlideScriptMapping[] {
     // Step 1: Preserve manually set slides
     const manuallySetSlides = existingMappings.filter(m => m.isManuallySet);
@@ -42,7 +47,11 @@ export class ScriptAllocator {
     }
     
     // Step 6: Distribute sections to remaining slides
-    const allocations = this.distributeContentToSlides(
+    const allocations = this.matchContentToSlides(
+      sections,
+      slidesNeedingAllocation,
+      slideTexts
+    ) || this.distributeContentToSlides(
       sections,
       slidesNeedingAllocation
     );
@@ -195,6 +204,23 @@ export class ScriptAllocator {
     return realIndex;
   }
   
+  /**
+   * Allocate content by aligning it to the wording on each slide
+   * @returns null when slide text gives no trustworthy alignment
+   */
+  private static matchContentToSlides(
+    sections: string[],
+    slideIndices: number[],
+    slideTexts?: (SlideTextContent | undefined)[]
+  ): { slideIndex: number; content: string }[] | null {
+    if (!slideTexts || sections.length === 0 || slideIndices.length === 0) return null;
+    
+    const contents = alignScriptSections(sections.join('\n\n'), slideIndices.map(index => slideTexts[index]));
+    if (!contents) return null;
+    
+    return slideIndices.map((slideIndex, i) => ({ slideIndex, content: contents[i] || '' }));
+  }
+  
   /**
    * Distribute content sections to specific slides
    */
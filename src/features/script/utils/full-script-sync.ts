@@ -0,0 +1,110 @@
+import type { Slide } from '../../../core/types';
+import { getSpokenText, parseSlideScript, splitScriptBySlideMarkers } from '../../practice/utils/script-markup';
+
+/**
+ * Full script sync
+ * The full script is the per-slide scripts joined with [[slide N]] markers,
+ * so editing either one updates the other. A full-script edit made while
+ * slide scripts changed underneath it is merged slide by slide; slides
+ * changed on both sides are conflicts for the presenter to resolve.
+ */
+
+export interface ScriptConflict {
+  slideIndex: number;
+  fullScriptVersion: string;  // From the edited full script
+  slideVersion: string;       // Slide script as it is now
+}
+
+export interface FullScriptMerge {
+  scripts: string[];           // Merged per-slide scripts - conflicts keep the slide version
+  conflicts: ScriptConflict[];
+  extraSections: number;       // Marked sections beyond the last slide (appended to it)
+}
+
+const sameScript = (a: string, b: string) => a.trim() === b.trim();
+
+// A [[slide N]] written inside a slide script stays on that slide: composing doubles any
+// backslashes before it and adds one, so the markup reads it as text; splitting undoes that
+const SLIDE_MARKER_WITH_BACKSLASHES = /(\\*)(\[\[\s*slide\s+\d+\s*\]\])/gi;
+
+const escapeSlideMarkers = (script: string) =>
+  script.replace(SLIDE_MARKER_WITH_BACKSLASHES, (_, backslashes: string, marker: string) => `${backslashes}${backslashes}\\${marker}`);
+
+const unescapeSlideMarkers = (script: string) =>
+  script.replace(SLIDE_MARKER_WITH_BACKSLASHES, (text, backslashes: string, marker: string) =>
+    backslashes.length % 2 === 1 ? `${backslashes.slice((backslashes.length + 1) / 2)}${marker}` : text
+  );
+
+/**
+ * Full script for a deck - every slide's script under its [[slide N]] marker
+ * @returns An empty string when no slide has a script
+ */
+export function composeFullScript(slides: Pick<Slide, 'script'>[]): string {
+  if (!slides.some(slide => slide.script?.trim())) return '';
+
+  return slides
+    .map((slide, index) => {
+      const script = escapeSlideMarkers(slide.script?.trim() || '');
+      return script ? `[[slide ${index + 1}]]\n${script}` : `[[slide ${index + 1}]]`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Per-slide scripts from an edited full script
+ * Markers escaped by composeFullScript come back as written on the slide
+ * @returns null when the text has no slide markers to split on
+ */
+export function splitFullScript(fullScript: string, slideCount: number): { scripts: string[]; extraSections: number } | null {
+  const scripts = splitScriptBySlideMarkers(fullScript, slideCount);
+  if (!scripts) return null;
+
+  const allSections = splitScriptBySlideMarkers(fullScript) ?? [];
+  return {
+    scripts: scripts.map(unescapeSlideMarkers),
+    extraSections: allSections.slice(slideCount).filter(script => script.trim()).length
+  };
+}
+
+/**
+ * What the presenter says in a full script - slide markers, directives and
+ * comments removed. This, never the marked-up text, goes to the aligner or AI.
+ * @param separator - Placed between slide sections
+ */
+export function getFullScriptSpokenText(fullScript: string, separator = '\n\n'): string {
+  const sections = splitScriptBySlideMarkers(fullScript) ?? [fullScript];
+  return sections
+    .map(section => getSpokenText(parseSlideScript(section)))
+    .filter(Boolean)
+    .join(separator);
+}
+
+/**
+ * Merge a full-script edit into slide scripts that may have changed since
+ * @param baseScripts - Slide scripts when the full-script edit started
+ * @param editedFullScript - The edited full script
+ * @param currentScripts - Slide scripts now
+ * @returns null when the edited text has no slide markers
+ */
+export function mergeFullScriptEdit(
+  baseScripts: string[],
+  editedFullScript: string,
+  currentScripts: string[]
+): FullScriptMerge | null {
+  const split = splitFullScript(editedFullScript, currentScripts.length);
+  if (!split) return null;
+
+  const conflicts: ScriptConflict[] = [];
+  const scripts = currentScripts.map((currentScript, index) => {
+    const baseScript = baseScripts[index] ?? '';
+    const editedScript = split.scripts[index] ?? '';
+
+    if (sameScript(editedScript, baseScript) || sameScript(editedScript, currentScript)) return currentScript;
+    if (sameScript(currentScript, baseScript)) return editedScript;
+
+    conflicts.push({ slideIndex: index, fullScriptVersion: editedScript, slideVersion: currentScript });
+    return currentScript;
+  });
+
+  return { scripts, conflicts, extraSections: split.extraSections };
+}
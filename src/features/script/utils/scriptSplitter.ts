@@ -1,15 +1,32 @@
+import type { SlideTextContent } from '../../../core/types';
+import { alignScriptSections } from '../services/script-aligner';
+
 /**
  * Intelligent script splitter with semantic awareness and natural break detection
  */
 export class ScriptSplitter {
   /**
    * Split script intelligently across slides using semantic analysis and natural breaks
+   * When slide text is available, the offline aligner places the script first
    */
-  static splitScriptEvenly(fullScript: string, slideCount: number): string[] {
+  static splitScriptEvenly(
+    fullScript: string,
+    slideCount: number,
+    slideTexts?: (SlideTextContent | undefined)[]
+  ): string[] {
     if (!fullScript || slideCount === 0) return Array(slideCount).fill('');
     
     console.log('🧠 Starting intelligent script allocation for', slideCount, 'slides');
     
+    // Match on slide wording first - no AI call needed
+    if (slideTexts && slideTexts.length === slideCount) {
+      const alignedSections = alignScriptSections(fullScript, slideTexts);
+      if (alignedSections) {
+        console.log('🎯 Script aligned to slide text');
+        return alignedSections;
+      }
+    }
+    
     // Try semantic-based splitting first
     const sections = this.detectSemanticSections(fullScript);
     console.log('📑 Detected', sections.length, 'semantic sections');
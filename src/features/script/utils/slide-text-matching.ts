@@ -0,0 +1,25 @@
+/**
+ * Slide wording terms
+ *
+ * Turns script and slide text into comparable content words. Placing script
+ * on slides is done by the BM25 aligner in services/script-aligner.ts - the
+ * one offline aligner every split and allocation goes through.
+ */
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'her', 'was', 'one',
+  'our', 'out', 'has', 'have', 'had', 'his', 'how', 'its', 'may', 'new', 'now', 'see', 'two',
+  'way', 'who', 'did', 'get', 'let', 'say', 'she', 'too', 'use', 'that', 'this', 'with', 'from',
+  'they', 'will', 'what', 'when', 'your', 'their', 'there', 'about', 'which', 'would', 'these',
+  'those', 'then', 'than', 'into', 'more', 'some', 'also', 'just', 'like', 'been', 'were', 'here',
+  'very', 'each', 'only', 'over', 'such', 'them', 'where', 'while', 'because', 'going', 'really'
+]);
+
+/**
+ * Lowercase content words with a light plural strip
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9][a-z0-9'-]*/g) || [])
+    .map(word => word.replace(/'s$/, '').replace(/(?<=[a-z]{3})s$/, ''))
+    .filter(word => word.length >= 3 && !STOP_WORDS.has(word));
+}
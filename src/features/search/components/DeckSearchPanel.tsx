@@ -0,0 +1,209 @@
+import { useMemo, useState } from 'react';
+import { usePresentationStore } from '../../../core/store/presentation';
+import {
+  buildSearchPattern,
+  findInDeck,
+  SEARCH_FIELD_LABELS,
+  type DeckSearchOptions,
+  type SearchField,
+  type SearchMatch
+} from '../utils/deck-search';
+import type { DeckSnapshot } from '../../../core/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../../components/ui/card';
+import { Button } from '../../../components/ui/button';
+import { Input } from '../../../components/ui/input';
+import { Label } from '../../../components/ui/label';
+import { Switch } from '../../../components/ui/switch';
+import { Badge } from '../../../components/ui/badge';
+import { useToast } from '../../../hooks/use-toast';
+import { Replace, Search, Undo2 } from 'lucide-react';
+
+const SEARCH_FIELDS: SearchField[] = ['script', 'notes', 'guide'];
+const MAX_SHOWN_MATCHES = 200;
+
+/**
+ * Find and replace across the deck
+ * Searches every slide's script, notes and guide. Results are grouped by
+ * slide - click one to go to its slide. Each replace is a single edit that
+ * can be undone here or restored later from the script history.
+ */
+export function DeckSearchPanel() {
+  const { currentPresentation, setCurrentSlide, replaceInSlides, restoreDeckSnapshot } = usePresentationStore();
+  const { toast } = useToast();
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [isRegex, setIsRegex] = useState(false);
+  const [wholeWord, setWholeWord] = useState(false);
+  const [matchCase, setMatchCase] = useState(false);
+  const [fields, setFields] = useState<SearchField[]>(SEARCH_FIELDS);
+  const [lastReplace, setLastReplace] = useState<{ snapshot: DeckSnapshot; count: number } | null>(null);
+
+  const search: DeckSearchOptions = { query, isRegex, wholeWord, matchCase, fields };
+  const { pattern, error } = useMemo(
+    () => buildSearchPattern({ query, isRegex, wholeWord, matchCase }),
+    [query, isRegex, wholeWord, matchCase]
+  );
+
+  const slides = currentPresentation?.slides;
+  const results = useMemo(
+    () => slides && pattern ? findInDeck(slides, pattern, fields) : [],
+    [slides, pattern, fields]
+  );
+
+  if (!currentPresentation || currentPresentation.slides.length === 0) {
+    return null;
+  }
+
+  const matchCount = results.reduce((sum, result) => sum + result.matches.length, 0);
+  let shownCount = 0;
+
+  // Fields stay in reading order - script, notes, guide
+  const toggleField = (field: SearchField, isOn: boolean) => {
+    setFields(current => SEARCH_FIELDS.filter(candidate =>
+      candidate === field ? isOn : current.includes(candidate)
+    ));
+  };
+
+  const handleReplace = (target?: SearchMatch) => {
+    const { replacedCount, snapshot } = replaceInSlides(search, replacement, target);
+    if (!snapshot) return;
+
+    setLastReplace({ snapshot, count: replacedCount });
+    toast({
+      title: '🔁 Replaced',
+      description: `${replacedCount} ${replacedCount === 1 ? 'match' : 'matches'} of "${query}" replaced. Undo brings them back.`
+    });
+  };
+
+  const handleUndo = () => {
+    if (!lastReplace) return;
+    restoreDeckSnapshot(lastReplace.snapshot);
+    setLastReplace(null);
+    toast({ title: '⏪ Replace undone', description: 'The slides are back as they were before the replace.' });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Search className="w-5 h-5 text-gray-600" />
+          Find and Replace
+        </CardTitle>
+        <CardDescription>Search every slide's script, notes and guide - and change a name or number everywhere at once</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid md:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="deck-search">Find</Label>
+            <Input
+              id="deck-search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={isRegex ? 'Regular expression, e.g. \\$\\d+' : 'Text to find'}
+              className="font-mono"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="deck-replace">Replace with</Label>
+            <Input
+              id="deck-replace"
+              value={replacement}
+              onChange={(e) => setReplacement(e.target.value)}
+              placeholder={isRegex ? 'Replacement - $1 inserts a group' : 'Replacement text'}
+              className="font-mono"
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-6">
+          <div className="flex items-center gap-2">
+            <Switch id="search-regex" checked={isRegex} onCheckedChange={setIsRegex} />
+            <Label htmlFor="search-regex">Regular expression</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="search-whole-word" checked={wholeWord} onCheckedChange={setWholeWord} />
+            <Label htmlFor="search-whole-word">Whole word</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="search-match-case" checked={matchCase} onCheckedChange={setMatchCase} />
+            <Label htmlFor="search-match-case">Match case</Label>
+          </div>
+          {SEARCH_FIELDS.map(field => (
+            <div key={field} className="flex items-center gap-2">
+              <Switch
+                id={`search-field-${field}`}
+                checked={fields.includes(field)}
+                onCheckedChange={(isOn) => toggleField(field, isOn)}
+              />
+              <Label htmlFor={`search-field-${field}`}>{SEARCH_FIELD_LABELS[field]}</Label>
+            </div>
+          ))}
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button onClick={() => handleReplace()} disabled={matchCount === 0}>
+            <Replace className="w-4 h-4 mr-1" />
+            Replace all
+          </Button>
+          {lastReplace && (
+            <Button variant="outline" onClick={handleUndo}>
+              <Undo2 className="w-4 h-4 mr-1" />
+              Undo last replace ({lastReplace.count})
+            </Button>
+          )}
+          {pattern && (
+            <span className="text-sm text-gray-600">
+              {matchCount === 0 ? 'No matches' : `${matchCount} matches on ${results.length} slides`}
+            </span>
+          )}
+        </div>
+
+        {results.length > 0 && (
+          <div className="divide-y border rounded-md max-h-[480px] overflow-y-auto">
+            {results.map(result => {
+              if (shownCount >= MAX_SHOWN_MATCHES) return null;
+              const matches = result.matches.slice(0, MAX_SHOWN_MATCHES - shownCount);
+              shownCount += matches.length;
+
+              return (
+                <div key={result.slideId} className="p-3 space-y-1">
+                  <button
+                    onClick={() => setCurrentSlide(result.slideIndex, { allowOffPath: true })}
+                    className="flex items-center gap-2 text-sm font-medium hover:text-blue-700"
+                  >
+                    Slide {result.slideIndex + 1}
+                    <Badge variant="secondary" className="text-xs">{result.matches.length}</Badge>
+                  </button>
+
+                  {matches.map(match => (
+                    <div key={match.id} className="flex items-start gap-2 pl-2">
+                      <button
+                        onClick={() => setCurrentSlide(result.slideIndex, { allowOffPath: true })}
+                        className="flex-1 text-left text-sm rounded px-2 py-1 hover:bg-gray-50"
+                      >
+                        <span className="text-xs text-gray-500 mr-2">{match.label}</span>
+                        <span className="text-gray-600">{match.before}</span>
+                        <mark className="bg-yellow-200 rounded px-0.5">{match.match}</mark>
+                        <span className="text-gray-600">{match.after}</span>
+                      </button>
+                      <Button size="sm" variant="ghost" onClick={() => handleReplace(match)} title="Replace this match">
+                        Replace
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+            {matchCount > MAX_SHOWN_MATCHES && (
+              <p className="p-3 text-xs text-gray-500">
+                Showing the first {MAX_SHOWN_MATCHES} matches - Replace all covers every one
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,244 @@
+import type { Slide } from '../../../core/types';
+
+/**
+ * Deck search
+ * Finds text across every slide's script, notes and presenter guide, with
+ * plain, whole-word or regular expression matching, and replaces one match
+ * or all of them.
+ */
+
+export type SearchField = 'script' | 'notes' | 'guide';
+
+export interface DeckSearchOptions {
+  query: string;
+  isRegex: boolean;
+  wholeWord: boolean;
+  matchCase: boolean;
+  fields: SearchField[];
+}
+
+/**
+ * One editable text on a slide - the script, the notes or one line of the guide
+ */
+export interface SearchableText {
+  key: string;          // 'script', 'notes', 'guide.keyMessages.0', ...
+  field: SearchField;
+  label: string;
+  text: string;
+}
+
+export interface SearchMatch {
+  id: string;           // Slide ID, text key and match number - stable until the text changes
+  slideId: string;
+  key: string;
+  label: string;
+  ordinal: number;      // Match number within its text
+  match: string;
+  before: string;       // Context leading up to the match
+  after: string;        // Context following it
+}
+
+export interface SlideSearchResult {
+  slideIndex: number;
+  slideId: string;
+  matches: SearchMatch[];
+}
+
+export const SEARCH_FIELD_LABELS: Record<SearchField, string> = {
+  script: 'Script',
+  notes: 'Notes',
+  guide: 'Guide'
+};
+
+const CONTEXT_CHARS = 40;
+
+/**
+ * Regular expression for a search
+ * @returns No pattern for an empty query, or the error of an invalid expression
+ */
+export function buildSearchPattern(options: Pick<DeckSearchOptions, 'query' | 'isRegex' | 'wholeWord' | 'matchCase'>): {
+  pattern: RegExp | null;
+  error: string | null;
+} {
+  if (!options.query) return { pattern: null, error: null };
+
+  const source = options.isRegex ? options.query : escapeRegExp(options.query);
+  const flags = options.matchCase ? 'g' : 'gi';
+
+  try {
+    return { pattern: new RegExp(options.wholeWord ? `\\b(?:${source})\\b` : source, flags), error: null };
+  } catch (error) {
+    return { pattern: null, error: error instanceof Error ? error.message : 'Invalid regular expression' };
+  }
+}
+
+/**
+ * Texts of a slide the search covers, in reading order
+ */
+export function getSearchableTexts(slide: Slide, fields: SearchField[]): SearchableText[] {
+  const texts: SearchableText[] = [];
+
+  if (fields.includes('script')) {
+    texts.push({ key: 'script', field: 'script', label: 'Script', text: slide.script || '' });
+  }
+  if (fields.includes('notes')) {
+    texts.push({ key: 'notes', field: 'notes', label: 'Notes', text: slide.notes || '' });
+  }
+  if (fields.includes('guide') && slide.guide) {
+    const { guide } = slide;
+    if (guide.transitionFrom) {
+      texts.push({ key: 'guide.transitionFrom', field: 'guide', label: 'Guide - transition in', text: guide.transitionFrom });
+    }
+    guide.keyMessages.forEach((message, index) => {
+      texts.push({ key: `guide.keyMessages.${index}`, field: 'guide', label: `Guide - key message ${index + 1}`, text: message });
+    });
+    guide.keyConcepts.forEach((concept, index) => {
+      texts.push({ key: `guide.keyConcepts.${index}`, field: 'guide', label: `Guide - key concept ${index + 1}`, text: concept });
+    });
+    if (guide.transitionTo) {
+      texts.push({ key: 'guide.transitionTo', field: 'guide', label: 'Guide - transition out', text: guide.transitionTo });
+    }
+  }
+
+  return texts.filter(entry => entry.text);
+}
+
+/**
+ * Every match in the deck, grouped by slide
+ * Empty matches (e.g. of a pattern like x*) are skipped
+ */
+export function findInDeck(slides: Slide[], pattern: RegExp, fields: SearchField[]): SlideSearchResult[] {
+  return slides.flatMap((slide, slideIndex) => {
+    const matches = getSearchableTexts(slide, fields).flatMap(entry =>
+      findMatches(entry.text, pattern).map((found, ordinal): SearchMatch => ({
+        id: `${slide.id}:${entry.key}:${ordinal}`,
+        slideId: slide.id,
+        key: entry.key,
+        label: entry.label,
+        ordinal,
+        match: found[0],
+        before: contextBefore(entry.text, found.index),
+        after: contextAfter(entry.text, found.index + found[0].length)
+      }))
+    );
+
+    return matches.length > 0 ? [{ slideIndex, slideId: slide.id, matches }] : [];
+  });
+}
+
+/**
+ * Replace matches throughout the deck
+ * @param target - Replace only this match instead of all of them
+ * @returns The slides (unchanged ones kept as they were) and how many matches were replaced
+ */
+export function replaceInDeck(
+  slides: Slide[],
+  pattern: RegExp,
+  replacement: string,
+  options: Pick<DeckSearchOptions, 'isRegex' | 'fields'>,
+  target?: Pick<SearchMatch, 'slideId' | 'key' | 'ordinal'>
+): { slides: Slide[]; replacedCount: number } {
+  let replacedCount = 0;
+
+  const updatedSlides = slides.map(slide => {
+    if (target && target.slideId !== slide.id) return slide;
+
+    return getSearchableTexts(slide, options.fields).reduce((updated, entry) => {
+      if (target && target.key !== entry.key) return updated;
+
+      const result = replaceInText(entry.text, pattern, replacement, options.isRegex, target?.ordinal);
+      if (result.count === 0) return updated;
+
+      replacedCount += result.count;
+      return setSearchableText(updated, entry.key, result.text);
+    }, slide);
+  });
+
+  return { slides: updatedSlides, replacedCount };
+}
+
+/**
+ * Replace matches in one text
+ * Regex replacements may use $&, $1, $<name> and $$; plain ones are inserted as typed
+ * @param onlyOrdinal - Replace only the match with this number
+ */
+export function replaceInText(
+  text: string,
+  pattern: RegExp,
+  replacement: string,
+  isRegex: boolean,
+  onlyOrdinal?: number
+): { text: string; count: number } {
+  let ordinal = 0;
+  let count = 0;
+
+  const replaced = text.replace(pattern, (...args: unknown[]) => {
+    const match = args[0] as string;
+    if (!match) return match;
+
+    const isTarget = onlyOrdinal === undefined || ordinal === onlyOrdinal;
+    ordinal += 1;
+    if (!isTarget) return match;
+
+    count += 1;
+    return isRegex ? expandReplacement(replacement, args) : replacement;
+  });
+
+  return { text: replaced, count };
+}
+
+function findMatches(text: string, pattern: RegExp): RegExpExecArray[] {
+  return [...text.matchAll(pattern)].filter(found => found[0].length > 0) as RegExpExecArray[];
+}
+
+function setSearchableText(slide: Slide, key: string, text: string): Slide {
+  if (key === 'script') return { ...slide, script: text };
+  if (key === 'notes') return { ...slide, notes: text };
+  if (!slide.guide) return slide;
+
+  const [, part, index] = key.split('.');
+  if (part === 'keyMessages' || part === 'keyConcepts') {
+    const items = [...slide.guide[part]];
+    items[Number(index)] = text;
+    return { ...slide, guide: { ...slide.guide, [part]: items } };
+  }
+  if (part === 'transitionFrom' || part === 'transitionTo') {
+    return { ...slide, guide: { ...slide.guide, [part]: text } };
+  }
+  return slide;
+}
+
+/**
+ * Fill in $ references from the replace callback arguments
+ * (match, ...groups, offset, text, namedGroups?)
+ */
+function expandReplacement(replacement: string, args: unknown[]): string {
+  const hasNamedGroups = typeof args[args.length - 1] === 'object' && args[args.length - 1] !== undefined;
+  const namedGroups = hasNamedGroups ? args[args.length - 1] as Record<string, string | undefined> : {};
+  const groups = args.slice(1, hasNamedGroups ? -3 : -2) as (string | undefined)[];
+
+  return replacement.replace(/\$(\$|&|\d{1,2}|<([^>]+)>)/g, (token, reference: string, name?: string) => {
+    if (reference === '$') return '$';
+    if (reference === '&') return args[0] as string;
+    if (name !== undefined) return namedGroups[name] ?? '';
+
+    const groupNumber = Number(reference);
+    return groupNumber >= 1 && groupNumber <= groups.length ? groups[groupNumber - 1] ?? '' : token;
+  });
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function contextBefore(text: string, index: number): string {
+  const start = Math.max(0, index - CONTEXT_CHARS);
+  const context = text.slice(start, index).replace(/\s+/g, ' ');
+  return start > 0 ? `…${context.trimStart()}` : context;
+}
+
+function contextAfter(text: string, index: number): string {
+  const end = Math.min(text.length, index + CONTEXT_CHARS);
+  const context = text.slice(index, end).replace(/\s+/g, ' ');
+  return end < text.length ? `${context.trimEnd()}…` : context;
+}
@@ -0,0 +1,182 @@
+import { useState } from 'react';
+import { usePresentationStore } from '../../../core/store/presentation';
+import { createSection, getRangeSeconds, getSectionRange } from '../utils/sections';
+import { computeSlideTargets } from '../../budget/utils/time-budget';
+import { formatDuration } from '../../sessions/utils/session-timing';
+import type { PresentationSection } from '../../../core/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../../components/ui/card';
+import { Button } from '../../../components/ui/button';
+import { Input } from '../../../components/ui/input';
+import { Badge } from '../../../components/ui/badge';
+import { Layers, Play, Plus, Trash2 } from 'lucide-react';
+
+interface SectionManagerProps {
+  onRehearse: () => void;   // Open practice once the section is chosen
+}
+
+/**
+ * Named sections over slide ranges
+ * Each section shows its share of the time budget and can be rehearsed
+ * on its own
+ */
+export function SectionManager({ onRehearse }: SectionManagerProps) {
+  const {
+    currentPresentation,
+    currentSlideIndex,
+    presenterWordsPerMinute,
+    addSection,
+    updateSection,
+    deleteSection,
+    setPracticeSection
+  } = usePresentationStore();
+  const [newName, setNewName] = useState('');
+  const [newStart, setNewStart] = useState<number | null>(null);
+  const [newEnd, setNewEnd] = useState<number | null>(null);
+
+  if (!currentPresentation || currentPresentation.slides.length === 0) {
+    return null;
+  }
+
+  const slides = currentPresentation.slides;
+  const sections = currentPresentation.sections || [];
+  const targets = computeSlideTargets(slides, currentPresentation.timeBudget, presenterWordsPerMinute ?? undefined);
+  const hasTalkBudget = !!currentPresentation.timeBudget && currentPresentation.timeBudget.totalSeconds > 0;
+
+  // New sections default to the slide being viewed
+  const startIndex = newStart ?? currentSlideIndex;
+  const endIndex = Math.max(startIndex, newEnd ?? currentSlideIndex);
+
+  const handleAdd = () => {
+    if (!newName.trim()) return;
+    addSection(createSection(newName, slides[startIndex].id, slides[endIndex].id));
+    setNewName('');
+    setNewStart(null);
+    setNewEnd(null);
+  };
+
+  const handleRehearse = (section: PresentationSection) => {
+    setPracticeSection(section.id);
+    onRehearse();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="w-5 h-5 text-gray-600" />
+          Sections
+        </CardTitle>
+        <CardDescription>Group slides into sections and rehearse one section at a time</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {sections.length > 0 && (
+          <div className="divide-y">
+            {sections.map(section => {
+              const range = getSectionRange(slides, section);
+
+              return (
+                <div key={section.id} className="flex flex-wrap items-center gap-3 py-2">
+                  <Input
+                    value={section.name}
+                    onChange={(e) => updateSection(section.id, { name: e.target.value })}
+                    className="w-48 text-sm"
+                    aria-label="Section name"
+                  />
+                  {range ? (
+                    <>
+                      <SlideRangePicker
+                        slideCount={slides.length}
+                        startIndex={range.startIndex}
+                        endIndex={range.endIndex}
+                        onChange={(start, end) => updateSection(section.id, { startSlideId: slides[start].id, endSlideId: slides[end].id })}
+                      />
+                      <Badge variant="secondary" className="text-xs" title={hasTalkBudget ? 'Share of the talk budget' : 'Script length at your speaking rate'}>
+                        {formatDuration(getRangeSeconds(slides, range, targets))} {hasTalkBudget ? 'budget' : 'estimated'}
+                      </Badge>
+                    </>
+                  ) : (
+                    <span className="text-xs text-amber-700">Its slides were removed</span>
+                  )}
+                  <div className="ml-auto flex items-center gap-1">
+                    <Button size="sm" onClick={() => handleRehearse(section)} disabled={!range}>
+                      <Play className="w-4 h-4 mr-1" />
+                      Rehearse
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => deleteSection(section.id)} title="Delete section">
+                      <Trash2 className="w-4 h-4 text-gray-400" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-3">
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleAdd();
+            }}
+            placeholder="New section name..."
+            className="w-48 text-sm"
+          />
+          <SlideRangePicker
+            slideCount={slides.length}
+            startIndex={startIndex}
+            endIndex={endIndex}
+            onChange={(start, end) => {
+              setNewStart(start);
+              setNewEnd(end);
+            }}
+          />
+          <Button variant="outline" size="sm" onClick={handleAdd} disabled={!newName.trim()}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add section
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function SlideRangePicker({ slideCount, startIndex, endIndex, onChange }: {
+  slideCount: number;
+  startIndex: number;
+  endIndex: number;
+  onChange: (startIndex: number, endIndex: number) => void;
+}) {
+  const options = Array.from({ length: slideCount }, (_, index) => (
+    <option key={index} value={index}>{index + 1}</option>
+  ));
+
+  return (
+    <div className="flex items-center gap-1 text-sm text-gray-600">
+      <span>Slides</span>
+      <select
+        value={startIndex}
+        onChange={(e) => {
+          const start = parseInt(e.target.value, 10);
+          onChange(start, Math.max(start, endIndex));
+        }}
+        className="text-sm border rounded px-2 py-1 bg-white"
+        aria-label="First slide"
+      >
+        {options}
+      </select>
+      <span>to</span>
+      <select
+        value={endIndex}
+        onChange={(e) => {
+          const end = parseInt(e.target.value, 10);
+          onChange(Math.min(startIndex, end), end);
+        }}
+        className="text-sm border rounded px-2 py-1 bg-white"
+        aria-label="Last slide"
+      >
+        {options}
+      </select>
+    </div>
+  );
+}
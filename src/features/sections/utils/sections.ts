@@ -0,0 +1,66 @@
+import type { PresentationSection, Slide } from '../../../core/types';
+
+/**
+ * Presentation sections
+ * Named slide ranges, stored by slide ID so they follow the slides when
+ * scripts or slides are edited. Practice runs can be limited to one section.
+ */
+
+export interface SlideRange {
+  startIndex: number;
+  endIndex: number;    // Inclusive
+}
+
+let nextSectionNumber = 0;
+
+/**
+ * New section over a slide range
+ */
+export function createSection(name: string, startSlideId: string, endSlideId: string): PresentationSection {
+  nextSectionNumber += 1;
+  return {
+    id: `section-${Date.now()}-${nextSectionNumber}`,
+    name: name.trim(),
+    startSlideId,
+    endSlideId
+  };
+}
+
+/**
+ * Slide indexes a section covers
+ * @returns null when one of its slides no longer exists
+ */
+export function getSectionRange(slides: Pick<Slide, 'id'>[], section: PresentationSection): SlideRange | null {
+  const start = slides.findIndex(slide => slide.id === section.startSlideId);
+  const end = slides.findIndex(slide => slide.id === section.endSlideId);
+  if (start === -1 || end === -1) return null;
+
+  return { startIndex: Math.min(start, end), endIndex: Math.max(start, end) };
+}
+
+/**
+ * Sum of per-slide target seconds over a range
+ * @param targets - Target seconds by slide ID (computeSlideTargets)
+ */
+export function getRangeSeconds(slides: Pick<Slide, 'id'>[], range: SlideRange, targets: Record<string, number>): number {
+  return slides
+    .slice(range.startIndex, range.endIndex + 1)
+    .reduce((sum, slide) => sum + (targets[slide.id] ?? 0), 0);
+}
+
+/**
+ * Carry sections over to new slide IDs (duplicate, bundle import)
+ * Sections whose slides are missing are dropped
+ */
+export function remapSections(
+  sections: PresentationSection[] | undefined,
+  slideIdMap: Record<string, string>
+): PresentationSection[] | undefined {
+  if (!sections) return undefined;
+
+  return sections.flatMap(section => {
+    const startSlideId = slideIdMap[section.startSlideId];
+    const endSlideId = slideIdMap[section.endSlideId];
+    return startSlideId && endSlideId ? [{ ...section, startSlideId, endSlideId }] : [];
+  });
+}
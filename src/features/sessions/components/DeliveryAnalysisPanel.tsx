@@ -0,0 +1,116 @@
+import type { Session } from '../../../core/types';
+import { formatDuration } from '../utils/session-timing';
+import { Badge } from '../../../components/ui/badge';
+import { Activity } from 'lucide-react';
+
+interface DeliveryAnalysisPanelProps {
+  session: Session;       // Session shown in detail
+  sessions: Session[];    // All sessions, newest first - for trends
+}
+
+const TREND_RUNS = 8;
+
+/**
+ * Filler words, pace, silences and repeats of a rehearsal,
+ * with the same figures across recent sessions
+ */
+export function DeliveryAnalysisPanel({ session, sessions }: DeliveryAnalysisPanelProps) {
+  const analysis = session.delivery;
+  const trend = sessions
+    .flatMap(other => other.delivery ? [{ id: other.id, startedAt: other.startedAt, delivery: other.delivery }] : [])
+    .slice(0, TREND_RUNS)
+    .reverse();
+
+  if (!analysis && trend.length === 0) {
+    return null;
+  }
+
+  const fillers = analysis
+    ? Object.entries(analysis.fillerCounts).sort((a, b) => b[1] - a[1])
+    : [];
+  const longestSilence = analysis?.silences.reduce((longest, silence) => Math.max(longest, silence.durationMs), 0) ?? 0;
+  const maxFillerRate = Math.max(1, ...trend.map(other => other.delivery.fillersPerMinute));
+
+  return (
+    <div className="space-y-4 border-t pt-4">
+      <h4 className="flex items-center gap-2 text-sm font-semibold">
+        <Activity className="w-4 h-4 text-gray-600" />
+        Delivery
+      </h4>
+
+      {analysis ? (
+        <div className="grid sm:grid-cols-4 gap-3 text-sm">
+          <div className="rounded-md border p-3">
+            <p className="text-xs text-muted-foreground">Pace</p>
+            <p className="text-lg font-semibold">{analysis.wordsPerMinute} wpm</p>
+          </div>
+          <div className="rounded-md border p-3">
+            <p className="text-xs text-muted-foreground">Fillers</p>
+            <p className="text-lg font-semibold">
+              {analysis.fillerCount} <span className="text-xs font-normal text-gray-500">({analysis.fillersPerMinute}/min)</span>
+            </p>
+          </div>
+          <div className="rounded-md border p-3">
+            <p className="text-xs text-muted-foreground">Long silences</p>
+            <p className="text-lg font-semibold">
+              {analysis.silences.length}
+              {longestSilence > 0 && <span className="text-xs font-normal text-gray-500"> (longest {formatDuration(longestSilence / 1000)})</span>}
+            </p>
+          </div>
+          <div className="rounded-md border p-3">
+            <p className="text-xs text-muted-foreground">Words heard</p>
+            <p className="text-lg font-semibold">{analysis.wordCount}</p>
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">No speech was recognised in this session - use Follow me while practising to analyse delivery.</p>
+      )}
+
+      {analysis && (fillers.length > 0 || analysis.repeatedPhrases.length > 0) && (
+        <div className="flex flex-wrap items-center gap-1 text-xs">
+          {fillers.map(([filler, count]) => (
+            <Badge key={filler} variant="secondary" className="text-xs">"{filler}" ×{count}</Badge>
+          ))}
+          {analysis.repeatedPhrases.map(({ phrase, count }) => (
+            <Badge key={phrase} variant="outline" className="text-xs border-amber-300 text-amber-700">
+              repeated "{phrase}" ×{count}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {analysis && analysis.slides.length > 0 && (
+        <div className="flex flex-wrap gap-2 text-xs">
+          {analysis.slides.map(slide => (
+            <span key={slide.slideId} className="rounded border px-2 py-1 text-gray-600">
+              Slide {slide.slideIndex + 1}: {slide.wordsPerMinute} wpm{slide.fillerCount > 0 && `, ${slide.fillerCount} fillers`}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Trend across sessions, oldest first */}
+      {trend.length > 1 && (
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Fillers per minute and pace over the last {trend.length} analysed sessions</p>
+          <div className="flex items-end gap-2 h-24">
+            {trend.map(other => (
+              <div
+                key={other.id}
+                className="flex-1 flex flex-col items-center justify-end gap-1 h-full"
+                title={`${new Date(other.startedAt).toLocaleString()}: ${other.delivery.fillersPerMinute} fillers/min, ${other.delivery.wordsPerMinute} wpm, ${other.delivery.silences.length} silences`}
+              >
+                <span className="text-[10px] text-gray-500">{other.delivery.fillersPerMinute}</span>
+                <div
+                  className={`w-full rounded-t ${other.id === session.id ? 'bg-blue-500' : 'bg-blue-200'}`}
+                  style={{ height: `${Math.max(4, (other.delivery.fillersPerMinute / maxFillerRate) * 60)}%` }}
+                />
+                <span className="text-[10px] text-gray-500">{other.delivery.wordsPerMinute}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
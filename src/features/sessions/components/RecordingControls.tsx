@@ -0,0 +1,36 @@
+import { useSessionRecorder } from '../hooks/useSessionRecorder';
+import { formatDuration } from '../utils/session-timing';
+import { Button } from '../../../components/ui/button';
+import { Circle, Square } from 'lucide-react';
+
+/**
+ * Record / stop button for the running rehearsal
+ * The audio is saved with the session and can be replayed from Rehearsal History
+ */
+export function RecordingControls() {
+  const { isRecording, elapsedMs, error, canRecord, start, stop } = useSessionRecorder();
+
+  return (
+    <div className="flex items-center gap-2">
+      {isRecording ? (
+        <Button variant="outline" size="sm" onClick={stop} className="min-h-[44px] px-3 text-xs md:text-sm border-red-300 text-red-700">
+          <Square className="w-4 h-4 mr-1 fill-current" />
+          <span className="tabular-nums">{formatDuration(elapsedMs / 1000)}</span>
+        </Button>
+      ) : (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={start}
+          disabled={!canRecord}
+          className="min-h-[44px] px-3 text-xs md:text-sm"
+          title={canRecord ? 'Record audio of this run' : 'Audio recording is not available'}
+        >
+          <Circle className="w-4 h-4 mr-1 fill-red-500 text-red-500" />
+          <span className="hidden sm:inline">Record</span>
+        </Button>
+      )}
+      {error && <span className="text-xs text-red-600">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { usePresentationStore } from '../../../core/store/presentation';
+import { loadSessionRecording } from '../../../services/imageStorage';
+import { findMarkerAt, formatDuration } from '../utils/session-timing';
+import { SlideViewer } from '../../slides/components/SlideViewer';
+import type { SessionRecording } from '../../../core/types';
+
+interface RecordingReplayProps {
+  recordingId: string;
+}
+
+/**
+ * Replay a rehearsal recording
+ * The slides follow the audio at the recorded change times; picking a slide
+ * (in the list or the viewer) jumps the audio to where that slide started.
+ */
+export function RecordingReplay({ recordingId }: RecordingReplayProps) {
+  const { currentPresentation, currentSlideIndex, setCurrentSlide } = usePresentationStore();
+  const [recording, setRecording] = useState<SessionRecording | null>(null);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const shownSlideRef = useRef<number | null>(null); // Slide the audio last moved to
+
+  const slides = currentPresentation?.slides;
+
+  // Slide index per marker - markers keep slide IDs so moved slides are still found
+  const markerSlides = useMemo(() => (recording?.slideMarkers || []).map(marker => {
+    const index = (slides || []).findIndex(slide => slide.id === marker.slideId);
+    return index === -1 ? marker.slideIndex : index;
+  }), [recording, slides]);
+
+  useEffect(() => {
+    let isCancelled = false;
+    let objectUrl: string | null = null;
+    setIsLoading(true);
+
+    loadSessionRecording(recordingId).then(loaded => {
+      if (isCancelled) return;
+      if (loaded) {
+        objectUrl = URL.createObjectURL(loaded.audio);
+        setAudioUrl(objectUrl);
+      }
+      setRecording(loaded);
+      setIsLoading(false);
+    });
+
+    return () => {
+      isCancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [recordingId]);
+
+  // Start on the slide the recording started on
+  useEffect(() => {
+    if (shownSlideRef.current !== null || markerSlides.length === 0) return;
+    shownSlideRef.current = markerSlides[0];
+    setCurrentSlide(markerSlides[0]);
+  }, [markerSlides, setCurrentSlide]);
+
+  const findSlideMarker = (slideIndex: number) => {
+    const markerIndex = markerSlides.indexOf(slideIndex);
+    return markerIndex === -1 ? null : recording?.slideMarkers[markerIndex] || null;
+  };
+
+  // Slide picked in the viewer - jump the audio to it
+  useEffect(() => {
+    if (shownSlideRef.current === null || currentSlideIndex === shownSlideRef.current) return;
+    shownSlideRef.current = currentSlideIndex;
+    const markerIndex = markerSlides.indexOf(currentSlideIndex);
+    if (markerIndex !== -1 && recording && audioRef.current) {
+      audioRef.current.currentTime = recording.slideMarkers[markerIndex].offsetMs / 1000;
+    }
+  }, [currentSlideIndex, markerSlides, recording]);
+
+  const handleTimeUpdate = () => {
+    const audio = audioRef.current;
+    if (!audio || !recording) return;
+
+    const markerIndex = findMarkerAt(recording.slideMarkers, audio.currentTime * 1000);
+    if (markerIndex === -1) return;
+
+    const slideIndex = markerSlides[markerIndex];
+    if (slideIndex !== shownSlideRef.current) {
+      shownSlideRef.current = slideIndex;
+      setCurrentSlide(slideIndex);
+    }
+  };
+
+  const jumpToSlide = (slideIndex: number) => {
+    const marker = findSlideMarker(slideIndex);
+    if (!marker || !audioRef.current) return;
+
+    audioRef.current.currentTime = marker.offsetMs / 1000;
+    shownSlideRef.current = slideIndex;
+    setCurrentSlide(slideIndex);
+    audioRef.current.play().catch(() => {
+      // Autoplay blocked - the user can press play
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-32 gap-2">
+        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+        <p className="text-muted-foreground">Loading recording...</p>
+      </div>
+    );
+  }
+
+  if (!recording || !audioUrl) {
+    return <p className="text-sm text-muted-foreground">This recording is no longer available.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* The viewer on the setup page already handles arrow keys */}
+      <SlideViewer keyboardNavigation={false} />
+
+      <audio
+        ref={audioRef}
+        src={audioUrl}
+        controls
+        onTimeUpdate={handleTimeUpdate}
+        onSeeked={handleTimeUpdate}
+        className="w-full"
+      />
+
+      {/* Jump to any slide's audio */}
+      <div>
+        <p className="text-xs font-medium text-muted-foreground mb-2 uppercase tracking-wide">Jump to slide</p>
+        <div className="flex flex-wrap gap-2">
+          {(slides || []).map((slide, index) => {
+            const marker = findSlideMarker(index);
+            return (
+              <button
+                key={slide.id}
+                onClick={() => jumpToSlide(index)}
+                disabled={!marker}
+                className={`rounded-md border px-2 py-1 text-xs transition-colors ${
+                  index === currentSlideIndex
+                    ? 'border-blue-400 bg-blue-50 text-blue-700'
+                    : marker
+                      ? 'hover:bg-gray-50'
+                      : 'opacity-40 cursor-not-allowed'
+                }`}
+                title={marker ? `Slide ${index + 1} starts at ${formatDuration(marker.offsetMs / 1000)}` : 'Not shown in this recording'}
+              >
+                <span className="font-medium">{index + 1}</span>
+                {marker && <span className="ml-1 text-gray-500 tabular-nums">{formatDuration(marker.offsetMs / 1000)}</span>}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
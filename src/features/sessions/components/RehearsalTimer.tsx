@@ -0,0 +1,89 @@
+import { useEffect, useState } from 'react';
+import { usePresentationStore } from '../../../core/store/presentation';
+import { computeRehearsalPace, formatDuration } from '../utils/session-timing';
+import { Clock } from 'lucide-react';
+
+const MOVE_ON_RATIO = 0.9;  // Share of the slide target where the "move on" cue appears
+const PACE_TOLERANCE_SECONDS = 5;
+
+/**
+ * Clock for the running rehearsal
+ * Shows total and per-slide time against the slide targets saved with the
+ * session (and the section's or path's budget), cues the presenter to
+ * move on near the target and turns red once over
+ */
+export function RehearsalTimer() {
+  const { currentPresentation, currentSlideIndex, activeSession } = usePresentationStore();
+  const [now, setNow] = useState(() => new Date());
+  const isSessionRunning = !!activeSession;
+
+  useEffect(() => {
+    if (!isSessionRunning) return;
+
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [isSessionRunning]);
+
+  if (!currentPresentation || !activeSession) {
+    return null;
+  }
+
+  const pace = computeRehearsalPace(activeSession, currentPresentation.slides, currentSlideIndex, now);
+  const progress = pace.targetSeconds > 0 ? pace.slideSeconds / pace.targetSeconds : 0;
+  const isOver = pace.targetSeconds > 0 && progress >= 1;
+  const isTimeToMoveOn = !isOver && progress >= MOVE_ON_RATIO;
+
+  const barColor = isOver ? 'bg-red-500' : isTimeToMoveOn ? 'bg-amber-400' : 'bg-green-500';
+  const slideTextColor = isOver ? 'text-red-600' : isTimeToMoveOn ? 'text-amber-600' : 'text-gray-700';
+
+  const paceLabel = Math.abs(pace.aheadBySeconds) < PACE_TOLERANCE_SECONDS
+    ? 'On pace'
+    : pace.aheadBySeconds > 0
+      ? `${formatDuration(pace.aheadBySeconds)} ahead`
+      : `${formatDuration(-pace.aheadBySeconds)} behind`;
+  const paceColor = Math.abs(pace.aheadBySeconds) < PACE_TOLERANCE_SECONDS
+    ? 'text-gray-600'
+    : pace.aheadBySeconds > 0 ? 'text-green-600' : 'text-red-600';
+
+  return (
+    <div className="px-4 pb-3 flex flex-wrap items-center gap-x-6 gap-y-2 text-sm">
+      <div className="flex items-center gap-2 text-gray-600">
+        <Clock className="w-4 h-4" />
+        <span className="tabular-nums font-medium text-gray-800">{formatDuration(pace.elapsedSeconds)}</span>
+        {activeSession.section || activeSession.path ? (
+          <span>
+            of <span className="tabular-nums">{formatDuration(pace.plannedSeconds)}</span> for {(activeSession.section ?? activeSession.path)?.name}
+          </span>
+        ) : (
+          <span>total</span>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2 flex-1 min-w-[200px] max-w-md">
+        <span className={`tabular-nums font-medium ${slideTextColor}`}>
+          {formatDuration(pace.slideSeconds)}
+          {pace.targetSeconds > 0 && <span className="text-gray-400 font-normal"> / {formatDuration(pace.targetSeconds)}</span>}
+        </span>
+        <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+          <div
+            className={`h-full transition-all ${barColor}`}
+            style={{ width: `${Math.min(100, Math.round(progress * 100))}%` }}
+          />
+        </div>
+      </div>
+
+      <span className={`tabular-nums ${paceColor}`}>{paceLabel}</span>
+
+      {isTimeToMoveOn && (
+        <span className="text-amber-700 bg-amber-50 border border-amber-200 rounded-full px-3 py-0.5 animate-pulse">
+          Time to move on
+        </span>
+      )}
+      {isOver && (
+        <span className="text-red-700 bg-red-50 border border-red-200 rounded-full px-3 py-0.5">
+          Over by {formatDuration(pace.slideSeconds - pace.targetSeconds)}
+        </span>
+      )}
+    </div>
+  );
+}
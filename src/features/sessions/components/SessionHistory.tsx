@@ -0,0 +1,200 @@
+import { useEffect, useState } from 'react';
+import { usePresentationStore } from '../../../core/store/presentation';
+import { loadPresentationSessions, deleteSession } from '../../../services/practiceSessions';
+import { deleteSessionRecording } from '../../../services/imageStorage';
+import { computeSlideTimings, formatDuration, getSessionDuration } from '../utils/session-timing';
+import { RecordingReplay } from './RecordingReplay';
+import { DeliveryAnalysisPanel } from './DeliveryAnalysisPanel';
+import type { Session } from '../../../core/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../../components/ui/card';
+import { Button } from '../../../components/ui/button';
+import { Badge } from '../../../components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../../../components/ui/dialog';
+import { useToast } from '../../../hooks/use-toast';
+import { Headphones, History, Trash2 } from 'lucide-react';
+
+/**
+ * Rehearsal history for the open presentation
+ * Lists recorded sessions and compares time spent per slide with its target
+ */
+export function SessionHistory() {
+  const { currentPresentation, activeSession } = usePresentationStore();
+  const { toast } = useToast();
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
+  const [replaySession, setReplaySession] = useState<Session | null>(null);
+
+  const presentationId = currentPresentation?.id;
+
+  // Reload whenever a session starts or ends
+  useEffect(() => {
+    if (!presentationId) return;
+    let isCancelled = false;
+
+    loadPresentationSessions(presentationId).then(loaded => {
+      if (!isCancelled) setSessions(loaded);
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [presentationId, activeSession?.id]);
+
+  if (!currentPresentation || sessions.length === 0) {
+    return null;
+  }
+
+  const selectedSession = sessions.find(s => s.id === selectedSessionId) || sessions[0];
+  const timings = computeSlideTimings(selectedSession, currentPresentation.slides);
+
+  const handleDelete = async (session: Session) => {
+    try {
+      if (session.recordingUrl) {
+        await deleteSessionRecording(session.recordingUrl);
+      }
+      await deleteSession(session.id);
+    } catch {
+      // Already logged
+      toast({
+        title: '❌ Session not deleted',
+        description: 'The session could not be removed from this browser. Try again.'
+      });
+      return;
+    }
+    setSessions(current => current.filter(s => s.id !== session.id));
+    if (selectedSessionId === session.id) setSelectedSessionId(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="w-5 h-5 text-gray-600" />
+          Rehearsal History
+        </CardTitle>
+        <CardDescription>Time spent per slide compared with each slide's target</CardDescription>
+      </CardHeader>
+      <CardContent className="grid md:grid-cols-3 gap-6">
+        {/* Session list */}
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {sessions.map(session => (
+            <div
+              key={session.id}
+              className={`flex items-center justify-between rounded-md border p-2 cursor-pointer transition-colors ${
+                session.id === selectedSession.id ? 'border-blue-400 bg-blue-50' : 'hover:bg-gray-50'
+              }`}
+              onClick={() => setSelectedSessionId(session.id)}
+            >
+              <div>
+                <p className="text-sm font-medium">
+                  {new Date(session.startedAt).toLocaleString()}
+                </p>
+                <div className="flex items-center gap-2 mt-1">
+                  <Badge variant="secondary" className="text-xs capitalize">{session.mode}</Badge>
+                  {session.section && (
+                    <Badge variant="outline" className="text-xs" title={`Slides ${session.section.startIndex + 1}-${session.section.endIndex + 1}`}>
+                      {session.section.name}
+                    </Badge>
+                  )}
+                  {session.path && (
+                    <Badge variant="outline" className="text-xs" title={`${session.path.slideIds.length} slides`}>
+                      {session.path.name}
+                    </Badge>
+                  )}
+                  <span className="text-xs text-gray-500">
+                    {session.endedAt ? formatDuration(getSessionDuration(session)) : 'In progress'}
+                  </span>
+                </div>
+              </div>
+              <div className="flex items-center">
+                {session.recordingUrl && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    title="Replay recording"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setReplaySession(session);
+                    }}
+                  >
+                    <Headphones className="w-4 h-4 text-blue-600" />
+                  </Button>
+                )}
+                {session.endedAt && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    title="Delete session"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDelete(session);
+                    }}
+                  >
+                    <Trash2 className="w-4 h-4 text-gray-400" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Per-slide timing */}
+        <div className="md:col-span-2 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs uppercase tracking-wide text-muted-foreground border-b">
+                <th className="py-2 pr-2">Slide</th>
+                <th className="py-2 pr-2">Actual</th>
+                <th className="py-2 pr-2">Target</th>
+                <th className="py-2">Difference</th>
+              </tr>
+            </thead>
+            <tbody>
+              {timings.map(timing => {
+                const difference = timing.actualSeconds - timing.estimatedSeconds;
+                const isOver = timing.estimatedSeconds > 0 && difference > timing.estimatedSeconds * 0.25;
+                const isUnder = timing.estimatedSeconds > 0 && difference < -timing.estimatedSeconds * 0.25;
+
+                return (
+                  <tr key={timing.slideId} className="border-b last:border-0">
+                    <td className="py-2 pr-2 font-medium">
+                      {timing.slideIndex + 1}
+                      {!timing.isPlanned && <span className="ml-1 text-xs font-normal text-gray-500">(backup)</span>}
+                    </td>
+                    <td className="py-2 pr-2">
+                      {timing.visits > 0 ? formatDuration(timing.actualSeconds) : '—'}
+                    </td>
+                    <td className="py-2 pr-2 text-gray-500">{timing.isPlanned ? formatDuration(timing.estimatedSeconds) : '—'}</td>
+                    <td className={`py-2 ${isOver ? 'text-red-600' : isUnder ? 'text-amber-600' : 'text-green-600'}`}>
+                      {timing.visits > 0
+                        ? `${difference > 0 ? '+' : ''}${formatDuration(difference)}`
+                        : 'Skipped'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Filler words and pacing from recognised speech */}
+        <div className="md:col-span-3">
+          <DeliveryAnalysisPanel session={selectedSession} sessions={sessions} />
+        </div>
+      </CardContent>
+
+      {/* Recording replay */}
+      <Dialog open={replaySession !== null} onOpenChange={(open) => !open && setReplaySession(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Rehearsal Recording</DialogTitle>
+            <DialogDescription>
+              {replaySession && new Date(replaySession.startedAt).toLocaleString()} - slides follow the audio
+            </DialogDescription>
+          </DialogHeader>
+          {replaySession?.recordingUrl && <RecordingReplay recordingId={replaySession.recordingUrl} />}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
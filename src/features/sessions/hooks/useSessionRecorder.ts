@@ -0,0 +1,157 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { usePresentationStore } from '../../../core/store/presentation';
+import { saveSessionRecording } from '../../../services/imageStorage';
+import type { SlideMarker } from '../../../core/types';
+
+const PREFERRED_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', 'audio/ogg'];
+
+interface ActiveRecording {
+  recorder: MediaRecorder;
+  stream: MediaStream;
+  chunks: Blob[];
+  sessionId: string;
+  presentationId: string;
+  startedAt: Date;
+  slideMarkers: SlideMarker[];
+}
+
+/**
+ * Whether the browser can record microphone audio
+ */
+export function isAudioRecordingSupported(): boolean {
+  return typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+}
+
+function pickMimeType(): string {
+  return PREFERRED_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) || '';
+}
+
+/**
+ * Record microphone audio for the active rehearsal session
+ * Every slide change while recording is stored as a marker so playback can
+ * follow the slides. The recording is saved when stopped or when the view closes.
+ */
+export const useSessionRecorder = () => {
+  const { currentPresentation, currentSlideIndex, activeSession, attachSessionRecording } = usePresentationStore();
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const recordingRef = useRef<ActiveRecording | null>(null);
+
+  // Mark slide changes on the running recording
+  useEffect(() => {
+    const recording = recordingRef.current;
+    const slide = currentPresentation?.slides[currentSlideIndex];
+    if (!recording || !slide) return;
+
+    const lastMarker = recording.slideMarkers[recording.slideMarkers.length - 1];
+    if (lastMarker?.slideIndex === currentSlideIndex) return;
+
+    recording.slideMarkers.push({
+      slideId: slide.id,
+      slideIndex: currentSlideIndex,
+      offsetMs: Date.now() - recording.startedAt.getTime()
+    });
+  }, [currentSlideIndex, currentPresentation]);
+
+  // Recording clock
+  useEffect(() => {
+    if (!isRecording) return;
+    const interval = setInterval(() => {
+      const recording = recordingRef.current;
+      if (recording) setElapsedMs(Date.now() - recording.startedAt.getTime());
+    }, 500);
+    return () => clearInterval(interval);
+  }, [isRecording]);
+
+  const start = useCallback(async () => {
+    const slide = currentPresentation?.slides[currentSlideIndex];
+    if (recordingRef.current || !currentPresentation || !slide || !activeSession) return;
+
+    setError(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const mimeType = pickMimeType();
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      const startedAt = new Date();
+
+      const recording: ActiveRecording = {
+        recorder,
+        stream,
+        chunks: [],
+        sessionId: activeSession.id,
+        presentationId: currentPresentation.id,
+        startedAt,
+        slideMarkers: [{ slideId: slide.id, slideIndex: currentSlideIndex, offsetMs: 0 }]
+      };
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) recording.chunks.push(event.data);
+      };
+
+      recorder.onstop = async () => {
+        recording.stream.getTracks().forEach(track => track.stop());
+        const audioType = recorder.mimeType || mimeType || 'audio/webm';
+        const recordingId = `recording-${recording.sessionId}-${startedAt.getTime()}`;
+
+        try {
+          await saveSessionRecording({
+            id: recordingId,
+            sessionId: recording.sessionId,
+            presentationId: recording.presentationId,
+            audio: new Blob(recording.chunks, { type: audioType }),
+            mimeType: audioType,
+            startedAt,
+            durationMs: Date.now() - startedAt.getTime(),
+            slideMarkers: recording.slideMarkers
+          });
+          await attachSessionRecording(recording.sessionId, recordingId);
+        } catch {
+          // Already logged
+          setError('The recording could not be saved');
+        }
+      };
+
+      recordingRef.current = recording;
+      recorder.start(1000); // Collect data every second so a crash loses little
+      setElapsedMs(0);
+      setIsRecording(true);
+      console.log(`🎙️ Recording session ${recording.sessionId}`);
+    } catch (err) {
+      console.error('❌ Failed to start recording:', err);
+      setError(err instanceof DOMException && err.name === 'NotAllowedError'
+        ? 'Microphone access was denied'
+        : 'Could not start recording');
+    }
+  }, [currentPresentation, currentSlideIndex, activeSession, attachSessionRecording]);
+
+  const stop = useCallback(() => {
+    const recording = recordingRef.current;
+    if (!recording) return;
+    recordingRef.current = null;
+    if (recording.recorder.state !== 'inactive') {
+      recording.recorder.stop();
+    }
+    setIsRecording(false);
+  }, []);
+
+  // Save whatever was recorded when the view closes
+  useEffect(() => stop, [stop]);
+
+  // A new session (e.g. switching practice section) ends the old one's recording with it
+  useEffect(() => {
+    const recording = recordingRef.current;
+    if (recording && recording.sessionId !== activeSession?.id) {
+      stop();
+    }
+  }, [activeSession?.id, stop]);
+
+  return {
+    isRecording,
+    elapsedMs,
+    error,
+    canRecord: isAudioRecordingSupported() && !!activeSession,
+    start,
+    stop
+  };
+};
@@ -0,0 +1,143 @@
+/**
+ * Delivery analysis
+ * Filler words, pace, silences and repeats measured from the words recognised
+ * during a rehearsal - what was actually said, where processScript only
+ * looks at what was written
+ */
+
+import type { DeliveryAnalysis, Session, Slide, SlidePacing, TranscriptSilence } from '../../../core/types';
+import { normalizeWord } from '../../practice/utils/script-follower';
+import { computeSlideTimings } from './session-timing';
+
+const FILLER_WORDS = new Set(['um', 'umm', 'uh', 'uhh', 'uhm', 'er', 'erm', 'ah', 'hmm', 'like', 'basically', 'actually', 'literally']);
+const FILLER_PHRASES = [['you', 'know'], ['i', 'mean']];
+
+// "like" after these is a verb or comparison ("I like", "looks like"), not a filler
+const LIKE_NOT_FILLER_AFTER = new Set(['i', 'you', 'we', 'they', 'would', 'dont', 'didnt', 'look', 'looks', 'looked', 'feel', 'feels', 'seem', 'seems', 'something', 'just']);
+// "you know" after these is a question ("do you know")
+const YOU_KNOW_NOT_FILLER_AFTER = new Set(['do', 'did', 'if', 'dont', 'didnt', 'what']);
+
+const SILENCE_MS = 3000;          // Gaps between recognised words at least this long
+const MAX_REPEAT_WORDS = 4;       // Longest phrase checked for back-to-back repeats
+const MAX_REPEATED_PHRASES = 10;
+
+interface FillerMatch {
+  index: number;   // First word of the filler
+  length: number;  // Words it spans
+  text: string;
+}
+
+/**
+ * Find filler words and phrases
+ * @param words - Normalised words, in order
+ */
+function findFillers(words: string[]): FillerMatch[] {
+  const matches: FillerMatch[] = [];
+
+  for (let i = 0; i < words.length; i++) {
+    const previous = words[i - 1] || '';
+
+    const phrase = FILLER_PHRASES.find(filler => filler.every((word, offset) => words[i + offset] === word));
+    if (phrase && !(phrase[0] === 'you' && YOU_KNOW_NOT_FILLER_AFTER.has(previous))) {
+      matches.push({ index: i, length: phrase.length, text: phrase.join(' ') });
+      i += phrase.length - 1;
+      continue;
+    }
+
+    if (!FILLER_WORDS.has(words[i])) continue;
+    if (words[i] === 'like' && LIKE_NOT_FILLER_AFTER.has(previous)) continue;
+    matches.push({ index: i, length: 1, text: words[i] });
+  }
+
+  return matches;
+}
+
+/**
+ * Phrases said twice in a row ("the the", "we need to we need to")
+ * Fillers are skipped, so "the um the" counts too
+ */
+function findRepeatedPhrases(words: string[]): { phrase: string; count: number }[] {
+  const counts = new Map<string, number>();
+
+  for (let i = 0; i < words.length; i++) {
+    for (let length = MAX_REPEAT_WORDS; length >= 1; length--) {
+      if (i + length * 2 > words.length) continue;
+
+      const first = words.slice(i, i + length);
+      const isRepeated = first.every((word, offset) => word === words[i + length + offset]);
+      if (isRepeated) {
+        const phrase = first.join(' ');
+        counts.set(phrase, (counts.get(phrase) || 0) + 1);
+        i += length - 1;
+        break;
+      }
+    }
+  }
+
+  return [...counts.entries()]
+    .map(([phrase, count]) => ({ phrase, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_REPEATED_PHRASES);
+}
+
+/**
+ * Analyse the transcript recorded during a session
+ * @param session - Session with its transcript and slide visits
+ * @param slides - Current slides
+ * @returns null when nothing was recognised
+ */
+export function analyzeDelivery(session: Session, slides: Slide[], now: Date = new Date()): DeliveryAnalysis | null {
+  const transcript = (session.transcript || []).filter(word => normalizeWord(word.text));
+  if (transcript.length === 0) return null;
+
+  const words = transcript.map(word => normalizeWord(word.text));
+  const fillers = findFillers(words);
+
+  const fillerWordIndexes = new Set<number>();
+  const fillerCounts: Record<string, number> = {};
+  fillers.forEach(filler => {
+    fillerCounts[filler.text] = (fillerCounts[filler.text] || 0) + 1;
+    for (let offset = 0; offset < filler.length; offset++) fillerWordIndexes.add(filler.index + offset);
+  });
+
+  const silences: TranscriptSilence[] = [];
+  transcript.forEach((word, i) => {
+    const next = transcript[i + 1];
+    if (next && next.offsetMs - word.offsetMs >= SILENCE_MS) {
+      silences.push({ offsetMs: word.offsetMs, durationMs: next.offsetMs - word.offsetMs, slideIndex: word.slideIndex });
+    }
+  });
+
+  const timings = computeSlideTimings(session, slides, now);
+  const slidePacing: SlidePacing[] = [];
+  timings.forEach(timing => {
+    const wordCount = transcript.filter(word => word.slideId === timing.slideId).length;
+    if (wordCount === 0) return;
+
+    slidePacing.push({
+      slideId: timing.slideId,
+      slideIndex: timing.slideIndex,
+      wordCount,
+      fillerCount: fillers.filter(filler => transcript[filler.index].slideId === timing.slideId).length,
+      wordsPerMinute: timing.actualSeconds > 0 ? Math.round(wordCount / (timing.actualSeconds / 60)) : 0
+    });
+  });
+
+  // Pace over the slides something was said on - not time spent flicking through
+  const speakingSeconds = slidePacing.reduce(
+    (sum, slide) => sum + (timings.find(timing => timing.slideId === slide.slideId)?.actualSeconds || 0),
+    0
+  );
+  const speakingMinutes = speakingSeconds / 60;
+
+  return {
+    wordCount: words.length,
+    wordsPerMinute: speakingMinutes > 0 ? Math.round(words.length / speakingMinutes) : 0,
+    fillerCount: fillers.length,
+    fillersPerMinute: speakingMinutes > 0 ? Math.round((fillers.length / speakingMinutes) * 10) / 10 : 0,
+    fillerCounts,
+    silences,
+    repeatedPhrases: findRepeatedPhrases(words.filter((_, i) => !fillerWordIndexes.has(i))),
+    slides: slidePacing
+  };
+}
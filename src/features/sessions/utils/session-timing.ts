@@ -0,0 +1,209 @@
+/**
+ * Session timing utilities
+ * Turn a session's slide visit log into per-slide time totals
+ */
+
+import type { Session, Slide, SlideMarker } from '../../../core/types';
+import { countWords, estimateSpeakingSeconds } from '../../practice/utils/script-processor';
+
+export interface SlideTiming {
+  slideId: string;
+  slideIndex: number;
+  actualSeconds: number;     // Total time spent on the slide across all visits
+  estimatedSeconds: number;  // Target saved with the session, or the script word count estimate
+  visits: number;
+  isPlanned: boolean;        // False for backup slides shown off the session's path
+}
+
+/**
+ * Total length of a session in seconds
+ * Running sessions are measured up to `now`
+ */
+export function getSessionDuration(session: Session, now: Date = new Date()): number {
+  const end = session.endedAt ? new Date(session.endedAt) : now;
+  return Math.max(0, Math.round((end.getTime() - new Date(session.startedAt).getTime()) / 1000));
+}
+
+/**
+ * Compute time spent per slide for a session
+ * Each visit lasts until the next slide change (or the end of the session).
+ * Section runs only cover the section's slides. Sessions with targets only
+ * plan the slides they have targets for (the path they followed); other
+ * slides appear unplanned, and only once visited. Timings are in the order
+ * the talk was planned.
+ */
+export function computeSlideTimings(
+  session: Session,
+  slides: Slide[],
+  now: Date = new Date()
+): SlideTiming[] {
+  const timings = new Map<string, SlideTiming>();
+  const visitedSlideIds = new Set(session.slideVisits.map(visit => visit.slideId));
+
+  slides.forEach((slide, index) => {
+    if (session.section && (index < session.section.startIndex || index > session.section.endIndex)) return;
+
+    const isPlanned = !session.slideTargets || slide.id in session.slideTargets;
+    if (!isPlanned && !visitedSlideIds.has(slide.id)) return;
+
+    timings.set(slide.id, {
+      slideId: slide.id,
+      slideIndex: index,
+      actualSeconds: 0,
+      estimatedSeconds: isPlanned
+        ? session.slideTargets?.[slide.id] ?? estimateSpeakingSeconds(countWords(slide.script || ''))
+        : 0,
+      visits: 0,
+      isPlanned
+    });
+  });
+
+  const sessionEnd = session.endedAt ? new Date(session.endedAt) : now;
+
+  session.slideVisits.forEach((visit, i) => {
+    const timing = timings.get(visit.slideId);
+    if (!timing) return; // Slide was removed after the session, or outside the section
+
+    const start = new Date(visit.enteredAt).getTime();
+    const nextVisit = session.slideVisits[i + 1];
+    const end = nextVisit ? new Date(nextVisit.enteredAt).getTime() : sessionEnd.getTime();
+
+    timing.actualSeconds += Math.max(0, (end - start) / 1000);
+    timing.visits += 1;
+  });
+
+  // Path order (deck order without one), unplanned slides after
+  const pathOrder = session.path?.slideIds ?? [];
+  const planOrder = (timing: SlideTiming) => {
+    if (!timing.isPlanned) return pathOrder.length + slides.length + timing.slideIndex;
+    const position = pathOrder.indexOf(timing.slideId);
+    return position !== -1 ? position : pathOrder.length + timing.slideIndex;
+  };
+
+  return [...timings.values()]
+    .sort((a, b) => planOrder(a) - planOrder(b))
+    .map(timing => ({
+      ...timing,
+      actualSeconds: Math.round(timing.actualSeconds)
+    }));
+}
+
+export interface RehearsalPace {
+  elapsedSeconds: number;         // Whole session so far
+  plannedSeconds: number;         // All the session's targets - the section budget on section runs
+  slideSeconds: number;           // Time on the current slide, across visits
+  targetSeconds: number;          // Current slide's target
+  plannedElapsedSeconds: number;  // Where the plan would have the session by now
+  aheadBySeconds: number;         // Positive when ahead of the plan, negative when behind
+}
+
+/**
+ * Compare a running session with its per-slide targets
+ * The plan has every earlier slide (in planned order) done in its target time
+ * and the current slide's time counted up to its target - time past the
+ * target is behind. On a backup slide the plan waits at the last planned
+ * slide shown.
+ */
+export function computeRehearsalPace(
+  session: Session,
+  slides: Slide[],
+  currentSlideIndex: number,
+  now: Date = new Date()
+): RehearsalPace {
+  const timings = computeSlideTimings(session, slides, now);
+  const plannedTimings = timings.filter(timing => timing.isPlanned);
+  const current = timings.find(timing => timing.slideIndex === currentSlideIndex);
+  const targetSeconds = current?.estimatedSeconds ?? 0;
+  const slideSeconds = current?.actualSeconds ?? 0;
+
+  // Where the plan stands - the current slide, or the one the detour left from
+  let anchor = current?.isPlanned ? current : undefined;
+  for (let i = session.slideVisits.length - 1; !anchor && i >= 0; i--) {
+    anchor = plannedTimings.find(timing => timing.slideId === session.slideVisits[i].slideId);
+  }
+
+  const anchorPosition = anchor ? plannedTimings.indexOf(anchor) : 0;
+  const plannedElapsedSeconds = plannedTimings
+    .slice(0, anchorPosition)
+    .reduce((sum, timing) => sum + timing.estimatedSeconds, anchor ? Math.min(anchor.actualSeconds, anchor.estimatedSeconds) : 0);
+  const elapsedSeconds = getSessionDuration(session, now);
+
+  return {
+    elapsedSeconds,
+    plannedSeconds: plannedTimings.reduce((sum, timing) => sum + timing.estimatedSeconds, 0),
+    slideSeconds,
+    targetSeconds,
+    plannedElapsedSeconds,
+    aheadBySeconds: plannedElapsedSeconds - elapsedSeconds
+  };
+}
+
+/**
+ * Format seconds as m:ss
+ */
+export function formatDuration(totalSeconds: number): string {
+  const sign = totalSeconds < 0 ? '-' : '';
+  const seconds = Math.abs(Math.round(totalSeconds));
+  const minutes = Math.floor(seconds / 60);
+  return `${sign}${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Marker in effect at a point in a recording
+ * @returns Index into the markers, or -1 before the first one
+ */
+export function findMarkerAt(markers: SlideMarker[], offsetMs: number): number {
+  let index = -1;
+  markers.forEach((marker, i) => {
+    if (marker.offsetMs <= offsetMs) index = i;
+  });
+  return index;
+}
+
+export interface MeasuredSpeakingRate {
+  wordsPerMinute: number;
+  sessionCount: number;  // Sessions the rate was measured from
+}
+
+const MEASURED_SESSION_LIMIT = 5;   // Only recent rehearsals reflect the current pace
+const MIN_MEASURED_VISIT_SECONDS = 5; // Shorter visits are just clicking past a slide
+
+/**
+ * Speaking rate measured from finished sessions
+ * Divides the script words of each slide by the time spent on it,
+ * skipping slides that were only flicked past
+ * @param sessions - Sessions, newest first
+ * @param slides - Current slides (for their scripts)
+ * @returns null when there is not enough timed script to measure
+ */
+export function measureWordsPerMinute(sessions: Session[], slides: Slide[]): MeasuredSpeakingRate | null {
+  const recentSessions = sessions
+    .filter(session => session.endedAt && session.slideVisits.length > 0)
+    .slice(0, MEASURED_SESSION_LIMIT);
+
+  let totalWords = 0;
+  let totalSeconds = 0;
+  let sessionCount = 0;
+
+  recentSessions.forEach(session => {
+    let sessionWords = 0;
+    computeSlideTimings(session, slides).forEach(timing => {
+      const words = countWords(slides[timing.slideIndex].script || '');
+      if (words === 0 || timing.actualSeconds < MIN_MEASURED_VISIT_SECONDS) return;
+      sessionWords += words;
+      totalSeconds += timing.actualSeconds;
+    });
+
+    if (sessionWords > 0) {
+      totalWords += sessionWords;
+      sessionCount += 1;
+    }
+  });
+
+  if (totalSeconds < 60) return null;
+
+  return {
+    wordsPerMinute: Math.round(totalWords / (totalSeconds / 60)),
+    sessionCount
+  };
+}
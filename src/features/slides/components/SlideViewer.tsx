@@ -1,26 +1,37 @@
-import { useEffect } from 'react';
-import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Eye, EyeOff } from 'lucide-react';
 import { usePresentationStore } from '../../../core/store/presentation';
+import { useBudgetPlan } from '../../budget/hooks/useBudgetPlan';
+import { BudgetStatusDot } from '../../budget/components/BudgetStatusDot';
+import { useKeyBindings } from '../../keyboard/hooks/useKeyBindings';
+import { useSlideSequence } from '../../paths/hooks/useSlideSequence';
+import { getSelectedPath, getSlideSequence } from '../../paths/utils/slide-paths';
 
-export function SlideViewer() {
+interface SlideViewerProps {
+  /** Keyboard and clicker navigation - off when another viewer on the page already handles it */
+  keyboardNavigation?: boolean;
+  /** Show the hide/show toggle for the current slide */
+  allowHiding?: boolean;
+}
+
+export function SlideViewer({ keyboardNavigation = true, allowHiding = false }: SlideViewerProps = {}) {
   const {
     currentPresentation,
     currentSlideIndex,
     nextSlide,
     previousSlide,
-    setCurrentSlide
+    setCurrentSlide,
+    setSlideHidden
   } = usePresentationStore();
+  const budgetPlan = useBudgetPlan();
+  const { sequence, canGoPrevious, canGoNext } = useSlideSequence();
   
   // Handle keyboard navigation
-  useEffect(() => {
-    const handleKeyPress = (e: KeyboardEvent) => {
-      if (e.key === 'ArrowRight') nextSlide();
-      if (e.key === 'ArrowLeft') previousSlide();
-    };
-    
-    window.addEventListener('keydown', handleKeyPress);
-    return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [nextSlide, previousSlide]);
+  useKeyBindings({
+    nextSlide,
+    previousSlide,
+    firstSlide: () => setCurrentSlide(sequence[0]),
+    lastSlide: () => setCurrentSlide(sequence[sequence.length - 1])
+  }, { enabled: keyboardNavigation, onJumpToSlide: setCurrentSlide });
   
   if (!currentPresentation || currentPresentation.slides.length === 0) {
     return null;
@@ -28,8 +39,10 @@ export function SlideViewer() {
   
   const currentSlide = currentPresentation.slides[currentSlideIndex];
   const totalSlides = currentPresentation.slides.length;
-  const canGoPrevious = currentSlideIndex > 0;
-  const canGoNext = currentSlideIndex < totalSlides - 1;
+  
+  // Slides left out of the talk (hidden, or not on the selected path) are dimmed
+  const talkSlides = new Set(getSlideSequence(currentPresentation));
+  const selectedPath = getSelectedPath(currentPresentation);
   
   return (
     <div className="relative w-full">
@@ -92,6 +105,21 @@ export function SlideViewer() {
         <span className="text-sm font-medium text-gray-600">
           Slide {currentSlideIndex + 1} of {totalSlides}
         </span>
+        {!talkSlides.has(currentSlideIndex) && (
+          <span className="ml-2 text-xs text-gray-500">
+            {selectedPath ? `Not in "${selectedPath.name}"` : 'Hidden'} - kept as a backup
+          </span>
+        )}
+        {allowHiding && (
+          <button
+            onClick={() => setSlideHidden(currentSlide.id, !currentSlide.isHidden)}
+            className="ml-3 inline-flex items-center gap-1 text-xs text-gray-500 hover:text-gray-800"
+            title={currentSlide.isHidden ? 'Include this slide in the talk' : 'Skip this slide unless a path includes it'}
+          >
+            {currentSlide.isHidden ? <Eye className="w-3.5 h-3.5" /> : <EyeOff className="w-3.5 h-3.5" />}
+            {currentSlide.isHidden ? 'Show slide' : 'Hide slide'}
+          </button>
+        )}
       </div>
       
       {/* Thumbnail Strip */}
@@ -101,12 +129,14 @@ export function SlideViewer() {
             key={slide.id}
             onClick={() => setCurrentSlide(index)}
             className={`
-              flex-shrink-0 rounded border-2 overflow-hidden transition-all
+              relative flex-shrink-0 rounded border-2 overflow-hidden transition-all
               ${index === currentSlideIndex 
                 ? 'border-purple-500 shadow-lg' 
                 : 'border-gray-300 hover:border-purple-300'
               }
+              ${talkSlides.has(index) ? '' : 'opacity-40'}
             `}
+            title={talkSlides.has(index) ? undefined : 'Not in the talk'}
           >
             {slide.imageUrl && slide.imageUrl.trim() !== '' ? (
               <img
@@ -119,6 +149,10 @@ export function SlideViewer() {
                 {index + 1}
               </div>
             )}
+            <BudgetStatusDot slideBudget={budgetPlan?.slides[index]} className="top-1 right-1" />
+            {slide.isHidden && (
+              <EyeOff className="absolute bottom-1 left-1 w-3 h-3 text-gray-700" />
+            )}
           </button>
         ))}
       </div>
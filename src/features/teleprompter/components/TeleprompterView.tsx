@@ -0,0 +1,304 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { usePresentationStore } from '../../../core/store/presentation';
+import { AVERAGE_WORDS_PER_MINUTE } from '../../practice/utils/script-processor';
+import { ScriptMarkupView } from '../../practice/components/ScriptMarkupView';
+import { buildTeleprompterSections, sectionAtWord } from '../utils/teleprompter-script';
+import { useSlideSequence } from '../../paths/hooks/useSlideSequence';
+import { useKeyBindings } from '../../keyboard/hooks/useKeyBindings';
+import { Button } from '../../../components/ui/button';
+import { Badge } from '../../../components/ui/badge';
+import { ChevronLeft, Pause, Play, RotateCcw, FlipHorizontal, Minus, Plus } from 'lucide-react';
+
+interface TeleprompterViewProps {
+  onBack: () => void;
+}
+
+const MIN_WPM = 80;
+const MAX_WPM = 250;
+const MIN_FONT_SIZE = 24;
+const MAX_FONT_SIZE = 96;
+const READING_LINE_RATIO = 0.35; // Reading line sits this far down the viewport
+const NUDGE_WORDS = 10;
+
+/**
+ * Teleprompter
+ * Scrolls the allocated slide scripts past a reading line at the chosen
+ * speaking rate, holds on [pause] directives and advances the slide when
+ * the scroll crosses into the next slide's script
+ */
+export function TeleprompterView({ onBack }: TeleprompterViewProps) {
+  const {
+    currentPresentation,
+    currentSlideIndex,
+    setCurrentSlide,
+    nextSlide,
+    previousSlide,
+    startSession,
+    endSession
+  } = usePresentationStore();
+
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [wordsPerMinute, setWordsPerMinute] = useState(AVERAGE_WORDS_PER_MINUTE);
+  const [fontSize, setFontSize] = useState(48);
+  const [isMirrored, setIsMirrored] = useState(false);
+
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const sectionRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const positionRef = useRef(0);           // Current spoken-word position in the deck
+  const holdUntilRef = useRef(0);          // Timestamp until which a [pause] holds the scroll
+  const firedPausesRef = useRef(new Set<number>());
+  const slideIndexRef = useRef(-1);        // Slide the scroll position belongs to
+
+  // The script runs along the selected path
+  const { sequence } = useSlideSequence();
+  const slides = currentPresentation?.slides;
+  const sections = useMemo(() => buildTeleprompterSections(slides || [], sequence), [slides, sequence]);
+  const totalWords = sections.length > 0
+    ? sections[sections.length - 1].startWord + sections[sections.length - 1].wordCount
+    : 0;
+
+  // Rehearsing with the prompter counts as a practice session
+  useEffect(() => {
+    startSession('practice');
+    return () => {
+      endSession();
+    };
+  }, [startSession, endSession]);
+
+  /**
+   * Scroll so the current word position sits on the reading line
+   */
+  const applyScroll = useCallback(() => {
+    const viewport = viewportRef.current;
+    if (!viewport || sections.length === 0) return;
+
+    const index = sectionAtWord(sections, positionRef.current);
+    const section = sections[index];
+    const element = sectionRefs.current[index];
+    if (!element) return;
+
+    const fraction = section.wordCount > 0
+      ? Math.min(1, (positionRef.current - section.startWord) / section.wordCount)
+      : 0;
+    const target = element.offsetTop + fraction * element.offsetHeight;
+    viewport.scrollTop = target - viewport.clientHeight * READING_LINE_RATIO;
+  }, [sections]);
+
+  /**
+   * Move the position and forget pauses after it so they fire again
+   */
+  const seekToWord = useCallback((word: number) => {
+    positionRef.current = Math.max(0, Math.min(totalWords, word));
+    holdUntilRef.current = 0;
+    firedPausesRef.current.forEach(pauseWord => {
+      if (pauseWord >= positionRef.current) firedPausesRef.current.delete(pauseWord);
+    });
+    applyScroll();
+  }, [totalWords, applyScroll]);
+
+  // Opening on a slide, or changing it outside the scroll (arrow keys, buttons) - jump to its script
+  useEffect(() => {
+    if (currentSlideIndex === slideIndexRef.current) return;
+    slideIndexRef.current = currentSlideIndex;
+    const section = sections.find(candidate => candidate.slideIndex === currentSlideIndex);
+    if (section) seekToWord(section.startWord);
+  }, [currentSlideIndex, sections, seekToWord]);
+
+  // Layout changes move the text - keep the reading line on the same word
+  useEffect(() => {
+    applyScroll();
+  }, [fontSize, isMirrored, applyScroll]);
+
+  // Auto-scroll loop
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let frameId = 0;
+    let lastTime = performance.now();
+
+    const step = (now: number) => {
+      const elapsedSeconds = (now - lastTime) / 1000;
+      lastTime = now;
+
+      if (now >= holdUntilRef.current) {
+        const previous = positionRef.current;
+        let next = previous + (wordsPerMinute / 60) * elapsedSeconds;
+
+        // Hold on the first [pause] crossed this frame
+        const pause = sections
+          .flatMap(section => section.pauses)
+          .find(p => p.word >= previous && p.word <= next && !firedPausesRef.current.has(p.word));
+        if (pause) {
+          next = pause.word;
+          holdUntilRef.current = now + pause.seconds * 1000;
+          firedPausesRef.current.add(pause.word);
+        }
+
+        positionRef.current = Math.min(totalWords, next);
+
+        // Crossing a slide boundary advances the deck
+        const index = sectionAtWord(sections, positionRef.current);
+        const slideIndex = sections[index].slideIndex;
+        if (slideIndex !== slideIndexRef.current) {
+          const isNext = sections[index - 1]?.slideIndex === slideIndexRef.current;
+          slideIndexRef.current = slideIndex;
+          if (isNext) nextSlide();
+          else setCurrentSlide(slideIndex);
+        }
+
+        applyScroll();
+
+        if (positionRef.current >= totalWords) {
+          setIsPlaying(false);
+          return;
+        }
+      }
+
+      frameId = requestAnimationFrame(step);
+    };
+
+    frameId = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frameId);
+  }, [isPlaying, wordsPerMinute, sections, totalWords, nextSlide, setCurrentSlide, applyScroll]);
+
+  const restart = useCallback(() => {
+    setIsPlaying(false);
+    firedPausesRef.current.clear();
+    slideIndexRef.current = sequence[0];
+    setCurrentSlide(sequence[0]);
+    seekToWord(0);
+  }, [sequence, setCurrentSlide, seekToWord]);
+
+  // Keyboard and clicker controls
+  useKeyBindings({
+    playPause: () => setIsPlaying(playing => !playing),
+    scrollBack: () => seekToWord(positionRef.current - NUDGE_WORDS),
+    scrollForward: () => seekToWord(positionRef.current + NUDGE_WORDS),
+    nextSlide,
+    previousSlide,
+    firstSlide: () => setCurrentSlide(sequence[0]),
+    lastSlide: () => setCurrentSlide(sequence[sequence.length - 1]),
+    exit: onBack
+  }, { onJumpToSlide: setCurrentSlide });
+
+  if (!currentPresentation) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <p className="text-muted-foreground">No presentation loaded</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-[calc(100vh-8rem)] min-h-[500px] bg-black rounded-lg overflow-hidden">
+      {/* Controls */}
+      <div className="flex-shrink-0 flex flex-wrap items-center gap-3 px-4 py-3 bg-gray-900 text-gray-100">
+        <Button variant="ghost" size="sm" onClick={onBack} className="text-gray-100 hover:bg-gray-800 hover:text-white">
+          <ChevronLeft className="w-4 h-4 mr-1" />
+          Back
+        </Button>
+
+        <Button
+          size="sm"
+          onClick={() => setIsPlaying(!isPlaying)}
+          disabled={totalWords === 0}
+          className="min-w-[96px]"
+        >
+          {isPlaying ? <Pause className="w-4 h-4 mr-1" /> : <Play className="w-4 h-4 mr-1" />}
+          {isPlaying ? 'Pause' : 'Play'}
+        </Button>
+        <Button variant="ghost" size="sm" onClick={restart} title="Back to the start" className="text-gray-100 hover:bg-gray-800 hover:text-white">
+          <RotateCcw className="w-4 h-4" />
+        </Button>
+
+        <label className="flex items-center gap-2 text-sm">
+          <span className="text-gray-400">Speed</span>
+          <input
+            type="range"
+            min={MIN_WPM}
+            max={MAX_WPM}
+            step={5}
+            value={wordsPerMinute}
+            onChange={(e) => setWordsPerMinute(Number(e.target.value))}
+            className="w-32 accent-purple-500"
+          />
+          <span className="w-16 tabular-nums">{wordsPerMinute} wpm</span>
+        </label>
+
+        <div className="flex items-center gap-1 text-sm">
+          <span className="text-gray-400 mr-1">Size</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setFontSize(size => Math.max(MIN_FONT_SIZE, size - 4))}
+            className="text-gray-100 hover:bg-gray-800 hover:text-white px-2"
+            title="Smaller text"
+          >
+            <Minus className="w-4 h-4" />
+          </Button>
+          <span className="w-8 text-center tabular-nums">{fontSize}</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setFontSize(size => Math.min(MAX_FONT_SIZE, size + 4))}
+            className="text-gray-100 hover:bg-gray-800 hover:text-white px-2"
+            title="Larger text"
+          >
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <Button
+          variant={isMirrored ? 'default' : 'ghost'}
+          size="sm"
+          onClick={() => setIsMirrored(!isMirrored)}
+          className={isMirrored ? '' : 'text-gray-100 hover:bg-gray-800 hover:text-white'}
+          title="Mirror text for a beam-splitter prompter"
+        >
+          <FlipHorizontal className="w-4 h-4 mr-1" />
+          Mirror
+        </Button>
+
+        <Badge variant="secondary" className="ml-auto">
+          Slide {currentSlideIndex + 1} of {currentPresentation.slides.length}
+        </Badge>
+        <span className="hidden lg:inline text-xs text-gray-500">Space play/pause • ↑↓ nudge • ←→ slides</span>
+      </div>
+
+      {/* Script */}
+      <div className="relative flex-1 min-h-0">
+        <div ref={viewportRef} className="absolute inset-0 overflow-hidden">
+          <div
+            className="px-[8%] py-[50vh]"
+            style={{ fontSize, transform: isMirrored ? 'scaleX(-1)' : undefined }}
+          >
+            {sections.map((section, index) => (
+              <div
+                key={currentPresentation.slides[section.slideIndex]?.id || index}
+                ref={(element) => { sectionRefs.current[index] = element; }}
+                className="pb-[1em]"
+              >
+                <p className="text-[0.35em] uppercase tracking-widest text-gray-500 mb-[0.3em]">
+                  Slide {section.slideIndex + 1}
+                </p>
+                {section.wordCount > 0 ? (
+                  <ScriptMarkupView document={section.document} className="text-white leading-snug" />
+                ) : (
+                  <p className="text-[0.5em] italic text-gray-600">No script for this slide</p>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Reading line */}
+        <div
+          className="pointer-events-none absolute inset-x-0 border-t-2 border-purple-500/70"
+          style={{ top: `${READING_LINE_RATIO * 100}%` }}
+        >
+          <div className="absolute left-2 -top-2 w-0 h-0 border-y-8 border-y-transparent border-l-[12px] border-l-purple-500" />
+        </div>
+      </div>
+    </div>
+  );
+}
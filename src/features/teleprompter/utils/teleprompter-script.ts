@@ -0,0 +1,61 @@
+import type { Slide } from '../../../core/types';
+import { parseSlideScript, getSpokenText, type SlideScriptNode } from '../../practice/utils/script-markup';
+import { countWords } from '../../practice/utils/script-processor';
+
+/**
+ * One slide's part of the continuous teleprompter script
+ * Positions are measured in spoken words from the start of the deck
+ */
+export interface TeleprompterSection {
+  slideIndex: number;
+  document: SlideScriptNode;
+  startWord: number;
+  wordCount: number;
+  pauses: { word: number; seconds: number }[]; // [pause] directives, at deck word positions
+}
+
+/**
+ * Build the scrolling script from each slide's allocated script
+ * @param sequence - Slide indexes in the order they are given (default: every slide)
+ */
+export function buildTeleprompterSections(
+  slides: Pick<Slide, 'script'>[],
+  sequence: number[] = slides.map((_, index) => index)
+): TeleprompterSection[] {
+  let startWord = 0;
+
+  return sequence.map(slideIndex => {
+    const document = parseSlideScript(slides[slideIndex]?.script || '');
+    const pauses: TeleprompterSection['pauses'] = [];
+    let wordsSoFar = 0;
+
+    document.paragraphs.forEach(paragraph => {
+      paragraph.children.forEach(child => {
+        if (child.type === 'text' || child.type === 'emphasis') {
+          wordsSoFar += countWords(child.text);
+        } else if (child.type === 'pause') {
+          pauses.push({ word: startWord + wordsSoFar, seconds: child.seconds });
+        }
+      });
+    });
+
+    const wordCount = countWords(getSpokenText(document));
+    const section = { slideIndex, document, startWord, wordCount, pauses };
+    startWord += wordCount;
+    return section;
+  });
+}
+
+/**
+ * Index of the section containing a word position
+ * Empty sections are skipped - the position moves straight past them
+ */
+export function sectionAtWord(sections: TeleprompterSection[], word: number): number {
+  for (let index = sections.length - 1; index >= 0; index--) {
+    const section = sections[index];
+    if (word >= section.startWord && (section.wordCount > 0 || index === sections.length - 1)) {
+      return index;
+    }
+  }
+  return 0;
+}
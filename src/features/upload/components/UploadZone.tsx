@@ -1,8 +1,9 @@
-import { useCallback } from 'react';
+import { useCallback, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { Upload, FileText, AlertCircle } from 'lucide-react';
 import { usePresentationStore } from '../../../core/store/presentation';
-import { convertPdfToImages } from '../utils/pdf-converter';
+import { convertPdfToSlides } from '../utils/pdf-converter';
+import { convertPptxToSlides, isPptxFile, PPTX_MIME_TYPE, type SpeakerNotesTarget } from '../utils/pptx-converter';
 
 export function UploadZone() {
   const {
@@ -14,21 +15,22 @@ export function UploadZone() {
     uploadProgress,
     uploadError
   } = usePresentationStore();
+  const [notesTarget, setNotesTarget] = useState<SpeakerNotesTarget>('script');
   
   const processPdf = useCallback(async (file: File) => {
     try {
       setUploadStatus('uploading');
       setUploadError(null);
       
-      // Convert PDF to images
+      // Convert PDF to images and read each page's text layer
       setUploadStatus('converting');
-      const images = await convertPdfToImages(file, (progress) => {
+      const { images, slides } = await convertPdfToSlides(file, (progress) => {
         setUploadProgress(progress.percentage);
       });
       
       // Create presentation with the images
       const title = file.name.replace('.pdf', '');
-      createPresentation(title, images);
+      createPresentation(title, images, slides);
       
     } catch (error) {
       setUploadError(error instanceof Error ? error.message : 'Upload failed');
@@ -36,19 +38,42 @@ export function UploadZone() {
     }
   }, [setUploadStatus, setUploadError, setUploadProgress, createPresentation]);
   
+  const processPptx = useCallback(async (file: File) => {
+    try {
+      setUploadStatus('uploading');
+      setUploadError(null);
+      
+      // Render slide previews and pull speaker notes + slide text from the deck
+      setUploadStatus('converting');
+      const { images, slides } = await convertPptxToSlides(file, (progress) => {
+        setUploadProgress(progress.percentage);
+      }, { notesTarget });
+      
+      const title = file.name.replace(/\.pptx$/i, '');
+      createPresentation(title, images, slides);
+      
+    } catch (error) {
+      setUploadError(error instanceof Error ? error.message : 'Upload failed');
+      setUploadStatus('error');
+    }
+  }, [setUploadStatus, setUploadError, setUploadProgress, createPresentation, notesTarget]);
+  
   const onDrop = useCallback((acceptedFiles: File[]) => {
     const file = acceptedFiles[0];
     if (file && file.type === 'application/pdf') {
       processPdf(file);
+    } else if (file && isPptxFile(file)) {
+      processPptx(file);
     } else {
-      setUploadError('Please upload a PDF file');
+      setUploadError('Please upload a PDF or PowerPoint (.pptx) file');
     }
-  }, [processPdf, setUploadError]);
+  }, [processPdf, processPptx, setUploadError]);
   
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
-      'application/pdf': ['.pdf']
+      'application/pdf': ['.pdf'],
+      [PPTX_MIME_TYPE]: ['.pptx']
     },
     maxFiles: 1,
     disabled: uploadStatus === 'uploading' || uploadStatus === 'converting'
@@ -60,7 +85,7 @@ export function UploadZone() {
       <div className="flex flex-col items-center justify-center p-8 min-h-[400px]">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600 mb-4" />
         <p className="text-gray-600 mb-2">
-          {uploadStatus === 'uploading' ? 'Reading PDF...' : 'Converting slides...'}
+          {uploadStatus === 'uploading' ? 'Reading file...' : 'Converting slides...'}
         </p>
         <div className="w-full max-w-xs bg-gray-200 rounded-full h-2">
           <div 
@@ -100,13 +125,13 @@ export function UploadZone() {
           
           <h3 className="text-lg font-semibold text-gray-700 mb-2">
             {isDragActive 
-              ? 'Drop your PDF here' 
+              ? 'Drop your file here' 
               : 'Upload your presentation'
             }
           </h3>
           
           <p className="text-sm text-gray-500 mb-4">
-            Drag and drop a PDF file, or click to select
+            Drag and drop a PDF or PowerPoint (.pptx) file, or click to select
           </p>
           
           {uploadError && (
@@ -114,7 +139,7 @@ export function UploadZone() {
           )}
           
           <button className="px-6 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors min-h-[48px]">
-            Choose PDF
+            Choose File
           </button>
           
           <p className="text-xs text-gray-400 mt-4">
@@ -122,6 +147,24 @@ export function UploadZone() {
           </p>
         </div>
       </div>
+      
+      {/* PowerPoint speaker notes destination */}
+      <div className="flex items-center justify-center gap-2 mt-3 text-sm text-gray-600">
+        <span>PowerPoint speaker notes go into:</span>
+        {(['script', 'notes'] as const).map(target => (
+          <button
+            key={target}
+            onClick={() => setNotesTarget(target)}
+            className={`px-3 py-1 rounded-full border transition-colors ${
+              notesTarget === target
+                ? 'border-purple-500 bg-purple-50 text-purple-700'
+                : 'border-gray-300 hover:border-purple-400'
+            }`}
+          >
+            {target === 'script' ? 'Script' : 'Notes'}
+          </button>
+        ))}
+      </div>
     </div>
   );
 }
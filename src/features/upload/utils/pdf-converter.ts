@@ -1,4 +1,5 @@
 import { pdfjs } from '../../../utils/pdf-setup';
+import type { ImportedSlideContent, SlideTextContent } from '../../../core/types';
 
 export interface ConversionProgress {
   current: number;
@@ -6,11 +7,91 @@ export interface ConversionProgress {
   percentage: number;
 }
 
-export async function convertPdfToImages(
+export interface SlideConversionResult {
+  images: string[];
+  slides: ImportedSlideContent[];
+}
+
+// Positioned text run from page.getTextContent()
+interface PdfTextRun {
+  str: string;
+  transform: number[];
+  height: number;
+  hasEOL?: boolean;
+}
+
+const HEADING_SIZE_RATIO = 1.25; // Lines this much larger than body text count as title-like
+const MAX_HEADING_LENGTH = 120;
+
+/**
+ * Group text runs into lines and pick out title-like lines by font size
+ */
+export function extractPdfPageText(items: PdfTextRun[]): SlideTextContent {
+  const lines: { text: string; size: number }[] = [];
+  let current: { text: string; size: number; y: number } | null = null;
+
+  for (const item of items) {
+    const size = item.height || Math.hypot(item.transform[2], item.transform[3]);
+    const y = item.transform[5];
+
+    if (current && Math.abs(current.y - y) <= Math.max(current.size, size) * 0.5) {
+      current.text += (current.text.endsWith(' ') || item.str.startsWith(' ') ? '' : ' ') + item.str;
+      current.size = Math.max(current.size, size);
+    } else {
+      if (current) lines.push(current);
+      current = { text: item.str, size, y };
+    }
+
+    if (item.hasEOL && current) {
+      lines.push(current);
+      current = null;
+    }
+  }
+  if (current) lines.push(current);
+
+  const textLines = lines
+    .map(line => ({ text: line.text.replace(/\s+/g, ' ').trim(), size: line.size }))
+    .filter(line => line.text);
+
+  if (textLines.length === 0) {
+    return { title: null, headings: [], text: '' };
+  }
+
+  // Median line size approximates the body text size
+  const sizes = textLines.map(line => line.size).sort((a, b) => a - b);
+  const bodySize = sizes[Math.floor(sizes.length / 2)];
+  const headings = textLines
+    .filter(line => line.size >= bodySize * HEADING_SIZE_RATIO && line.text.length <= MAX_HEADING_LENGTH)
+    .map(line => line.text);
+
+  // Title is the largest text on the page; a title wrapped over consecutive lines is joined
+  const maxSize = sizes[sizes.length - 1];
+  let title: string | null = null;
+  if (headings.length > 0) {
+    const titleStart = textLines.findIndex(line => line.size === maxSize);
+    const titleLines: string[] = [];
+    for (let i = titleStart; i < textLines.length && textLines[i].size === maxSize; i++) {
+      titleLines.push(textLines[i].text);
+    }
+    title = titleLines.join(' ');
+  }
+
+  return {
+    title,
+    headings,
+    text: textLines.map(line => line.text).join('\n')
+  };
+}
+
+/**
+ * Render each PDF page to an image and capture its text layer for offline script matching
+ */
+export async function convertPdfToSlides(
   file: File,
   onProgress?: (progress: ConversionProgress) => void
-): Promise<string[]> {
+): Promise<SlideConversionResult> {
   const images: string[] = [];
+  const slides: ImportedSlideContent[] = [];
   
   try {
     // Convert file to array buffer
@@ -47,6 +128,16 @@ export async function convertPdfToImages(
       const imageDataUrl = canvas.toDataURL('image/png');
       images.push(imageDataUrl);
       
+      // Text layer - image-only pages simply have no text
+      try {
+        const textContent = await page.getTextContent();
+        const runs = textContent.items.filter((item): item is Extract<typeof item, { str: string }> => 'str' in item);
+        slides.push({ textContent: extractPdfPageText(runs) });
+      } catch (error) {
+        console.warn(`⚠️ Could not read text layer of page ${pageNum}:`, error);
+        slides.push({});
+      }
+      
       // Report progress
       if (onProgress) {
         onProgress({
@@ -57,7 +148,7 @@ export async function convertPdfToImages(
       }
     }
     
-    return images;
+    return { images, slides };
   } catch (error) {
     console.error('PDF conversion error:', error);
     throw new Error('Failed to convert PDF. Please try a different file.');
@@ -0,0 +1,389 @@
+import JSZip from 'jszip';
+import type { ImportedSlideContent, SlideTextContent } from '../../../core/types';
+import type { ConversionProgress, SlideConversionResult } from './pdf-converter';
+
+/**
+ * PowerPoint (.pptx) import
+ *
+ * A .pptx file is a zip of OOXML parts:
+ *   ppt/presentation.xml                 - slide order (p:sldIdLst) and slide size
+ *   ppt/slides/slideN.xml                - shapes, text and pictures for one slide
+ *   ppt/slides/_rels/slideN.xml.rels     - links to media and the notes slide
+ *   ppt/notesSlides/notesSlideN.xml      - speaker notes (body placeholder)
+ *
+ * PowerPoint does not store per-slide renderings, so the preview image is drawn
+ * on a canvas from the slide's pictures and text boxes at their positions.
+ */
+
+export type SpeakerNotesTarget = 'script' | 'notes';
+
+export interface PptxConversionOptions {
+  notesTarget?: SpeakerNotesTarget; // Where speaker notes go on each slide (default: script)
+}
+
+export const PPTX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
+const NS = {
+  p: 'http://schemas.openxmlformats.org/presentationml/2006/main',
+  a: 'http://schemas.openxmlformats.org/drawingml/2006/main',
+  r: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+  rel: 'http://schemas.openxmlformats.org/package/2006/relationships'
+};
+
+const REL_TYPE_SLIDE = '/slide';
+const REL_TYPE_NOTES = '/notesSlide';
+
+const TITLE_PLACEHOLDERS = ['title', 'ctrTitle'];
+const HEADING_PLACEHOLDERS = [...TITLE_PLACEHOLDERS, 'subTitle'];
+const HEADING_MIN_FONT_SIZE = 28; // Points; larger runs count as title-like
+const EMU_PER_POINT = 12700;
+const DEFAULT_SLIDE_SIZE = { cx: 12192000, cy: 6858000 }; // 16:9 widescreen
+const PREVIEW_WIDTH = 1600;
+
+interface ShapeBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+type Relationships = Map<string, { type: string; target: string }>;
+
+/**
+ * Check whether a dropped file is a PowerPoint deck
+ */
+export function isPptxFile(file: File): boolean {
+  return file.type === PPTX_MIME_TYPE || /\.pptx$/i.test(file.name);
+}
+
+function parseXml(xml: string): Document {
+  return new DOMParser().parseFromString(xml, 'application/xml');
+}
+
+async function readXml(zip: JSZip, path: string): Promise<Document | null> {
+  const entry = zip.file(path);
+  return entry ? parseXml(await entry.async('string')) : null;
+}
+
+/**
+ * Resolve a relationship target against the directory of the part that owns it
+ */
+function resolvePartPath(partPath: string, target: string): string {
+  if (target.startsWith('/')) return target.slice(1);
+
+  const segments = partPath.split('/').slice(0, -1);
+  target.split('/').forEach(segment => {
+    if (segment === '..') segments.pop();
+    else if (segment !== '.') segments.push(segment);
+  });
+  return segments.join('/');
+}
+
+async function readRelationships(zip: JSZip, partPath: string): Promise<Relationships> {
+  const segments = partPath.split('/');
+  const fileName = segments.pop();
+  const relsPath = [...segments, '_rels', `${fileName}.rels`].join('/');
+  const relationships: Relationships = new Map();
+
+  const doc = await readXml(zip, relsPath);
+  if (!doc) return relationships;
+
+  Array.from(doc.getElementsByTagNameNS(NS.rel, 'Relationship')).forEach(rel => {
+    const id = rel.getAttribute('Id');
+    const target = rel.getAttribute('Target');
+    if (id && target && rel.getAttribute('TargetMode') !== 'External') {
+      relationships.set(id, {
+        type: rel.getAttribute('Type') || '',
+        target: resolvePartPath(partPath, target)
+      });
+    }
+  });
+  return relationships;
+}
+
+function findRelationship(relationships: Relationships, typeSuffix: string): string | null {
+  for (const rel of relationships.values()) {
+    if (rel.type.endsWith(typeSuffix)) return rel.target;
+  }
+  return null;
+}
+
+function firstChild(element: Element, ns: string, localName: string): Element | null {
+  return element.getElementsByTagNameNS(ns, localName)[0] || null;
+}
+
+function placeholderType(shape: Element): string | null {
+  const ph = firstChild(shape, NS.p, 'ph');
+  if (!ph) return null;
+  return ph.getAttribute('type') || 'body';
+}
+
+/**
+ * Text of each paragraph in an element, runs joined, empty paragraphs dropped
+ */
+function paragraphTexts(element: Element): string[] {
+  return Array.from(element.getElementsByTagNameNS(NS.a, 'p'))
+    .map(paragraph =>
+      Array.from(paragraph.getElementsByTagNameNS(NS.a, 't'))
+        .map(run => run.textContent || '')
+        .join('')
+        .trim()
+    )
+    .filter(Boolean);
+}
+
+/**
+ * Largest run size in the shape, in points
+ */
+function largestFontSize(shape: Element): number | null {
+  const sizes = Array.from(shape.getElementsByTagNameNS(NS.a, 'rPr'))
+    .map(rPr => Number(rPr.getAttribute('sz')))
+    .filter(size => size > 0);
+  return sizes.length > 0 ? Math.max(...sizes) / 100 : null;
+}
+
+function shapeBox(shape: Element): ShapeBox | null {
+  const xfrm = firstChild(shape, NS.a, 'xfrm');
+  const off = xfrm && firstChild(xfrm, NS.a, 'off');
+  const ext = xfrm && firstChild(xfrm, NS.a, 'ext');
+  if (!off || !ext) return null;
+
+  return {
+    x: Number(off.getAttribute('x')) || 0,
+    y: Number(off.getAttribute('y')) || 0,
+    width: Number(ext.getAttribute('cx')) || 0,
+    height: Number(ext.getAttribute('cy')) || 0
+  };
+}
+
+/**
+ * Collect the visible text on a slide, picking out the title and title-like runs
+ */
+function extractSlideText(slideDoc: Document): SlideTextContent {
+  let title: string | null = null;
+  const headings: string[] = [];
+
+  Array.from(slideDoc.getElementsByTagNameNS(NS.p, 'sp')).forEach(shape => {
+    const text = paragraphTexts(shape).join(' ');
+    if (!text) return;
+
+    const type = placeholderType(shape);
+    if (type && TITLE_PLACEHOLDERS.includes(type) && !title) {
+      title = text;
+    }
+    const fontSize = largestFontSize(shape);
+    if ((type && HEADING_PLACEHOLDERS.includes(type)) || (fontSize && fontSize >= HEADING_MIN_FONT_SIZE)) {
+      headings.push(text);
+    }
+  });
+
+  const cSld = firstChild(slideDoc.documentElement, NS.p, 'cSld');
+  const text = cSld ? paragraphTexts(cSld).join('\n') : '';
+
+  return { title: title ?? headings[0] ?? null, headings, text };
+}
+
+/**
+ * Speaker notes live in the body placeholder of the notes slide
+ */
+function extractNotesText(notesDoc: Document): string {
+  const body = Array.from(notesDoc.getElementsByTagNameNS(NS.p, 'sp'))
+    .filter(shape => placeholderType(shape) === 'body');
+  return body.flatMap(shape => paragraphTexts(shape)).join('\n').trim();
+}
+
+/**
+ * Default boxes for placeholders that inherit their position from the layout
+ */
+function fallbackBox(type: string | null, slideSize: { cx: number; cy: number }, index: number): ShapeBox {
+  const { cx, cy } = slideSize;
+  if (type && TITLE_PLACEHOLDERS.includes(type)) {
+    return type === 'ctrTitle'
+      ? { x: cx * 0.08, y: cy * 0.3, width: cx * 0.84, height: cy * 0.22 }
+      : { x: cx * 0.05, y: cy * 0.05, width: cx * 0.9, height: cy * 0.16 };
+  }
+  if (type === 'subTitle') {
+    return { x: cx * 0.12, y: cy * 0.55, width: cx * 0.76, height: cy * 0.2 };
+  }
+  return { x: cx * 0.05, y: cy * (0.25 + 0.05 * index), width: cx * 0.9, height: cy * 0.65 };
+}
+
+function wrapText(context: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && context.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+}
+
+/**
+ * Draw a slide preview from its pictures and text boxes
+ */
+async function renderSlidePreview(
+  zip: JSZip,
+  slideDoc: Document,
+  relationships: Relationships,
+  slideSize: { cx: number; cy: number },
+  slideNumber: number
+): Promise<string> {
+  const scale = PREVIEW_WIDTH / slideSize.cx;
+  const canvas = document.createElement('canvas');
+  canvas.width = PREVIEW_WIDTH;
+  canvas.height = Math.round(slideSize.cy * scale);
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Could not get canvas context');
+  }
+
+  const background = slideDoc.getElementsByTagNameNS(NS.p, 'bg')[0];
+  const backgroundColor = background && firstChild(background, NS.a, 'srgbClr')?.getAttribute('val');
+  context.fillStyle = backgroundColor ? `#${backgroundColor}` : '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+
+  const spTree = slideDoc.getElementsByTagNameNS(NS.p, 'spTree')[0];
+  const elements = spTree
+    ? Array.from(spTree.getElementsByTagNameNS(NS.p, '*')).filter(el => el.localName === 'pic' || el.localName === 'sp')
+    : [];
+  let drawnSomething = false;
+  let bodyIndex = 0;
+
+  for (const element of elements) {
+    if (element.localName === 'pic') {
+      const blip = firstChild(element, NS.a, 'blip');
+      const imagePath = relationships.get(blip?.getAttributeNS(NS.r, 'embed') || '')?.target;
+      const box = shapeBox(element);
+      const imageFile = imagePath ? zip.file(imagePath) : null;
+      if (!box || !imageFile) continue;
+
+      try {
+        const bitmap = await createImageBitmap(await imageFile.async('blob'));
+        context.drawImage(bitmap, box.x * scale, box.y * scale, box.width * scale, box.height * scale);
+        bitmap.close();
+        drawnSomething = true;
+      } catch {
+        // Vector formats (EMF/WMF) cannot be decoded by the browser - skip them
+        console.warn(`⚠️ Skipped unsupported image ${imagePath} on slide ${slideNumber}`);
+      }
+      continue;
+    }
+
+    const paragraphs = paragraphTexts(element);
+    if (paragraphs.length === 0) continue;
+
+    const type = placeholderType(element);
+    const isTitle = !!type && TITLE_PLACEHOLDERS.includes(type);
+    const box = shapeBox(element) || fallbackBox(type, slideSize, isTitle ? 0 : bodyIndex++);
+    const fontSize = (largestFontSize(element) || (isTitle ? 40 : 20)) * EMU_PER_POINT * scale;
+
+    context.fillStyle = '#1f2937';
+    context.font = `${isTitle ? 'bold ' : ''}${fontSize}px system-ui, sans-serif`;
+    context.textBaseline = 'top';
+
+    let y = box.y * scale;
+    const x = box.x * scale;
+    const maxWidth = Math.max(box.width * scale, fontSize * 4);
+    paragraphs.forEach(paragraph => {
+      const prefix = !isTitle && type === 'body' && paragraphs.length > 1 ? '• ' : '';
+      wrapText(context, prefix + paragraph, maxWidth).forEach(line => {
+        context.fillText(line, x, y);
+        y += fontSize * 1.25;
+      });
+      y += fontSize * 0.3;
+    });
+    drawnSomething = true;
+  }
+
+  if (!drawnSomething) {
+    context.fillStyle = '#9ca3af';
+    context.font = `${canvas.height / 12}px system-ui, sans-serif`;
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.fillText(`Slide ${slideNumber}`, canvas.width / 2, canvas.height / 2);
+  }
+
+  return canvas.toDataURL('image/png');
+}
+
+/**
+ * Convert a .pptx deck into slide preview images plus per-slide text and speaker notes
+ */
+export async function convertPptxToSlides(
+  file: File,
+  onProgress?: (progress: ConversionProgress) => void,
+  options: PptxConversionOptions = {}
+): Promise<SlideConversionResult> {
+  const notesTarget = options.notesTarget || 'script';
+
+  try {
+    const zip = await JSZip.loadAsync(await file.arrayBuffer());
+
+    const presentationPath = 'ppt/presentation.xml';
+    const presentationDoc = await readXml(zip, presentationPath);
+    if (!presentationDoc) {
+      throw new Error('ppt/presentation.xml not found');
+    }
+
+    const sizeElement = presentationDoc.getElementsByTagNameNS(NS.p, 'sldSz')[0];
+    const slideSize = sizeElement
+      ? { cx: Number(sizeElement.getAttribute('cx')), cy: Number(sizeElement.getAttribute('cy')) }
+      : DEFAULT_SLIDE_SIZE;
+
+    // Slide order comes from p:sldIdLst, not from the part file names
+    const presentationRels = await readRelationships(zip, presentationPath);
+    const slidePaths = Array.from(presentationDoc.getElementsByTagNameNS(NS.p, 'sldId'))
+      .map(sldId => presentationRels.get(sldId.getAttributeNS(NS.r, 'id') || ''))
+      .filter(rel => rel && rel.type.endsWith(REL_TYPE_SLIDE))
+      .map(rel => rel!.target);
+
+    if (slidePaths.length === 0) {
+      throw new Error('The deck has no slides');
+    }
+
+    const images: string[] = [];
+    const slides: ImportedSlideContent[] = [];
+
+    for (let index = 0; index < slidePaths.length; index++) {
+      const slidePath = slidePaths[index];
+      const slideDoc = await readXml(zip, slidePath);
+      if (!slideDoc) {
+        throw new Error(`Missing slide part ${slidePath}`);
+      }
+
+      const relationships = await readRelationships(zip, slidePath);
+      const notesPath = findRelationship(relationships, REL_TYPE_NOTES);
+      const notesDoc = notesPath ? await readXml(zip, notesPath) : null;
+      const speakerNotes = notesDoc ? extractNotesText(notesDoc) : '';
+
+      images.push(await renderSlidePreview(zip, slideDoc, relationships, slideSize, index + 1));
+      slides.push({
+        [notesTarget]: speakerNotes,
+        textContent: extractSlideText(slideDoc)
+      });
+
+      if (onProgress) {
+        onProgress({
+          current: index + 1,
+          total: slidePaths.length,
+          percentage: Math.round(((index + 1) / slidePaths.length) * 100)
+        });
+      }
+    }
+
+    const notesCount = slides.filter(slide => slide[notesTarget]).length;
+    console.log(`📊 Imported ${slides.length} PowerPoint slides (${notesCount} with speaker notes)`);
+
+    return { images, slides };
+  } catch (error) {
+    console.error('❌ PPTX conversion error:', error);
+    throw new Error('Failed to read PowerPoint file. Please make sure it is a .pptx file (not .ppt).');
+  }
+}
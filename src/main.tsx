@@ -2,9 +2,11 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { AudienceView } from './features/delivery/components/AudienceView'
+import { isAudienceWindow } from './features/delivery/utils/delivery-channel'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {isAudienceWindow() ? <AudienceView /> : <App />}
   </StrictMode>,
 )
@@ -0,0 +1,72 @@
+import Dexie, { type EntityTable } from 'dexie';
+import type { FlashcardReview } from '../core/types';
+
+// Define the IndexedDB database
+class FlashcardDatabase extends Dexie {
+  reviews!: EntityTable<FlashcardReview, 'id'>;
+
+  constructor() {
+    super('PresentationFlashcards');
+
+    this.version(1).stores({
+      reviews: 'id, presentationId, dueAt' // Primary key: card id, Indexes: presentationId, dueAt
+    });
+  }
+}
+
+// Create database instance
+export const flashcardDb = new FlashcardDatabase();
+
+/**
+ * Save (insert or replace) the schedule of a card
+ * @param review - Card schedule after a review
+ */
+export async function saveFlashcardReview(review: FlashcardReview): Promise<void> {
+  try {
+    await flashcardDb.reviews.put(review);
+  } catch (error) {
+    console.error('❌ Failed to save flashcard review to IndexedDB:', error);
+    throw error;
+  }
+}
+
+/**
+ * Load every card schedule for a presentation
+ * @param presentationId - ID of the presentation
+ * @returns Map of card id to schedule
+ */
+export async function loadFlashcardReviews(presentationId: string): Promise<Record<string, FlashcardReview>> {
+  try {
+    const reviews = await flashcardDb.reviews
+      .where('presentationId')
+      .equals(presentationId)
+      .toArray();
+
+    const reviewMap: Record<string, FlashcardReview> = {};
+    reviews.forEach(review => {
+      reviewMap[review.id] = review;
+    });
+    return reviewMap;
+  } catch (error) {
+    console.error('❌ Failed to load flashcard reviews from IndexedDB:', error);
+    return {};
+  }
+}
+
+/**
+ * Delete all card schedules for a presentation
+ * @param presentationId - ID of the presentation
+ */
+export async function deletePresentationFlashcards(presentationId: string): Promise<void> {
+  try {
+    const deleteCount = await flashcardDb.reviews
+      .where('presentationId')
+      .equals(presentationId)
+      .delete();
+
+    console.log(`🗑️ Deleted ${deleteCount} flashcard reviews for presentation: ${presentationId}`);
+  } catch (error) {
+    console.error('❌ Failed to delete presentation flashcards:', error);
+    throw error;
+  }
+}
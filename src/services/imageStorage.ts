@@ -1,4 +1,5 @@
 import Dexie, { type EntityTable } from 'dexie';
+import type { SessionRecording } from '../core/types';
 
 // Define the slide image interface
 interface SlideImage {
@@ -12,6 +13,7 @@ interface SlideImage {
 class ImageDatabase extends Dexie {
   // Define table with proper typing
   images!: EntityTable<SlideImage, 'id'>;
+  recordings!: EntityTable<SessionRecording, 'id'>;
 
   constructor() {
     super('PresentationImages');
@@ -20,6 +22,12 @@ class ImageDatabase extends Dexie {
     this.version(1).stores({
       images: 'id, presentationId, createdAt' // Primary key: id, Indexes: presentationId, createdAt
     });
+
+    // Rehearsal audio lives next to the slide images
+    this.version(2).stores({
+      images: 'id, presentationId, createdAt',
+      recordings: 'id, presentationId, sessionId'
+    });
   }
 }
 
@@ -106,30 +114,96 @@ export async function deletePresentationImages(presentationId: string): Promise<
 }
 
 /**
- * Clear old images to manage storage space
- * Keep only the most recent N presentations
- * @param keepCount - Number of recent presentations to keep (default: 5)
+ * Copy all images of a presentation under a new presentation ID
+ * Used when duplicating a presentation in the library
+ * @param sourcePresentationId - ID of the presentation to copy from
+ * @param targetPresentationId - ID of the new presentation
+ * @param slideIdMap - Map of source slideId to new slideId
  */
-export async function clearOldImages(keepCount: number = 5): Promise<void> {
+export async function copyPresentationImages(
+  sourcePresentationId: string,
+  targetPresentationId: string,
+  slideIdMap: Record<string, string>
+): Promise<void> {
   try {
-    // Get all presentations sorted by creation date (newest first)
-    const allImages = await imageDb.images.orderBy('createdAt').reverse().toArray();
-    
-    // Group by presentation ID and get unique presentation IDs
-    const presentationIds = [...new Set(allImages.map(img => img.presentationId))];
+    const images = await imageDb.images
+      .where('presentationId')
+      .equals(sourcePresentationId)
+      .toArray();
     
-    // Keep only the most recent presentations
-    const presentationsToKeep = presentationIds.slice(0, keepCount);
-    const presentationsToDelete = presentationIds.slice(keepCount);
+    const copies = images
+      .filter(img => slideIdMap[img.id])
+      .map(img => ({
+        id: slideIdMap[img.id],
+        imageUrl: img.imageUrl,
+        presentationId: targetPresentationId,
+        createdAt: new Date()
+      }));
     
-    // Delete images from old presentations
-    for (const presentationId of presentationsToDelete) {
-      await deletePresentationImages(presentationId);
-    }
+    await imageDb.images.bulkPut(copies);
+    console.log(`📋 Copied ${copies.length} images to presentation: ${targetPresentationId}`);
+  } catch (error) {
+    console.error('❌ Failed to copy presentation images:', error);
+    throw error;
+  }
+}
+
+/**
+ * Save a rehearsal audio recording
+ * @param recording - Audio Blob with its slide-change markers
+ */
+export async function saveSessionRecording(recording: SessionRecording): Promise<void> {
+  try {
+    await imageDb.recordings.put(recording);
+    console.log(`🎙️ Recording saved to IndexedDB: ${recording.id} (${Math.round(recording.audio.size / 1024)} KB)`);
+  } catch (error) {
+    console.error('❌ Failed to save recording to IndexedDB:', error);
+    throw error;
+  }
+}
+
+/**
+ * Load a rehearsal audio recording
+ * @param recordingId - ID of the recording
+ * @returns Recording or null if not found
+ */
+export async function loadSessionRecording(recordingId: string): Promise<SessionRecording | null> {
+  try {
+    return (await imageDb.recordings.get(recordingId)) || null;
+  } catch (error) {
+    console.error(`❌ Failed to load recording ${recordingId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Delete a single recording
+ * @param recordingId - ID of the recording
+ */
+export async function deleteSessionRecording(recordingId: string): Promise<void> {
+  try {
+    await imageDb.recordings.delete(recordingId);
+  } catch (error) {
+    console.error('❌ Failed to delete recording:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete all recordings for a presentation
+ * @param presentationId - ID of the presentation
+ */
+export async function deletePresentationRecordings(presentationId: string): Promise<void> {
+  try {
+    const deleteCount = await imageDb.recordings
+      .where('presentationId')
+      .equals(presentationId)
+      .delete();
     
-    console.log(`🧹 Cleaned up images. Kept ${presentationsToKeep.length} presentations, deleted ${presentationsToDelete.length}`);
+    console.log(`🗑️ Deleted ${deleteCount} recordings for presentation: ${presentationId}`);
   } catch (error) {
-    console.error('❌ Failed to clear old images:', error);
+    console.error('❌ Failed to delete presentation recordings:', error);
+    throw error;
   }
 }
 
@@ -0,0 +1,150 @@
+import Dexie, { type EntityTable } from 'dexie';
+import type { CoverageReport, Session } from '../core/types';
+
+// Define the IndexedDB database
+class SessionDatabase extends Dexie {
+  sessions!: EntityTable<Session, 'id'>;
+  coverageReports!: EntityTable<CoverageReport, 'id'>;
+
+  constructor() {
+    super('PresentationSessions');
+
+    this.version(1).stores({
+      sessions: 'id, presentationId, startedAt' // Primary key: id, Indexes: presentationId, startedAt
+    });
+
+    // Version 2: coverage reports scored from rehearsal transcripts
+    this.version(2).stores({
+      sessions: 'id, presentationId, startedAt',
+      coverageReports: 'id, presentationId, createdAt'
+    });
+  }
+}
+
+// Create database instance
+export const sessionDb = new SessionDatabase();
+
+/**
+ * Save (insert or replace) a rehearsal session
+ * @param session - Session with its slide visit log
+ */
+export async function saveSession(session: Session): Promise<void> {
+  try {
+    await sessionDb.sessions.put(session);
+  } catch (error) {
+    console.error('❌ Failed to save session to IndexedDB:', error);
+    throw error;
+  }
+}
+
+/**
+ * Point a saved session at its audio recording
+ * @param sessionId - ID of the session
+ * @param recordingUrl - ID of the recording in IndexedDB
+ */
+export async function updateSessionRecording(sessionId: string, recordingUrl: string): Promise<void> {
+  try {
+    await sessionDb.sessions.update(sessionId, { recordingUrl });
+  } catch (error) {
+    console.error('❌ Failed to link recording to session:', error);
+    throw error;
+  }
+}
+
+/**
+ * Load all sessions for a presentation, newest first
+ * @param presentationId - ID of the presentation
+ */
+export async function loadPresentationSessions(presentationId: string): Promise<Session[]> {
+  try {
+    const sessions = await sessionDb.sessions
+      .where('presentationId')
+      .equals(presentationId)
+      .toArray();
+
+    return sessions.sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime());
+  } catch (error) {
+    console.error('❌ Failed to load sessions from IndexedDB:', error);
+    return [];
+  }
+}
+
+/**
+ * Delete a single session
+ * @param sessionId - ID of the session
+ */
+export async function deleteSession(sessionId: string): Promise<void> {
+  try {
+    await sessionDb.sessions.delete(sessionId);
+  } catch (error) {
+    console.error('❌ Failed to delete session:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete all sessions for a presentation
+ * @param presentationId - ID of the presentation
+ */
+export async function deletePresentationSessions(presentationId: string): Promise<void> {
+  try {
+    const deleteCount = await sessionDb.sessions
+      .where('presentationId')
+      .equals(presentationId)
+      .delete();
+
+    await sessionDb.coverageReports
+      .where('presentationId')
+      .equals(presentationId)
+      .delete();
+
+    console.log(`🗑️ Deleted ${deleteCount} sessions for presentation: ${presentationId}`);
+  } catch (error) {
+    console.error('❌ Failed to delete presentation sessions:', error);
+    throw error;
+  }
+}
+
+/**
+ * Save a coverage report
+ * @param report - Per-slide scores for one run
+ */
+export async function saveCoverageReport(report: CoverageReport): Promise<void> {
+  try {
+    await sessionDb.coverageReports.put(report);
+  } catch (error) {
+    console.error('❌ Failed to save coverage report to IndexedDB:', error);
+    throw error;
+  }
+}
+
+/**
+ * Load all coverage reports for a presentation, newest first
+ * @param presentationId - ID of the presentation
+ */
+export async function loadCoverageReports(presentationId: string): Promise<CoverageReport[]> {
+  try {
+    const reports = await sessionDb.coverageReports
+      .where('presentationId')
+      .equals(presentationId)
+      .toArray();
+
+    return reports.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  } catch (error) {
+    console.error('❌ Failed to load coverage reports from IndexedDB:', error);
+    return [];
+  }
+}
+
+/**
+ * Delete a single coverage report
+ * @param reportId - ID of the report
+ */
+export async function deleteCoverageReport(reportId: string): Promise<void> {
+  try {
+    await sessionDb.coverageReports.delete(reportId);
+  } catch (error) {
+    console.error('❌ Failed to delete coverage report:', error);
+    throw error;
+  }
+}
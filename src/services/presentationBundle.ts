@@ -0,0 +1,221 @@
+import JSZip from 'jszip';
+import { saveAs } from 'file-saver';
+import type { Presentation, Slide } from '../core/types';
+import { loadPresentationImages, saveSlideImage } from './imageStorage';
+import { savePresentationRecord } from './presentationLibrary';
+import { remapTimeBudget } from '../features/budget/utils/time-budget';
+import { remapSections } from '../features/sections/utils/sections';
+import { remapPaths } from '../features/paths/utils/slide-paths';
+
+/**
+ * Portable presentation bundle (.pstudio.zip)
+ *
+ * Layout:
+ *   manifest.json          - BundleManifest (slides, scripts, notes, guides, fullScript)
+ *   images/slide-001.png   - one image per slide, referenced from the manifest
+ */
+
+export const BUNDLE_SCHEMA_VERSION = 1;
+export const BUNDLE_FILE_EXTENSION = '.pstudio.zip';
+
+const MANIFEST_FILE = 'manifest.json';
+const BUNDLE_APP_ID = 'presentation-studio';
+
+type BundledSlide = Omit<Slide, 'imageUrl'> & {
+  image: string | null; // Path inside the zip, null when the slide had no image
+};
+
+export interface BundleManifest {
+  app: typeof BUNDLE_APP_ID;
+  schemaVersion: number;
+  exportedAt: string;
+  presentation: Omit<Presentation, 'slides' | 'createdAt' | 'updatedAt'> & {
+    createdAt: string;
+    updatedAt: string;
+    slides: BundledSlide[];
+  };
+}
+
+export interface BundleImportResult {
+  presentation: Presentation;
+  missingImages: number[]; // Slide numbers whose image was absent from the bundle
+}
+
+/**
+ * Split a data URL into its MIME type and base64 payload
+ */
+function parseDataUrl(dataUrl: string): { mimeType: string; base64: string } | null {
+  const match = dataUrl.match(/^data:([^;,]+)?(;base64)?,(.*)$/);
+  if (!match || !match[2]) return null;
+  return { mimeType: match[1] || 'image/png', base64: match[3] };
+}
+
+function extensionForMime(mimeType: string): string {
+  if (mimeType === 'image/jpeg') return 'jpg';
+  if (mimeType === 'image/webp') return 'webp';
+  return 'png';
+}
+
+function mimeForPath(path: string): string {
+  if (/\.jpe?g$/i.test(path)) return 'image/jpeg';
+  if (/\.webp$/i.test(path)) return 'image/webp';
+  return 'image/png';
+}
+
+/**
+ * Build a bundle zip for a presentation
+ * Images are taken from memory first, then from IndexedDB
+ */
+export async function createPresentationBundle(presentation: Presentation): Promise<Blob> {
+  const zip = new JSZip();
+  const storedImages = await loadPresentationImages(presentation.id);
+
+  const slides: BundledSlide[] = presentation.slides.map((slide, index) => {
+    const { imageUrl, ...rest } = slide;
+    const dataUrl = imageUrl || storedImages[slide.id];
+    const parsed = dataUrl ? parseDataUrl(dataUrl) : null;
+
+    if (!parsed) {
+      return { ...rest, image: null };
+    }
+
+    const path = `images/slide-${String(index + 1).padStart(3, '0')}.${extensionForMime(parsed.mimeType)}`;
+    zip.file(path, parsed.base64, { base64: true });
+    return { ...rest, image: path };
+  });
+
+  const manifest: BundleManifest = {
+    app: BUNDLE_APP_ID,
+    schemaVersion: BUNDLE_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    presentation: {
+      ...presentation,
+      createdAt: new Date(presentation.createdAt).toISOString(),
+      updatedAt: new Date(presentation.updatedAt).toISOString(),
+      slides
+    }
+  };
+
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+}
+
+/**
+ * Export a presentation and trigger a download
+ */
+export async function exportPresentationBundle(presentation: Presentation): Promise<void> {
+  const blob = await createPresentationBundle(presentation);
+  const safeTitle = presentation.title.replace(/[^\w\s-]+/g, '').trim() || 'presentation';
+  saveAs(blob, `${safeTitle}${BUNDLE_FILE_EXTENSION}`);
+  console.log(`📦 Exported presentation bundle: ${safeTitle}`);
+}
+
+/**
+ * Check the manifest shape and schema version
+ * Throws with a user-facing message on failure
+ */
+function validateManifest(data: unknown): BundleManifest {
+  const manifest = data as Partial<BundleManifest> | null;
+
+  if (!manifest || manifest.app !== BUNDLE_APP_ID) {
+    throw new Error('This file is not a PresentationStudio bundle.');
+  }
+  if (typeof manifest.schemaVersion !== 'number') {
+    throw new Error('Bundle manifest has no schema version.');
+  }
+  if (manifest.schemaVersion > BUNDLE_SCHEMA_VERSION) {
+    throw new Error(
+      `Bundle was created by a newer version (schema ${manifest.schemaVersion}). Please update PresentationStudio.`
+    );
+  }
+
+  const presentation = manifest.presentation;
+  if (!presentation || typeof presentation.title !== 'string' || !Array.isArray(presentation.slides)) {
+    throw new Error('Bundle manifest is missing presentation data.');
+  }
+
+  presentation.slides.forEach((slide, index) => {
+    if (!slide || typeof slide.id !== 'string' || typeof slide.script !== 'string') {
+      throw new Error(`Slide ${index + 1} in the bundle is malformed.`);
+    }
+  });
+
+  return manifest as BundleManifest;
+}
+
+/**
+ * Read a bundle file and recreate the presentation in IndexedDB
+ * The imported copy gets fresh IDs so it never overwrites an existing deck
+ */
+export async function importPresentationBundle(file: File | Blob): Promise<BundleImportResult> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new Error('Could not read the bundle - the file is not a valid zip archive.');
+  }
+
+  const manifestFile = zip.file(MANIFEST_FILE);
+  if (!manifestFile) {
+    throw new Error('Bundle has no manifest.json.');
+  }
+
+  let manifestData: unknown;
+  try {
+    manifestData = JSON.parse(await manifestFile.async('string'));
+  } catch {
+    throw new Error('Bundle manifest.json is not valid JSON.');
+  }
+
+  const manifest = validateManifest(manifestData);
+  const { slides: bundledSlides, ...bundledPresentation } = manifest.presentation;
+
+  const timestamp = Date.now();
+  const presentationId = `pres-${timestamp}`;
+  const missingImages: number[] = [];
+  const slideIdMap: Record<string, string> = {};
+
+  const slides: Slide[] = await Promise.all(
+    bundledSlides.map(async (bundledSlide, index) => {
+      const { image, ...rest } = bundledSlide;
+      const slide: Slide = {
+        ...rest,
+        id: `slide-${timestamp}-${index}`,
+        number: index + 1,
+        notes: rest.notes ?? '',
+        keyPoints: rest.keyPoints ?? [],
+        imageUrl: ''
+      };
+      slideIdMap[rest.id] = slide.id;
+
+      const imageFile = image ? zip.file(image) : null;
+      if (!imageFile) {
+        missingImages.push(index + 1);
+        return slide;
+      }
+
+      const base64 = await imageFile.async('base64');
+      slide.imageUrl = `data:${mimeForPath(image!)};base64,${base64}`;
+      await saveSlideImage(slide.id, slide.imageUrl, presentationId);
+      return slide;
+    })
+  );
+
+  const presentation: Presentation = {
+    ...bundledPresentation,
+    id: presentationId,
+    slides,
+    timeBudget: remapTimeBudget(bundledPresentation.timeBudget, slideIdMap),
+    sections: remapSections(bundledPresentation.sections, slideIdMap),
+    paths: remapPaths(bundledPresentation.paths, slideIdMap),
+    createdAt: new Date(bundledPresentation.createdAt || Date.now()),
+    updatedAt: new Date()
+  };
+
+  await savePresentationRecord(presentation);
+  missingImages.sort((a, b) => a - b);
+
+  console.log(`📦 Imported bundle "${presentation.title}" with ${slides.length} slides (${missingImages.length} missing images)`);
+  return { presentation, missingImages };
+}
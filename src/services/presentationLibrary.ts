@@ -0,0 +1,109 @@
+import Dexie, { type EntityTable } from 'dexie';
+import type { Presentation } from '../core/types';
+
+// A stored presentation - same shape as the store's Presentation,
+// but slides never carry image data (images live in imageStorage)
+type PresentationRecord = Presentation;
+
+// Lightweight entry used to render the library list
+export interface PresentationSummary {
+  id: string;
+  title: string;
+  slideCount: number;
+  thumbnailSlideId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Define the IndexedDB database
+class LibraryDatabase extends Dexie {
+  presentations!: EntityTable<PresentationRecord, 'id'>;
+
+  constructor() {
+    super('PresentationLibrary');
+
+    this.version(1).stores({
+      presentations: 'id, title, updatedAt' // Primary key: id, Indexes: title, updatedAt
+    });
+  }
+}
+
+// Create database instance
+export const libraryDb = new LibraryDatabase();
+
+/**
+ * Strip image data from slides before persisting
+ * Images are stored separately, grouped by presentationId
+ */
+function toRecord(presentation: Presentation): PresentationRecord {
+  return {
+    ...presentation,
+    slides: presentation.slides.map(slide => ({ ...slide, imageUrl: '' })),
+    createdAt: new Date(presentation.createdAt),
+    updatedAt: new Date(presentation.updatedAt)
+  };
+}
+
+/**
+ * Save (insert or replace) a presentation in the library
+ * @param presentation - Presentation to store; image URLs are dropped
+ */
+export async function savePresentationRecord(presentation: Presentation): Promise<void> {
+  try {
+    await libraryDb.presentations.put(toRecord(presentation));
+  } catch (error) {
+    console.error('❌ Failed to save presentation to library:', error);
+    throw error;
+  }
+}
+
+/**
+ * Load a full presentation record from the library
+ * @param presentationId - ID of the presentation
+ * @returns The presentation (without images) or null if not found
+ */
+export async function loadPresentationRecord(presentationId: string): Promise<Presentation | null> {
+  try {
+    const record = await libraryDb.presentations.get(presentationId);
+    return record || null;
+  } catch (error) {
+    console.error(`❌ Failed to load presentation ${presentationId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * List all presentations in the library, most recently updated first
+ */
+export async function listPresentations(): Promise<PresentationSummary[]> {
+  try {
+    const records = await libraryDb.presentations.orderBy('updatedAt').reverse().toArray();
+
+    return records.map(record => ({
+      id: record.id,
+      title: record.title,
+      slideCount: record.slides.length,
+      thumbnailSlideId: record.slides[0]?.id,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt
+    }));
+  } catch (error) {
+    console.error('❌ Failed to list presentations:', error);
+    return [];
+  }
+}
+
+/**
+ * Remove a presentation record from the library
+ * Callers are responsible for deleting the matching images
+ * @param presentationId - ID of the presentation
+ */
+export async function deletePresentationRecord(presentationId: string): Promise<void> {
+  try {
+    await libraryDb.presentations.delete(presentationId);
+    console.log(`🗑️ Deleted presentation from library: ${presentationId}`);
+  } catch (error) {
+    console.error('❌ Failed to delete presentation from library:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,134 @@
+import Dexie, { type EntityTable } from 'dexie';
+import type { DeckSnapshot, ScriptRevision } from '../core/types';
+import { selectHistoryToPrune } from '../features/history/utils/script-history';
+
+// Define the IndexedDB database
+class ScriptHistoryDatabase extends Dexie {
+  revisions!: EntityTable<ScriptRevision, 'id'>;
+  snapshots!: EntityTable<DeckSnapshot, 'id'>;
+
+  constructor() {
+    super('PresentationScriptHistory');
+
+    this.version(1).stores({
+      revisions: 'id, presentationId, slideId, createdAt', // Primary key: id, Indexes: presentationId, slideId, createdAt
+      snapshots: 'id, presentationId, createdAt'
+    });
+  }
+}
+
+// Create database instance
+export const scriptHistoryDb = new ScriptHistoryDatabase();
+
+const newestFirst = (a: { createdAt: Date }, b: { createdAt: Date }) =>
+  new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+
+/**
+ * Append revisions to slide revision logs
+ * @param revisions - New revisions (never replaces an existing one)
+ */
+export async function saveScriptRevisions(revisions: ScriptRevision[]): Promise<void> {
+  try {
+    await scriptHistoryDb.revisions.bulkAdd(revisions);
+  } catch (error) {
+    console.error('❌ Failed to save script revisions to IndexedDB:', error);
+    throw error;
+  }
+}
+
+/**
+ * Load the revision log of a slide, newest first
+ * @param presentationId - ID of the presentation
+ * @param slideId - ID of the slide
+ */
+export async function loadSlideRevisions(presentationId: string, slideId: string): Promise<ScriptRevision[]> {
+  try {
+    const revisions = await scriptHistoryDb.revisions
+      .where('slideId')
+      .equals(slideId)
+      .filter(revision => revision.presentationId === presentationId)
+      .toArray();
+
+    return revisions.sort(newestFirst);
+  } catch (error) {
+    console.error('❌ Failed to load script revisions from IndexedDB:', error);
+    return [];
+  }
+}
+
+/**
+ * Save a whole-deck snapshot
+ * @param snapshot - Every slide script before a bulk operation
+ */
+export async function saveDeckSnapshot(snapshot: DeckSnapshot): Promise<void> {
+  try {
+    await scriptHistoryDb.snapshots.add(snapshot);
+  } catch (error) {
+    console.error('❌ Failed to save deck snapshot to IndexedDB:', error);
+    throw error;
+  }
+}
+
+/**
+ * Load all deck snapshots for a presentation, newest first
+ * @param presentationId - ID of the presentation
+ */
+export async function loadDeckSnapshots(presentationId: string): Promise<DeckSnapshot[]> {
+  try {
+    const snapshots = await scriptHistoryDb.snapshots
+      .where('presentationId')
+      .equals(presentationId)
+      .toArray();
+
+    return snapshots.sort(newestFirst);
+  } catch (error) {
+    console.error('❌ Failed to load deck snapshots from IndexedDB:', error);
+    return [];
+  }
+}
+
+/**
+ * Delete the oldest history of a presentation until it fits the size limit
+ * @param presentationId - ID of the presentation
+ * @param limitBytes - Storage allowed for the presentation's history
+ */
+export async function pruneScriptHistory(presentationId: string, limitBytes: number): Promise<void> {
+  try {
+    const [revisions, snapshots] = await Promise.all([
+      scriptHistoryDb.revisions.where('presentationId').equals(presentationId).toArray(),
+      scriptHistoryDb.snapshots.where('presentationId').equals(presentationId).toArray()
+    ]);
+
+    const { revisionIds, snapshotIds } = selectHistoryToPrune(revisions, snapshots, limitBytes);
+    if (revisionIds.length === 0 && snapshotIds.length === 0) return;
+
+    await scriptHistoryDb.revisions.bulkDelete(revisionIds);
+    await scriptHistoryDb.snapshots.bulkDelete(snapshotIds);
+    console.log(`🧹 Pruned ${revisionIds.length} revisions and ${snapshotIds.length} snapshots for presentation: ${presentationId}`);
+  } catch (error) {
+    console.error('❌ Failed to prune script history:', error);
+  }
+}
+
+/**
+ * Delete all script history for a presentation
+ * @param presentationId - ID of the presentation
+ */
+export async function deletePresentationScriptHistory(presentationId: string): Promise<void> {
+  try {
+    const deleteCount = await scriptHistoryDb.revisions
+      .where('presentationId')
+      .equals(presentationId)
+      .delete();
+
+    await scriptHistoryDb.snapshots
+      .where('presentationId')
+      .equals(presentationId)
+      .delete();
+
+    console.log(`🗑️ Deleted ${deleteCount} script revisions for presentation: ${presentationId}`);
+  } catch (error) {
+    console.error('❌ Failed to delete presentation script history:', error);
+    throw error;
+  }
+}